@@ -0,0 +1,30 @@
+// npm run db:status   lists every migration and whether DATABASE_PATH has it
+// npm run db:migrate  applies pending migrations without starting the server
+import { DATABASE_PATH, getMigrationStatus, migrate, openDatabase } from "./index";
+
+const command = process.argv[2] ?? "status";
+const db = openDatabase();
+
+try {
+  if (command === "migrate") {
+    const applied = migrate(db);
+    console.log(applied.length
+      ? `Applied ${applied.map(m => `${m.version} (${m.name})`).join(", ")} to ${DATABASE_PATH}`
+      : `${DATABASE_PATH} is up to date`);
+  } else if (command === "status") {
+    const status = getMigrationStatus(db);
+    console.log(`Database: ${DATABASE_PATH}`);
+    for (const m of status) {
+      const state = m.appliedAt ? `applied ${new Date(m.appliedAt).toISOString()}` : "pending";
+      console.log(`  ${String(m.version).padStart(3, "0")}  ${m.name.padEnd(24)} ${state}`);
+    }
+    const pending = status.filter(m => !m.appliedAt).length;
+    console.log(pending ? `${pending} pending migration(s); they run on the next server start or npm run db:migrate` : "Up to date");
+    process.exitCode = pending ? 1 : 0;
+  } else {
+    console.error(`Unknown command "${command}". Use "status" or "migrate".`);
+    process.exitCode = 2;
+  }
+} finally {
+  db.close();
+}
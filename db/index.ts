@@ -0,0 +1,83 @@
+// Opens the SQLite database and keeps its schema current. Used by server.ts on
+// startup and by db/cli.ts for `npm run db:status` / `npm run db:migrate`.
+import Database from "better-sqlite3";
+import { Db, MIGRATIONS, Migration } from "./migrations";
+
+export type { Db } from "./migrations";
+
+export const DATABASE_PATH = process.env.DATABASE_PATH || "data_paradox.db";
+
+export class MigrationError extends Error {}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: number | null;
+}
+
+export function openDatabase(file: string = DATABASE_PATH): Db {
+  const db = new Database(file);
+  db.pragma("foreign_keys = ON");
+  return db;
+}
+
+function ensureMigrationsTable(db: Db) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )
+  `);
+}
+
+const countForeignKeyViolations = (db: Db): number => db.pragma("foreign_key_check").length;
+
+export function getMigrationStatus(db: Db): MigrationStatus[] {
+  ensureMigrationsTable(db);
+  const applied = new Map<number, number>(
+    db.prepare("SELECT version, applied_at FROM schema_migrations").all().map((row: any) => [row.version, row.applied_at])
+  );
+  return MIGRATIONS.map(({ version, name }) => ({ version, name, appliedAt: applied.get(version) ?? null }));
+}
+
+// Applies every pending migration and returns the ones it ran. Foreign key enforcement is
+// switched off while they run (SQLite can't rebuild a referenced table otherwise) and each
+// migration is checked afterwards so it can't leave dangling references behind.
+export function migrate(db: Db, migrations: Migration[] = MIGRATIONS): Migration[] {
+  ensureMigrationsTable(db);
+  const newest = db.prepare("SELECT MAX(version) as version FROM schema_migrations").get().version ?? 0;
+  const latest = migrations.length ? migrations[migrations.length - 1].version : 0;
+  if (newest > latest) {
+    throw new MigrationError(`Database is at schema version ${newest} but this build only knows up to ${latest}`);
+  }
+
+  const applied = new Set(db.prepare("SELECT version FROM schema_migrations").all().map((row: any) => row.version));
+  const pending = migrations.filter(m => !applied.has(m.version));
+  if (pending.length === 0) return [];
+
+  const enforced = db.pragma("foreign_keys", { simple: true }) === 1;
+  db.pragma("foreign_keys = OFF");
+  try {
+    for (const migration of pending) {
+      db.transaction(() => {
+        const violationsBefore = countForeignKeyViolations(db);
+        migration.up(db);
+        const violationsAfter = countForeignKeyViolations(db);
+        if (violationsAfter > violationsBefore) {
+          throw new MigrationError(`Migration ${migration.version} (${migration.name}) left ${violationsAfter - violationsBefore} broken foreign key reference(s)`);
+        }
+        db.prepare("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)")
+          .run(migration.version, migration.name, Date.now());
+      })();
+    }
+  } finally {
+    if (enforced) db.pragma("foreign_keys = ON");
+  }
+
+  const dangling = countForeignKeyViolations(db);
+  if (dangling > 0) {
+    console.warn(`Database has ${dangling} row(s) with broken foreign key references from before they were enforced`);
+  }
+  return pending;
+}
@@ -0,0 +1,340 @@
+// Numbered schema migrations. Each one runs once, in order, inside its own transaction,
+// and is recorded in schema_migrations. Never edit a migration that has shipped; add a
+// new one with the next version number instead.
+import Database from "better-sqlite3";
+
+export type Db = InstanceType<typeof Database>;
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Db) => void;
+}
+
+function hasColumn(db: Db, table: string, column: string) {
+  return db.prepare(`PRAGMA table_info(${table})`).all().some((c: any) => c.name === column);
+}
+
+function addColumn(db: Db, table: string, column: string, ddl: string) {
+  if (!hasColumn(db, table, column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${ddl}`);
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    // Databases from before migrations existed can be at any point of the old
+    // CREATE TABLE IF NOT EXISTS / ensureColumn history, so this one is idempotent.
+    // Rows from the single-game era are left with a NULL game_id for the server to
+    // adopt into its first game on startup.
+    version: 1,
+    name: "baseline",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS games (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          join_code TEXT UNIQUE NOT NULL,
+          status TEXT DEFAULT 'active',
+          created_at INTEGER
+        );
+
+        CREATE TABLE IF NOT EXISTS teams (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          game_id INTEGER REFERENCES games(id),
+          name TEXT,
+          balance REAL DEFAULT 2000,
+          pin_hash TEXT,
+          UNIQUE(game_id, name)
+        );
+
+        CREATE TABLE IF NOT EXISTS team_sessions (
+          token_hash TEXT PRIMARY KEY,
+          team_id INTEGER NOT NULL REFERENCES teams(id),
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS admin_accounts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          username TEXT UNIQUE NOT NULL,
+          password_hash TEXT NOT NULL,
+          role TEXT NOT NULL,
+          disabled INTEGER DEFAULT 0,
+          created_at INTEGER
+        );
+
+        CREATE TABLE IF NOT EXISTS admin_sessions (
+          token_hash TEXT PRIMARY KEY,
+          account_id INTEGER NOT NULL REFERENCES admin_accounts(id),
+          created_at INTEGER NOT NULL,
+          expires_at INTEGER NOT NULL,
+          revoked_at INTEGER
+        );
+
+        CREATE TABLE IF NOT EXISTS admin_audit_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          account_id INTEGER REFERENCES admin_accounts(id),
+          game_id INTEGER REFERENCES games(id),
+          action TEXT NOT NULL,
+          details TEXT,
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS scoring_rules (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT UNIQUE,
+          definition TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS rounds (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          game_id INTEGER REFERENCES games(id),
+          theme TEXT,
+          actual_value REAL,
+          status TEXT DEFAULT 'open',
+          scoring_rule_id INTEGER REFERENCES scoring_rules(id),
+          deadline_at INTEGER,
+          settled_at INTEGER,
+          question_id INTEGER REFERENCES questions(id),
+          question TEXT,
+          unit TEXT,
+          description TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS questions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          theme TEXT NOT NULL,
+          question TEXT NOT NULL,
+          unit TEXT,
+          description TEXT,
+          answer REAL NOT NULL,
+          created_at INTEGER
+        );
+
+        CREATE TABLE IF NOT EXISTS game_queue (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          game_id INTEGER NOT NULL REFERENCES games(id),
+          question_id INTEGER NOT NULL REFERENCES questions(id),
+          position INTEGER NOT NULL,
+          round_id INTEGER REFERENCES rounds(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS game_settings (
+          game_id INTEGER NOT NULL REFERENCES games(id),
+          key TEXT NOT NULL,
+          value TEXT,
+          PRIMARY KEY (game_id, key)
+        );
+
+        CREATE TABLE IF NOT EXISTS submissions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          team_id INTEGER,
+          round_id INTEGER,
+          predicted_value REAL,
+          bid_amount REAL,
+          score REAL DEFAULT 0,
+          error_percent REAL,
+          FOREIGN KEY(team_id) REFERENCES teams(id),
+          FOREIGN KEY(round_id) REFERENCES rounds(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS ledger_entries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          team_id INTEGER NOT NULL,
+          kind TEXT NOT NULL,
+          amount REAL NOT NULL,
+          balance_after REAL NOT NULL,
+          round_id INTEGER,
+          submission_id INTEGER,
+          note TEXT,
+          created_at INTEGER NOT NULL,
+          FOREIGN KEY(team_id) REFERENCES teams(id),
+          FOREIGN KEY(round_id) REFERENCES rounds(id),
+          FOREIGN KEY(submission_id) REFERENCES submissions(id)
+        );
+      `);
+
+      addColumn(db, "rounds", "scoring_rule_id", "scoring_rule_id INTEGER REFERENCES scoring_rules(id)");
+      addColumn(db, "rounds", "deadline_at", "deadline_at INTEGER");
+      addColumn(db, "rounds", "settled_at", "settled_at INTEGER");
+      addColumn(db, "rounds", "game_id", "game_id INTEGER REFERENCES games(id)");
+      addColumn(db, "rounds", "question_id", "question_id INTEGER REFERENCES questions(id)");
+      addColumn(db, "rounds", "question", "question TEXT");
+      addColumn(db, "rounds", "unit", "unit TEXT");
+      addColumn(db, "rounds", "description", "description TEXT");
+
+      // Team names became unique per game rather than globally, which needs a table rebuild in SQLite.
+      if (!hasColumn(db, "teams", "game_id")) {
+        db.exec(`
+          CREATE TABLE teams_new (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            game_id INTEGER REFERENCES games(id),
+            name TEXT,
+            balance REAL DEFAULT 2000,
+            UNIQUE(game_id, name)
+          );
+          INSERT INTO teams_new (id, name, balance) SELECT id, name, balance FROM teams;
+          DROP TABLE teams;
+          ALTER TABLE teams_new RENAME TO teams;
+        `);
+      }
+      addColumn(db, "teams", "pin_hash", "pin_hash TEXT");
+
+      // Teams that predate the ledger get an opening entry for their current balance.
+      db.prepare(`
+        INSERT INTO ledger_entries (team_id, kind, amount, balance_after, note, created_at)
+        SELECT id, 'grant', balance, balance, 'Opening balance', ? FROM teams
+        WHERE id NOT IN (SELECT DISTINCT team_id FROM ledger_entries)
+      `).run(Date.now());
+    }
+  },
+  {
+    version: 2,
+    name: "game_snapshots",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE game_snapshots (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          game_id INTEGER NOT NULL REFERENCES games(id),
+          reason TEXT NOT NULL,
+          label TEXT,
+          account_id INTEGER REFERENCES admin_accounts(id),
+          team_count INTEGER NOT NULL,
+          round_count INTEGER NOT NULL,
+          data TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+        CREATE INDEX game_snapshots_game ON game_snapshots(game_id, created_at);
+      `);
+    }
+  },
+  {
+    // The starting balance moved to the game's economy settings, so the 2000 column default
+    // goes (which takes a rebuild), and teams gain bankruptcy state.
+    version: 3,
+    name: "team_economy",
+    up: (db) => {
+      const sequence = db.prepare("SELECT seq FROM sqlite_sequence WHERE name = 'teams'").get()?.seq;
+      db.exec(`
+        CREATE TABLE teams_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          game_id INTEGER REFERENCES games(id),
+          name TEXT,
+          balance REAL NOT NULL DEFAULT 0,
+          pin_hash TEXT,
+          eliminated_at INTEGER,
+          rebuys INTEGER NOT NULL DEFAULT 0,
+          debt REAL NOT NULL DEFAULT 0,
+          UNIQUE(game_id, name)
+        );
+        INSERT INTO teams_new (id, game_id, name, balance, pin_hash)
+          SELECT id, game_id, name, COALESCE(balance, 0), pin_hash FROM teams;
+        DROP TABLE teams;
+        ALTER TABLE teams_new RENAME TO teams;
+      `);
+      // Keep AUTOINCREMENT from handing out ids of teams that were deleted before the rebuild.
+      if (sequence != null) {
+        const info = db.prepare("UPDATE sqlite_sequence SET seq = MAX(seq, ?) WHERE name = 'teams'").run(sequence);
+        if (info.changes === 0) db.prepare("INSERT INTO sqlite_sequence (name, seq) VALUES ('teams', ?)").run(sequence);
+      }
+    }
+  },
+  {
+    version: 4,
+    name: "submission_power_ups",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE submissions ADD COLUMN power_up TEXT;
+        ALTER TABLE submissions ADD COLUMN hedge_value REAL;
+      `);
+    }
+  },
+  {
+    version: 5,
+    name: "round_hints",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE round_hints (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          round_id INTEGER NOT NULL REFERENCES rounds(id),
+          position INTEGER NOT NULL,
+          text TEXT NOT NULL,
+          price REAL NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+        CREATE INDEX round_hints_round ON round_hints(round_id, position);
+
+        CREATE TABLE hint_purchases (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          hint_id INTEGER NOT NULL REFERENCES round_hints(id),
+          team_id INTEGER NOT NULL REFERENCES teams(id),
+          created_at INTEGER NOT NULL,
+          UNIQUE(hint_id, team_id)
+        );
+      `);
+    }
+  },
+  {
+    // Rounds from before round types are all point estimates; options hold the choices
+    // (or the over/under odds) as JSON.
+    version: 6,
+    name: "round_types",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE rounds ADD COLUMN type TEXT NOT NULL DEFAULT 'point';
+        ALTER TABLE rounds ADD COLUMN options TEXT;
+        ALTER TABLE rounds ADD COLUMN line REAL;
+        ALTER TABLE submissions ADD COLUMN interval_low REAL;
+        ALTER TABLE submissions ADD COLUMN interval_high REAL;
+      `);
+    }
+  },
+  {
+    // Multi-question rounds have no single actual_value, so a round voided without a reveal
+    // is now marked as such instead of being told apart by its missing answer.
+    version: 7,
+    name: "sub_questions",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE sub_questions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          round_id INTEGER NOT NULL REFERENCES rounds(id),
+          position INTEGER NOT NULL,
+          question TEXT NOT NULL,
+          unit TEXT,
+          actual_value REAL,
+          settled_at INTEGER
+        );
+        CREATE INDEX sub_questions_round ON sub_questions(round_id, position);
+
+        ALTER TABLE submissions ADD COLUMN sub_question_id INTEGER REFERENCES sub_questions(id);
+        ALTER TABLE rounds ADD COLUMN voided_at INTEGER;
+        UPDATE rounds SET voided_at = settled_at WHERE settled_at IS NOT NULL AND actual_value IS NULL;
+      `);
+    }
+  },
+  {
+    version: 8,
+    name: "question_sources",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE questions ADD COLUMN source TEXT;
+        ALTER TABLE questions ADD COLUMN difficulty TEXT;
+      `);
+    }
+  },
+  {
+    // Removed teams keep their rows so the rounds they played stay in the game's history.
+    // A banned team is removed and cannot rejoin under its name.
+    version: 9,
+    name: "team_moderation",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE teams ADD COLUMN removed_at INTEGER;
+        ALTER TABLE teams ADD COLUMN banned_at INTEGER;
+      `);
+    }
+  }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
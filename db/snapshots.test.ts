@@ -0,0 +1,157 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { Db, migrate, openDatabase } from "./index";
+import { SCHEMA_VERSION } from "./migrations";
+import { GameSnapshotFile, captureGame, loadSnapshot, restoreGame, saveSnapshot, validateSnapshotFile } from "./snapshots";
+
+let db: Db;
+
+const addGame = (id: number, name: string) =>
+  db.prepare("INSERT INTO games (id, name, join_code, created_at) VALUES (?, ?, ?, 0)").run(id, name, `CODE${id}`);
+
+const addTeam = (gameId: number, name: string, balance = 2000) =>
+  Number(db.prepare("INSERT INTO teams (game_id, name, balance, pin_hash) VALUES (?, ?, ?, 'x')").run(gameId, name, balance).lastInsertRowid);
+
+const addRound = (gameId: number, questionId: number | null = null) =>
+  Number(db.prepare("INSERT INTO rounds (game_id, theme, status, actual_value, settled_at, question_id) VALUES (?, 'Heights', 'revealed', 100, 1, ?)")
+    .run(gameId, questionId).lastInsertRowid);
+
+const addSubmission = (teamId: number, roundId: number) =>
+  Number(db.prepare("INSERT INTO submissions (team_id, round_id, predicted_value, bid_amount, error_percent, score) VALUES (?, ?, 100, 100, 0, 300)")
+    .run(teamId, roundId).lastInsertRowid);
+
+const addLedgerEntry = (teamId: number, kind: string, amount: number, roundId: number | null = null, submissionId: number | null = null) =>
+  db.prepare("INSERT INTO ledger_entries (team_id, kind, amount, balance_after, round_id, submission_id, created_at) VALUES (?, ?, ?, 0, ?, ?, 0)")
+    .run(teamId, kind, amount, roundId, submissionId);
+
+const addQuestion = () =>
+  Number(db.prepare("INSERT INTO questions (theme, question, answer) VALUES ('Heights', 'How tall?', 100)").run().lastInsertRowid);
+
+// Game 1 with one team that bet on one revealed round.
+function playGame() {
+  const alpha = addTeam(1, "Alpha", 2200);
+  const roundId = addRound(1);
+  const submissionId = addSubmission(alpha, roundId);
+  addLedgerEntry(alpha, "grant", 2000);
+  addLedgerEntry(alpha, "escrow", -100, roundId, submissionId);
+  addLedgerEntry(alpha, "payout", 300, roundId, submissionId);
+  db.prepare("INSERT INTO game_settings (game_id, key, value) VALUES (1, 'economy', '{}')").run();
+  return { alpha, roundId, submissionId };
+}
+
+const teamsOf = (gameId: number) => db.prepare("SELECT name, balance FROM teams WHERE game_id = ? ORDER BY id").all(gameId);
+
+beforeEach(() => {
+  db = openDatabase(":memory:");
+  migrate(db);
+  addGame(1, "Quiz Night");
+  addGame(2, "Other Night");
+});
+
+describe("restoreGame", () => {
+  it("brings back the game as it was captured", () => {
+    playGame();
+    const snapshot = captureGame(db, 1);
+    db.prepare("DELETE FROM ledger_entries").run();
+    db.prepare("DELETE FROM submissions").run();
+    db.prepare("UPDATE teams SET balance = 0, name = 'Renamed'").run();
+    db.prepare("UPDATE games SET name = 'Reset' WHERE id = 1").run();
+    db.prepare("DELETE FROM game_settings").run();
+    addTeam(1, "Late Joiner");
+
+    expect(restoreGame(db, 1, snapshot)).toEqual([]);
+    expect(db.prepare("SELECT name FROM games WHERE id = 1").get().name).toBe("Quiz Night");
+    expect(teamsOf(1)).toEqual([{ name: "Alpha", balance: 2200 }]);
+    expect(db.prepare("SELECT key, value FROM game_settings WHERE game_id = 1").all()).toEqual([{ key: "economy", value: "{}" }]);
+    expect(db.prepare("SELECT kind, amount FROM ledger_entries ORDER BY id").all().map((e: any) => [e.kind, e.amount]))
+      .toEqual([["grant", 2000], ["escrow", -100], ["payout", 300]]);
+  });
+
+  it("points restored rows at the restored rows they belong to", () => {
+    playGame();
+    const snapshot = captureGame(db, 1);
+    restoreGame(db, 1, snapshot);
+
+    const team = db.prepare("SELECT id FROM teams WHERE game_id = 1").get();
+    const round = db.prepare("SELECT id FROM rounds WHERE game_id = 1").get();
+    const submission = db.prepare("SELECT * FROM submissions").get();
+    expect(submission).toMatchObject({ team_id: team.id, round_id: round.id });
+    const payout = db.prepare("SELECT * FROM ledger_entries WHERE kind = 'payout'").get();
+    expect(payout).toMatchObject({ team_id: team.id, round_id: round.id, submission_id: submission.id });
+    expect(db.pragma("foreign_key_check")).toEqual([]);
+  });
+
+  it("leaves other games alone", () => {
+    playGame();
+    addTeam(2, "Bystander", 1500);
+    const snapshot = captureGame(db, 1);
+    restoreGame(db, 1, snapshot);
+    expect(teamsOf(2)).toEqual([{ name: "Bystander", balance: 1500 }]);
+  });
+
+  it("signs every team of the game out", () => {
+    const { alpha } = playGame();
+    db.prepare("INSERT INTO team_sessions (token_hash, team_id, created_at) VALUES ('hash', ?, 0)").run(alpha);
+    restoreGame(db, 1, captureGame(db, 1));
+    expect(db.prepare("SELECT COUNT(*) as count FROM team_sessions").get().count).toBe(0);
+  });
+
+  it("clears or skips references to questions deleted since the capture", () => {
+    const questionId = addQuestion();
+    addRound(1, questionId);
+    db.prepare("INSERT INTO game_queue (game_id, question_id, position) VALUES (1, ?, 1)").run(questionId);
+    const snapshot = captureGame(db, 1);
+    const [round] = snapshot.tables.rounds;
+    const [entry] = snapshot.tables.game_queue;
+    db.prepare("DELETE FROM game_queue").run();
+    db.prepare("DELETE FROM rounds").run();
+    db.prepare("DELETE FROM questions").run();
+
+    expect(restoreGame(db, 1, snapshot)).toEqual([
+      `rounds row ${round.id}: questions ${questionId} no longer exists and was cleared`,
+      `Skipped game_queue row ${entry.id}: questions ${questionId} no longer exists`
+    ]);
+    expect(db.prepare("SELECT question_id FROM rounds").all()).toEqual([{ question_id: null }]);
+    expect(db.prepare("SELECT COUNT(*) as count FROM game_queue").get().count).toBe(0);
+  });
+
+  it("restores a snapshot saved to and loaded from the database", () => {
+    playGame();
+    const id = saveSnapshot(db, 1, captureGame(db, 1), "manual");
+    db.prepare("UPDATE teams SET balance = 0").run();
+    const loaded = loadSnapshot(db, id)!;
+    expect(loaded.gameId).toBe(1);
+    restoreGame(db, loaded.gameId, loaded.snapshot);
+    expect(teamsOf(1)).toEqual([{ name: "Alpha", balance: 2200 }]);
+  });
+});
+
+describe("validateSnapshotFile", () => {
+  const capture = () => JSON.parse(JSON.stringify(captureGame(db, 1))) as GameSnapshotFile;
+
+  it("accepts a captured game", () => {
+    playGame();
+    expect(validateSnapshotFile(capture())).toBeNull();
+  });
+
+  it("rejects files that are not snapshots or come from a newer server", () => {
+    expect(validateSnapshotFile({ format: "something-else" })).toBe("Not a Data Paradox game snapshot");
+    expect(validateSnapshotFile({ ...capture(), schemaVersion: SCHEMA_VERSION + 1 }))
+      .toBe(`Snapshot was made by a newer version (schema ${SCHEMA_VERSION + 1}, this server has ${SCHEMA_VERSION})`);
+  });
+
+  it("rejects rows that refer to rows outside the snapshot", () => {
+    const { submissionId } = playGame();
+    const snapshot = capture();
+    snapshot.tables.submissions = [];
+    const escrow = snapshot.tables.ledger_entries.find((e) => e.kind === "escrow")!;
+    expect(validateSnapshotFile(snapshot))
+      .toBe(`ledger_entries row ${escrow.id} refers to submissions ${submissionId}, which is not in the snapshot`);
+  });
+
+  it("fills in tables an older snapshot did not have", () => {
+    const snapshot: any = { ...capture(), schemaVersion: SCHEMA_VERSION - 1 };
+    delete snapshot.tables.game_queue;
+    expect(validateSnapshotFile(snapshot)).toBeNull();
+    expect(snapshot.tables.game_queue).toEqual([]);
+  });
+});
@@ -0,0 +1,198 @@
+// Point-in-time copies of one game's play state, kept in game_snapshots and exchanged as
+// JSON files. The server takes one before every destructive admin operation so that an
+// accidental reset or a bad correction can be rolled back.
+import { Db, SCHEMA_VERSION } from "./migrations";
+
+export const SNAPSHOT_FORMAT = "data-paradox-game-snapshot";
+
+// Per-game tables in insert order, each with the query that selects one game's rows.
+// A new table holding game data has to be added here or snapshots will leave it out.
+const GAME_TABLES = {
+  teams: "SELECT * FROM teams WHERE game_id = ? ORDER BY id",
+  rounds: "SELECT * FROM rounds WHERE game_id = ? ORDER BY id",
+  sub_questions: "SELECT q.* FROM sub_questions q JOIN rounds r ON q.round_id = r.id WHERE r.game_id = ? ORDER BY q.id",
+  round_hints: "SELECT h.* FROM round_hints h JOIN rounds r ON h.round_id = r.id WHERE r.game_id = ? ORDER BY h.id",
+  submissions: "SELECT s.* FROM submissions s JOIN rounds r ON s.round_id = r.id WHERE r.game_id = ? ORDER BY s.id",
+  ledger_entries: "SELECT l.* FROM ledger_entries l JOIN teams t ON l.team_id = t.id WHERE t.game_id = ? ORDER BY l.id",
+  hint_purchases: "SELECT p.* FROM hint_purchases p JOIN teams t ON p.team_id = t.id WHERE t.game_id = ? ORDER BY p.id",
+  game_queue: "SELECT * FROM game_queue WHERE game_id = ? ORDER BY id"
+};
+
+type GameTable = keyof typeof GAME_TABLES;
+const TABLE_ORDER = Object.keys(GAME_TABLES) as GameTable[];
+
+// Columns pointing at rows of the same snapshot; restored rows get fresh ids, so these are remapped.
+const SNAPSHOT_REFERENCES: Record<string, GameTable> = {
+  team_id: "teams",
+  round_id: "rounds",
+  submission_id: "submissions",
+  hint_id: "round_hints",
+  sub_question_id: "sub_questions"
+};
+
+// Columns pointing at tables shared between games; kept only if the row still exists.
+const SHARED_REFERENCES: Record<string, string> = {
+  question_id: "questions",
+  scoring_rule_id: "scoring_rules"
+};
+
+type SnapshotValue = string | number | null;
+type SnapshotRow = Record<string, SnapshotValue>;
+
+export interface GameSnapshotFile {
+  format: typeof SNAPSHOT_FORMAT;
+  schemaVersion: number;
+  createdAt: number;
+  game: { name: string };
+  settings: { key: string, value: string | null }[];
+  tables: Record<GameTable, SnapshotRow[]>;
+}
+
+export type SnapshotReason = "manual" | "upload" | "before_reset" | "before_restore" | "before_correction";
+
+export function captureGame(db: Db, gameId: number): GameSnapshotFile {
+  const tables = {} as Record<GameTable, SnapshotRow[]>;
+  for (const table of TABLE_ORDER) {
+    tables[table] = db.prepare(GAME_TABLES[table]).all(gameId);
+  }
+  return {
+    format: SNAPSHOT_FORMAT,
+    schemaVersion: SCHEMA_VERSION,
+    createdAt: Date.now(),
+    game: { name: db.prepare("SELECT name FROM games WHERE id = ?").get(gameId).name },
+    settings: db.prepare("SELECT key, value FROM game_settings WHERE game_id = ? ORDER BY key").all(gameId),
+    tables
+  };
+}
+
+export function saveSnapshot(
+  db: Db,
+  gameId: number,
+  snapshot: GameSnapshotFile,
+  reason: SnapshotReason,
+  meta: { accountId?: number | null, label?: string | null } = {}
+): number {
+  const info = db.prepare(`
+    INSERT INTO game_snapshots (game_id, reason, label, account_id, team_count, round_count, data, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    gameId, reason, meta.label ?? null, meta.accountId ?? null,
+    snapshot.tables.teams.length, snapshot.tables.rounds.length, JSON.stringify(snapshot), Date.now()
+  );
+  return Number(info.lastInsertRowid);
+}
+
+export function listSnapshots(db: Db, gameId: number) {
+  return db.prepare(`
+    SELECT s.id, s.reason, s.label, s.team_count, s.round_count, s.created_at, a.username
+    FROM game_snapshots s LEFT JOIN admin_accounts a ON s.account_id = a.id
+    WHERE s.game_id = ?
+    ORDER BY s.id DESC
+  `).all(gameId);
+}
+
+export function loadSnapshot(db: Db, id: number): { gameId: number, snapshot: GameSnapshotFile } | null {
+  const row = db.prepare("SELECT game_id, data FROM game_snapshots WHERE id = ?").get(id);
+  return row ? { gameId: row.game_id, snapshot: JSON.parse(row.data) } : null;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+// Returns a human readable problem with an uploaded snapshot file, or null if it can be restored.
+export function validateSnapshotFile(data: any): string | null {
+  if (!isPlainObject(data) || data.format !== SNAPSHOT_FORMAT) return "Not a Data Paradox game snapshot";
+  if (typeof data.schemaVersion !== "number") return "Snapshot has no schema version";
+  if (data.schemaVersion > SCHEMA_VERSION) {
+    return `Snapshot was made by a newer version (schema ${data.schemaVersion}, this server has ${SCHEMA_VERSION})`;
+  }
+  if (!isPlainObject(data.game) || typeof data.game.name !== "string" || !data.game.name.trim()) return "Snapshot has no game name";
+  if (!Array.isArray(data.settings) || !data.settings.every((s: any) => isPlainObject(s) && typeof s.key === "string")) {
+    return "Snapshot settings are malformed";
+  }
+  if (!isPlainObject(data.tables)) return "Snapshot has no tables";
+
+  const ids = {} as Record<GameTable, Set<unknown>>;
+  for (const table of TABLE_ORDER) {
+    // Snapshots from before a table existed simply have nothing to put in it.
+    if (data.tables[table] === undefined && data.schemaVersion < SCHEMA_VERSION) data.tables[table] = [];
+    const rows = data.tables[table];
+    if (!Array.isArray(rows)) return `Snapshot is missing ${table}`;
+    for (const row of rows) {
+      if (!isPlainObject(row) || !Number.isInteger(row.id)) return `${table} contains a row without an id`;
+      if (!Object.values(row).every(v => v === null || typeof v === "string" || typeof v === "number")) {
+        return `${table} row ${row.id} has a value that is not a string or number`;
+      }
+    }
+    ids[table] = new Set(rows.map((row: SnapshotRow) => row.id));
+  }
+  // Rows may only point at rows that come earlier in the restore order.
+  for (const table of TABLE_ORDER) {
+    for (const row of data.tables[table] as SnapshotRow[]) {
+      for (const [column, target] of Object.entries(SNAPSHOT_REFERENCES)) {
+        if (row[column] != null && !ids[target].has(row[column])) {
+          return `${table} row ${row.id} refers to ${target} ${row[column]}, which is not in the snapshot`;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+// Replaces everything the game holds with the snapshot's contents, inside one transaction.
+// Team sessions are not part of a snapshot, so every team has to rejoin with its PIN.
+// Returns notes about rows that could not be brought back as they were.
+export function restoreGame(db: Db, gameId: number, snapshot: GameSnapshotFile): string[] {
+  return db.transaction(() => {
+    const warnings: string[] = [];
+
+    db.prepare("DELETE FROM team_sessions WHERE team_id IN (SELECT id FROM teams WHERE game_id = ?)").run(gameId);
+    for (const table of [...TABLE_ORDER].reverse()) {
+      db.prepare(`DELETE FROM ${table} WHERE id IN (SELECT id FROM (${GAME_TABLES[table]}))`).run(gameId);
+    }
+    db.prepare("DELETE FROM game_settings WHERE game_id = ?").run(gameId);
+
+    db.prepare("UPDATE games SET name = ? WHERE id = ?").run(snapshot.game.name, gameId);
+    const insertSetting = db.prepare("INSERT INTO game_settings (game_id, key, value) VALUES (?, ?, ?)");
+    for (const { key, value } of snapshot.settings) {
+      insertSetting.run(gameId, key, value ?? null);
+    }
+
+    const newIds = {} as Record<GameTable, Map<SnapshotValue, number>>;
+    for (const table of TABLE_ORDER) {
+      newIds[table] = new Map();
+      const columns = new Map<string, { notnull: number }>(
+        db.prepare(`PRAGMA table_info(${table})`).all().map((c: any) => [c.name, c])
+      );
+      for (const row of snapshot.tables[table] ?? []) {
+        const values: SnapshotRow = {};
+        let skipped = false;
+        for (const [column, value] of Object.entries(row)) {
+          if (column === "id" || column === "game_id" || !columns.has(column)) continue;
+          if (value != null && column in SNAPSHOT_REFERENCES) {
+            values[column] = newIds[SNAPSHOT_REFERENCES[column]].get(value) ?? null;
+          } else if (value != null && column in SHARED_REFERENCES
+            && !db.prepare(`SELECT id FROM ${SHARED_REFERENCES[column]} WHERE id = ?`).get(value)) {
+            if (columns.get(column)!.notnull) {
+              warnings.push(`Skipped ${table} row ${row.id}: ${SHARED_REFERENCES[column]} ${value} no longer exists`);
+              skipped = true;
+              break;
+            }
+            warnings.push(`${table} row ${row.id}: ${SHARED_REFERENCES[column]} ${value} no longer exists and was cleared`);
+            values[column] = null;
+          } else {
+            values[column] = value;
+          }
+        }
+        if (skipped) continue;
+        if (columns.has("game_id")) values.game_id = gameId;
+
+        const names = Object.keys(values);
+        const info = db.prepare(`INSERT INTO ${table} (${names.join(", ")}) VALUES (${names.map(() => "?").join(", ")})`)
+          .run(...names.map(name => values[name]));
+        newIds[table].set(row.id, Number(info.lastInsertRowid));
+      }
+    }
+    return warnings;
+  })();
+}
@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { Db, migrate, openDatabase } from "./index";
+import { loadStandings } from "./standings";
+
+let db: Db;
+
+const addTeam = (name: string, balance = 2000) =>
+  Number(db.prepare("INSERT INTO teams (game_id, name, balance, pin_hash) VALUES (1, ?, ?, 'x')").run(name, balance).lastInsertRowid);
+
+const addRound = (type: string) =>
+  Number(db.prepare("INSERT INTO rounds (game_id, theme, type, status, actual_value, settled_at) VALUES (1, 'Theme', ?, 'revealed', 1, 1)")
+    .run(type).lastInsertRowid);
+
+const addSubmission = (teamId: number, roundId: number, errorPercent: number, bid = 100, score = 100) =>
+  db.prepare("INSERT INTO submissions (team_id, round_id, predicted_value, bid_amount, error_percent, score) VALUES (?, ?, 1, ?, ?, ?)")
+    .run(teamId, roundId, bid, errorPercent, score);
+
+beforeEach(() => {
+  db = openDatabase(":memory:");
+  migrate(db);
+  db.prepare("INSERT INTO games (id, name, join_code, created_at) VALUES (1, 'Quiz Night', 'ABCD', 0)").run();
+});
+
+describe("loadStandings", () => {
+  it("averages errors over point and interval rounds only", () => {
+    const alpha = addTeam("Alpha");
+    const beta = addTeam("Beta");
+    const point = addRound("point");
+    const interval = addRound("interval");
+    const choice = addRound("choice");
+    const overUnder = addRound("over_under");
+    addSubmission(alpha, point, 10);
+    addSubmission(alpha, interval, 20);
+    addSubmission(alpha, choice, 0);
+    addSubmission(alpha, overUnder, 0);
+    addSubmission(beta, point, 12);
+    addSubmission(beta, choice, 100);
+
+    const standings = loadStandings(db, 1);
+    expect(standings.find((t) => t.id === alpha)?.average_error).toBe(15);
+    expect(standings.find((t) => t.id === beta)?.average_error).toBe(12);
+  });
+
+  it("has no average error for a team that only played choice rounds", () => {
+    const alpha = addTeam("Alpha");
+    addSubmission(alpha, addRound("choice"), 0);
+    expect(loadStandings(db, 1)[0].average_error).toBeNull();
+  });
+
+  it("ranks lucky picks below measured accuracy in accuracy mode", () => {
+    db.prepare("INSERT INTO game_settings (game_id, key, value) VALUES (1, 'leaderboard', ?)")
+      .run(JSON.stringify({ mode: "accuracy", tieBreakers: [] }));
+    const picker = addTeam("Picker");
+    const estimator = addTeam("Estimator");
+    addSubmission(picker, addRound("choice"), 0);
+    addSubmission(estimator, addRound("point"), 8);
+    expect(loadStandings(db, 1).map((t) => t.name)).toEqual(["Estimator", "Picker"]);
+  });
+
+  it("leaves out removed teams", () => {
+    addTeam("Alpha");
+    db.prepare("UPDATE teams SET removed_at = 1 WHERE id = ?").run(addTeam("Gone"));
+    expect(loadStandings(db, 1).map((t) => t.name)).toEqual(["Alpha"]);
+  });
+});
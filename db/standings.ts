@@ -0,0 +1,51 @@
+// A game's standings ranked under its leaderboard settings, for the live leaderboard and
+// the results exports. Statistics only count revealed answers in rounds that were not voided,
+// and teams an admin removed are left out.
+import { Db } from "./migrations";
+import { PRECISION_HIT_PERCENT, StandingStats, parseLeaderboard, rankTeams } from "../src/shared/leaderboard";
+import type { Team } from "../src/shared/protocol";
+
+const STATS_QUERY = `
+  SELECT s.team_id,
+    AVG(CASE WHEN r.type IN ('point', 'interval') THEN s.error_percent END) as average_error,
+    SUM(CASE WHEN r.type IN ('point', 'interval') AND s.error_percent <= ? THEN 1 ELSE 0 END) as precision_hits,
+    SUM(s.bid_amount) as total_bid,
+    SUM(s.score) as total_payout
+  FROM submissions s JOIN rounds r ON s.round_id = r.id
+  WHERE r.game_id = ? AND r.voided_at IS NULL AND s.error_percent IS NOT NULL
+  GROUP BY s.team_id
+`;
+
+// When each team first bid in a round, measured from the round's first bid. Escrow entries
+// are used because multi-question submissions share a single one per team.
+const LAG_QUERY = `
+  SELECT e.team_id, AVG(e.at - f.first_at) as submission_lag
+  FROM (
+    SELECT l.team_id, l.round_id, MIN(l.created_at) as at FROM ledger_entries l JOIN rounds r ON l.round_id = r.id
+    WHERE l.kind = 'escrow' AND r.game_id = ? AND r.voided_at IS NULL GROUP BY l.team_id, l.round_id
+  ) e
+  JOIN (
+    SELECT round_id, MIN(created_at) as first_at FROM ledger_entries WHERE kind = 'escrow' GROUP BY round_id
+  ) f ON f.round_id = e.round_id
+  GROUP BY e.team_id
+`;
+
+export function loadStandings(db: Db, gameId: number): Team[] {
+  const settings = parseLeaderboard(
+    db.prepare("SELECT value FROM game_settings WHERE game_id = ? AND key = 'leaderboard'").get(gameId)?.value
+  );
+  const teams: Team[] = db.prepare("SELECT id, game_id, name, balance, eliminated_at, rebuys, debt FROM teams WHERE game_id = ? AND removed_at IS NULL").all(gameId);
+  const stats = db.prepare(STATS_QUERY).all(PRECISION_HIT_PERCENT, gameId);
+  const lags = db.prepare(LAG_QUERY).all(gameId);
+
+  return rankTeams(teams.map((team): Team & StandingStats => {
+    const own = stats.find((s: any) => s.team_id === team.id);
+    return {
+      ...team,
+      average_error: own?.average_error ?? null,
+      precision_hits: own?.precision_hits ?? 0,
+      roi: own && own.total_bid > 0 ? (own.total_payout - own.total_bid) / own.total_bid * 100 : null,
+      submission_lag: lags.find((l: any) => l.team_id === team.id)?.submission_lag ?? null
+    };
+  }), settings);
+}
@@ -0,0 +1,72 @@
+// Gemini-backed round generator. The response is constrained to a JSON schema, but every
+// candidate is still checked since the model can return answers that are not numbers.
+import { GoogleGenAI, Type } from "@google/genai";
+import { GeneratedQuestion, GenerationRequest, normalizeGeneratedQuestion } from "../src/shared/generation";
+import { DIFFICULTIES } from "../src/shared/questions";
+import { GenerationError, RoundGenerator } from "./provider";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+
+const RESPONSE_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      theme: { type: Type.STRING },
+      question: { type: Type.STRING },
+      unit: { type: Type.STRING },
+      answer: { type: Type.NUMBER },
+      source: { type: Type.STRING },
+      difficulty: { type: Type.STRING, enum: DIFFICULTIES }
+    },
+    required: ["theme", "question", "answer", "source", "difficulty"]
+  }
+};
+
+function buildPrompt({ topic, count, difficulty }: GenerationRequest): string {
+  return [
+    `Write ${count} questions for a live estimation game about: ${topic}`,
+    "Teams guess a number and are scored on how close they get, so every answer must be a single",
+    "settled number: no ranges, no years, and nothing that changes from week to week.",
+    "Only use facts you can attribute, and name the source (organisation, publication or dataset, with the year).",
+    difficulty ? `Make every question ${difficulty}.` : "Mix easy, medium and hard questions.",
+    "Leave the unit out of the question text and put it in unit; leave unit empty for plain counts.",
+    "The theme is a heading of two to four words that a host could read out before the round."
+  ].join("\n");
+}
+
+export function createGeminiGenerator(apiKey: string, model: string): RoundGenerator {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: `Gemini (${model})`,
+    async generate(request) {
+      let text: string | undefined;
+      try {
+        const response = await ai.models.generateContent({
+          model,
+          contents: buildPrompt(request),
+          config: { responseMimeType: "application/json", responseSchema: RESPONSE_SCHEMA }
+        });
+        text = response.text;
+      } catch (e) {
+        throw new GenerationError(`Gemini request failed: ${e instanceof Error ? e.message : e}`);
+      }
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(text ?? "");
+      } catch {
+        throw new GenerationError("Gemini did not return JSON");
+      }
+      if (!Array.isArray(parsed)) {
+        throw new GenerationError("Gemini did not return a list of questions");
+      }
+      const fallback = { theme: request.topic, difficulty: request.difficulty ?? "medium" };
+      return parsed
+        .map((raw) => normalizeGeneratedQuestion(raw, fallback))
+        .filter((q): q is GeneratedQuestion => q !== null)
+        .slice(0, request.count);
+    }
+  };
+}
@@ -0,0 +1,29 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createRoundGenerator } from "./index";
+
+const LOCAL = "Offline question set";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("createRoundGenerator", () => {
+  it("uses Gemini when a real API key is set", () => {
+    expect(createRoundGenerator({ GEMINI_API_KEY: "key" }).name).toBe("Gemini (gemini-2.5-flash)");
+    expect(createRoundGenerator({ GEMINI_API_KEY: "key", GEMINI_MODEL: "gemini-2.5-pro" }).name).toBe("Gemini (gemini-2.5-pro)");
+  });
+
+  it("uses the local generator without a key, or with the placeholder one", () => {
+    expect(createRoundGenerator({}).name).toBe(LOCAL);
+    expect(createRoundGenerator({ GEMINI_API_KEY: "MY_GEMINI_API_KEY" }).name).toBe(LOCAL);
+    expect(createRoundGenerator({ GEMINI_API_KEY: "key", ROUND_GENERATOR: "local" }).name).toBe(LOCAL);
+  });
+
+  it("falls back to the local generator with a warning when misconfigured", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(createRoundGenerator({ ROUND_GENERATOR: "gemini" }).name).toBe(LOCAL);
+    expect(createRoundGenerator({ ROUND_GENERATOR: "openai", GEMINI_API_KEY: "key" }).name).toBe(LOCAL);
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(warn.mock.calls[1][0]).toBe('Unknown ROUND_GENERATOR "openai"; using the local generator');
+  });
+});
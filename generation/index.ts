@@ -0,0 +1,28 @@
+// Picks the round generator the server uses to propose questions for the bank. Used by
+// the question generation endpoint in server.ts.
+import { DEFAULT_GEMINI_MODEL, createGeminiGenerator } from "./gemini";
+import { createLocalGenerator } from "./local";
+import { RoundGenerator } from "./provider";
+
+export { GenerationError } from "./provider";
+export type { RoundGenerator } from "./provider";
+
+// The value .env.example ships with, which is as good as no key at all.
+const PLACEHOLDER_KEY = "MY_GEMINI_API_KEY";
+
+// ROUND_GENERATOR chooses the provider ("gemini" or "local"); by default Gemini is used when a
+// real GEMINI_API_KEY is set. A misconfigured choice falls back to the local generator rather
+// than keeping the server from starting mid-event.
+export function createRoundGenerator(env: NodeJS.ProcessEnv = process.env): RoundGenerator {
+  const apiKey = env.GEMINI_API_KEY && env.GEMINI_API_KEY !== PLACEHOLDER_KEY ? env.GEMINI_API_KEY : null;
+  const kind = env.ROUND_GENERATOR || (apiKey ? "gemini" : "local");
+  if (kind === "gemini" && apiKey) {
+    return createGeminiGenerator(apiKey, env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL);
+  }
+  if (kind !== "local") {
+    console.warn(kind === "gemini"
+      ? "ROUND_GENERATOR is gemini but GEMINI_API_KEY is not set; using the local generator"
+      : `Unknown ROUND_GENERATOR "${kind}"; using the local generator`);
+  }
+  return createLocalGenerator();
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { MAX_GENERATED_QUESTIONS, normalizeGeneratedQuestion } from "../src/shared/generation";
+import { createLocalGenerator } from "./local";
+
+const generator = createLocalGenerator();
+
+describe("createLocalGenerator", () => {
+  it("puts questions matching the topic first", async () => {
+    const questions = await generator.generate({ topic: "Cricket", count: 4 });
+    expect(questions).toHaveLength(4);
+    expect(questions.every((q) => q.theme.startsWith("Cricket"))).toBe(true);
+  });
+
+  it("matches topic words against tags in either direction", async () => {
+    const [planet] = await generator.generate({ topic: "the planets of our solar system", count: 1 });
+    expect(planet.question).toBe("How many Earth days does Mars take to orbit the Sun?");
+    const [sport] = await generator.generate({ topic: "IPL", count: 1 });
+    expect(sport.theme).toBe("Cricket Basics");
+  });
+
+  it("fills up with other questions when the topic runs out", async () => {
+    const questions = await generator.generate({ topic: "Mars", count: 3 });
+    expect(questions[0].theme).toBe("Red Planet");
+    expect(new Set(questions.map((q) => q.question)).size).toBe(3);
+  });
+
+  it("keeps to the difficulty asked for", async () => {
+    const questions = await generator.generate({ topic: "Cricket", count: MAX_GENERATED_QUESTIONS, difficulty: "hard" });
+    expect(questions.length).toBeGreaterThan(0);
+    expect(questions.every((q) => q.difficulty === "hard")).toBe(true);
+  });
+
+  it("answers the same topic with the same questions, whatever its case and spacing", async () => {
+    const first = await generator.generate({ topic: "Space", count: 5 });
+    expect(await generator.generate({ topic: "  SPACE ", count: 5 })).toEqual(first);
+  });
+
+  it("marks its questions as built-in and passes its own checks", async () => {
+    const questions = await generator.generate({ topic: "anything", count: MAX_GENERATED_QUESTIONS });
+    expect(questions).toHaveLength(MAX_GENERATED_QUESTIONS);
+    for (const question of questions) {
+      expect(question.source).toMatch(/ \(built-in question\)$/);
+      expect(normalizeGeneratedQuestion(question, { theme: "anything", difficulty: "easy" })).toEqual(question);
+    }
+  });
+});
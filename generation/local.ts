@@ -0,0 +1,132 @@
+// Offline round generator. It draws from a small built-in set of checked questions, putting
+// the ones whose tags match words in the topic first, so it needs no network and always
+// answers the same request with the same candidates.
+import { GeneratedQuestion, GenerationRequest } from "../src/shared/generation";
+import { Difficulty } from "../src/shared/questions";
+import { RoundGenerator } from "./provider";
+
+interface CatalogEntry {
+  theme: string;
+  question: string;
+  unit: string | null;
+  answer: number;
+  source: string;
+  difficulty: Difficulty;
+  tags: string[];
+}
+
+const CATALOG: CatalogEntry[] = [
+  {
+    theme: "On Top of the World", question: "How tall is Mount Everest?", unit: "m", answer: 8849,
+    source: "China–Nepal joint survey, 2020", difficulty: "medium", tags: ["geography", "mountains", "everest", "nepal", "nature"]
+  },
+  {
+    theme: "Great Rivers", question: "How long is the Nile?", unit: "km", answer: 6650,
+    source: "Encyclopaedia Britannica", difficulty: "medium", tags: ["geography", "rivers", "nile", "africa", "nature"]
+  },
+  {
+    theme: "The Deep", question: "How deep is the Challenger Deep in the Mariana Trench?", unit: "m", answer: 10935,
+    source: "Greenaway et al., Geoscience Data Journal, 2021", difficulty: "hard", tags: ["geography", "ocean", "sea", "nature"]
+  },
+  {
+    theme: "Down Under", question: "What is the land area of mainland Australia and its islands?", unit: "km²", answer: 7688287,
+    source: "Geoscience Australia", difficulty: "hard", tags: ["geography", "australia", "countries"]
+  },
+  {
+    theme: "World Politics", question: "How many member states does the United Nations have?", unit: null, answer: 193,
+    source: "United Nations, member states list", difficulty: "easy", tags: ["politics", "countries", "world", "history"]
+  },
+  {
+    theme: "Space Race", question: "What is the average distance from the Earth to the Moon?", unit: "km", answer: 384400,
+    source: "NASA Moon fact sheet", difficulty: "medium", tags: ["space", "moon", "astronomy", "science"]
+  },
+  {
+    theme: "Red Planet", question: "How many Earth days does Mars take to orbit the Sun?", unit: "days", answer: 687,
+    source: "NASA Mars fact sheet", difficulty: "hard", tags: ["space", "mars", "planets", "astronomy", "science"]
+  },
+  {
+    theme: "Our Star", question: "What is the diameter of the Sun?", unit: "km", answer: 1392700,
+    source: "NASA Sun fact sheet", difficulty: "hard", tags: ["space", "sun", "astronomy", "science"]
+  },
+  {
+    theme: "Physics Constants", question: "What is the speed of light in a vacuum?", unit: "km/s", answer: 299792.458,
+    source: "SI definition of the metre (BIPM)", difficulty: "medium", tags: ["science", "physics", "light", "space"]
+  },
+  {
+    theme: "Human Body", question: "How many bones are in the adult human skeleton?", unit: null, answer: 206,
+    source: "Gray's Anatomy", difficulty: "easy", tags: ["science", "biology", "body", "health", "medicine"]
+  },
+  {
+    theme: "Kitchen Science", question: "At what temperature does water boil at sea level?", unit: "°F", answer: 212,
+    source: "NIST", difficulty: "easy", tags: ["science", "physics", "water", "food", "cooking"]
+  },
+  {
+    theme: "Animal Kingdom", question: "How many hearts does an octopus have?", unit: null, answer: 3,
+    source: "Smithsonian Ocean", difficulty: "easy", tags: ["animals", "nature", "ocean", "biology"]
+  },
+  {
+    theme: "Music", question: "How many keys does a standard modern piano have?", unit: null, answer: 88,
+    source: "Steinway & Sons", difficulty: "easy", tags: ["music", "instruments", "piano", "arts"]
+  },
+  {
+    theme: "Cricket Basics", question: "How many legal deliveries are bowled in a full T20 innings?", unit: "balls", answer: 120,
+    source: "ICC Men's T20I Playing Conditions", difficulty: "easy", tags: ["cricket", "ipl", "t20", "sport", "sports"]
+  },
+  {
+    theme: "Cricket Basics", question: "How long is a cricket pitch from stumps to stumps?", unit: "yards", answer: 22,
+    source: "MCC Laws of Cricket, Law 6", difficulty: "easy", tags: ["cricket", "ipl", "sport", "sports"]
+  },
+  {
+    theme: "Cricket Records", question: "What is the highest individual score in a Test innings?", unit: "runs", answer: 400,
+    source: "ESPNcricinfo records (Brian Lara, 2004)", difficulty: "medium", tags: ["cricket", "records", "test", "sport", "sports"]
+  },
+  {
+    theme: "Cricket Records", question: "How many international centuries did Sachin Tendulkar score?", unit: null, answer: 100,
+    source: "ESPNcricinfo player records", difficulty: "medium", tags: ["cricket", "records", "india", "sport", "sports"]
+  },
+  {
+    theme: "Olympic Legends", question: "How many Olympic gold medals did Michael Phelps win?", unit: null, answer: 23,
+    source: "International Olympic Committee", difficulty: "medium", tags: ["olympics", "swimming", "records", "sport", "sports"]
+  },
+  {
+    theme: "Running", question: "How long is a marathon?", unit: "km", answer: 42.195,
+    source: "World Athletics competition rules", difficulty: "medium", tags: ["running", "athletics", "olympics", "sport", "sports"]
+  },
+  {
+    theme: "Computing History", question: "How many transistors did the Intel 4004 microprocessor have?", unit: null, answer: 2300,
+    source: "Intel, 4004 product history", difficulty: "hard", tags: ["technology", "tech", "computers", "computing", "history"]
+  },
+  {
+    theme: "Computing Basics", question: "How many bytes are in a kibibyte?", unit: "bytes", answer: 1024,
+    source: "IEC 80000-13", difficulty: "easy", tags: ["technology", "tech", "computers", "computing", "data"]
+  }
+];
+
+// FNV-1a, used only to shuffle the catalog the same way for the same topic.
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+}
+
+export function createLocalGenerator(): RoundGenerator {
+  return {
+    name: "Offline question set",
+    async generate({ topic, count, difficulty }: GenerationRequest): Promise<GeneratedQuestion[]> {
+      const key = topic.trim().toLowerCase();
+      const words = key.split(/[^a-z0-9]+/).filter((w) => w.length > 2);
+      const relevance = (entry: CatalogEntry) =>
+        words.filter((w) => entry.tags.some((tag) => tag.startsWith(w) || w.startsWith(tag))).length;
+      const order = (entry: CatalogEntry) => hash(`${key}:${entry.question}`);
+
+      return CATALOG
+        .filter((entry) => !difficulty || entry.difficulty === difficulty)
+        .sort((a, b) => relevance(b) - relevance(a) || order(a) - order(b))
+        .slice(0, count)
+        .map(({ tags, ...entry }) => ({ ...entry, source: `${entry.source} (built-in question)` }));
+    }
+  };
+}
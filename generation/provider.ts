@@ -0,0 +1,12 @@
+// The interface every round generator implements. Kept apart from index.ts so the
+// providers can import it without a cycle through the factory.
+import { GeneratedQuestion, GenerationRequest } from "../src/shared/generation";
+
+// A generator that could not produce candidates, with a message fit for the host.
+export class GenerationError extends Error {}
+
+export interface RoundGenerator {
+  // Shown to the host next to the candidates it produced.
+  name: string;
+  generate(request: GenerationRequest): Promise<GeneratedQuestion[]>;
+}
@@ -0,0 +1,188 @@
+// Printable end-of-game report. The page is one self-contained HTML document (inline styles,
+// no scripts or external assets) so it can be saved, mailed around or printed to PDF as is.
+import { GameResults, RoundPerformance, StandingRow } from "./results";
+
+interface Award {
+  title: string;
+  winner: string;
+  detail: string;
+}
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? "").replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+
+const coins = (n: number) => `${n < 0 ? "−" : ""}${Math.round(Math.abs(n)).toLocaleString("en-US")}`;
+
+const signedCoins = (n: number) => `${n > 0 ? "+" : ""}${coins(n)}`;
+
+const percent = (n: number | null) => n == null ? "–" : `${n.toFixed(1)}%`;
+
+function pickAwards(results: GameResults): Award[] {
+  const teamName = (id: number) => results.teams.find((t) => t.team_id === id)?.team ?? "";
+  const roundLabel = (id: number) => `round ${results.rounds.find((r) => r.round_id === id)?.round}`;
+  const best = <T>(items: T[], better: (a: T, b: T) => boolean) =>
+    items.reduce<T | null>((top, item) => top == null || better(item, top) ? item : top, null);
+  const awards: Award[] = [];
+  // Teams removed from the game are out of the standings, and out of the running for awards.
+  const performance = results.performance.filter((p) => results.standings.some((s) => s.team_id === p.team_id));
+
+  const champion = results.standings[0];
+  if (champion) {
+    awards.push({ title: "Champion", winner: champion.team, detail: `${coins(champion.balance)} coins at the close` });
+  }
+  const sharpest = best(
+    results.standings.filter((s) => s.average_error_percent != null),
+    (a: StandingRow, b: StandingRow) => a.average_error_percent! < b.average_error_percent!
+  );
+  if (sharpest) {
+    awards.push({ title: "Sharpest Forecaster", winner: sharpest.team, detail: `${percent(sharpest.average_error_percent)} average error` });
+  }
+  const biggestWin = best(performance.filter((p) => p.profit > 0), (a: RoundPerformance, b) => a.profit > b.profit);
+  if (biggestWin) {
+    awards.push({
+      title: "Biggest Single Win",
+      winner: teamName(biggestWin.team_id),
+      detail: `${signedCoins(biggestWin.profit)} in ${roundLabel(biggestWin.round_id)}`
+    });
+  }
+  const boldest = best(performance.filter((p) => p.bid > 0), (a: RoundPerformance, b) => a.bid > b.bid);
+  if (boldest) {
+    awards.push({
+      title: "Boldest Bid",
+      winner: teamName(boldest.team_id),
+      detail: `${coins(boldest.bid)} staked in ${roundLabel(boldest.round_id)}`
+    });
+  }
+  return awards;
+}
+
+const STYLES = `
+  @page { size: A4; margin: 16mm; }
+  * { box-sizing: border-box; }
+  body { font-family: "Helvetica Neue", Arial, sans-serif; color: #18181b; margin: 0 auto; max-width: 960px; padding: 32px; font-size: 13px; line-height: 1.45; }
+  header { border-bottom: 3px solid #18181b; padding-bottom: 16px; margin-bottom: 24px; }
+  h1 { font-size: 28px; margin: 0 0 4px; }
+  h2 { font-size: 16px; text-transform: uppercase; letter-spacing: 0.08em; margin: 32px 0 12px; }
+  h3 { font-size: 14px; margin: 0 0 4px; }
+  .meta { color: #71717a; }
+  .status { display: inline-block; padding: 2px 8px; border-radius: 999px; font-size: 11px; font-weight: bold; text-transform: uppercase; background: #e4e4e7; }
+  .status.final { background: #18181b; color: #fff; }
+  .awards { display: grid; grid-template-columns: repeat(auto-fit, minmax(200px, 1fr)); gap: 12px; }
+  .award { border: 1px solid #d4d4d8; border-radius: 8px; padding: 12px; }
+  .award .title { font-size: 11px; text-transform: uppercase; letter-spacing: 0.08em; color: #71717a; }
+  .award .winner { font-size: 18px; font-weight: bold; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 8px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e4e4e7; vertical-align: top; }
+  th { font-size: 11px; text-transform: uppercase; letter-spacing: 0.05em; color: #71717a; }
+  td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+  .gain { color: #15803d; }
+  .loss { color: #b91c1c; }
+  .round { break-inside: avoid; margin-bottom: 20px; }
+  .muted { color: #a1a1aa; }
+  @media print { body { padding: 0; } h2 { break-after: avoid; } }
+`;
+
+const profitCell = (profit: number | null) =>
+  profit == null
+    ? `<td class="num muted">–</td>`
+    : `<td class="num ${profit > 0 ? "gain" : profit < 0 ? "loss" : ""}">${signedCoins(profit)}</td>`;
+
+function renderStandings(results: GameResults): string {
+  const rows = results.standings.map((s) => `
+    <tr>
+      <td class="num">${s.rank}</td>
+      <td>${escapeHtml(s.team)}${s.eliminated === "yes" ? ` <span class="muted">(eliminated)</span>` : ""}</td>
+      <td class="num">${coins(s.balance)}</td>
+      ${profitCell(s.profit)}
+      <td class="num">${s.rounds_played}</td>
+      <td class="num">${percent(s.average_error_percent)}</td>
+    </tr>`).join("");
+  return `
+    <table>
+      <thead><tr><th class="num">#</th><th>Team</th><th class="num">Balance</th><th class="num">Profit</th><th class="num">Rounds</th><th class="num">Avg error</th></tr></thead>
+      <tbody>${rows || `<tr><td colspan="6" class="muted">No teams joined.</td></tr>`}</tbody>
+    </table>`;
+}
+
+// Teams down the side, rounds across: each cell is the team's profit and error in that round.
+function renderTeamByRound(results: GameResults): string {
+  if (!results.rounds.length || !results.standings.length) return "";
+  const head = results.rounds.map((r) => `<th class="num">R${r.round}</th>`).join("");
+  const rows = results.standings.map((s) => {
+    const cells = results.rounds.map((r) => {
+      const cell = results.performance.find((p) => p.team_id === s.team_id && p.round_id === r.round_id);
+      if (!cell) return `<td class="num muted">–</td>`;
+      const tone = cell.profit > 0 ? "gain" : cell.profit < 0 ? "loss" : "";
+      return `<td class="num"><span class="${tone}">${signedCoins(cell.profit)}</span><br><span class="muted">${percent(cell.error_percent)}</span></td>`;
+    }).join("");
+    return `<tr><td>${escapeHtml(s.team)}</td>${cells}</tr>`;
+  }).join("");
+  return `
+    <h2>Round by round</h2>
+    <p class="meta">Profit in coins, with the team's error underneath.</p>
+    <table><thead><tr><th>Team</th>${head}</tr></thead><tbody>${rows}</tbody></table>`;
+}
+
+function renderRounds(results: GameResults): string {
+  return results.rounds.map((r) => {
+    const entries = results.submissions.filter((s) => s.round_id === r.round_id);
+    const multi = r.sub_questions > 0;
+    const rows = entries.map((s) => `
+      <tr>
+        <td>${escapeHtml(s.team)}</td>
+        ${multi ? `<td>Q${s.sub_question} · ${escapeHtml(s.question)}</td>` : ""}
+        <td>${escapeHtml(s.prediction)}</td>
+        ${multi ? `<td>${escapeHtml(s.answer ?? "–")}</td>` : ""}
+        <td class="num">${coins(s.bid_amount)}</td>
+        <td class="num">${percent(s.error_percent)}</td>
+        ${profitCell(s.profit)}
+      </tr>`).join("");
+    const answer = r.voided === "yes" ? "Voided, bids refunded" : r.answer ?? "Not revealed";
+    return `
+      <section class="round">
+        <h3>Round ${r.round}: ${escapeHtml(r.theme)}</h3>
+        ${r.question ? `<div>${escapeHtml(r.question)}${r.unit ? ` <span class="muted">(${escapeHtml(r.unit)})</span>` : ""}</div>` : ""}
+        <div class="meta">Answer: <strong>${escapeHtml(answer)}</strong>${r.options ? ` · Options: ${escapeHtml(r.options)}` : ""}${r.line != null ? ` · Line: ${r.line}` : ""}</div>
+        <table>
+          <thead><tr><th>Team</th>${multi ? "<th>Question</th>" : ""}<th>Prediction</th>${multi ? "<th>Answer</th>" : ""}<th class="num">Bid</th><th class="num">Error</th><th class="num">Profit</th></tr></thead>
+          <tbody>${rows || `<tr><td colspan="${multi ? 7 : 5}" class="muted">No submissions.</td></tr>`}</tbody>
+        </table>
+      </section>`;
+  }).join("");
+}
+
+export function renderGameReport(results: GameResults): string {
+  const { game } = results;
+  const final = game.status === "archived";
+  const awards = pickAwards(results).map((a) => `
+    <div class="award">
+      <div class="title">${escapeHtml(a.title)}</div>
+      <div class="winner">${escapeHtml(a.winner)}</div>
+      <div class="meta">${escapeHtml(a.detail)}</div>
+    </div>`).join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(game.name)} · Results</title>
+<style>${STYLES}</style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(game.name)}</h1>
+    <div class="meta">
+      <span class="status${final ? " final" : ""}">${final ? "Final results" : "Provisional: game still running"}</span>
+      Game ${escapeHtml(game.joinCode)} · ${results.standings.length} teams · ${results.rounds.length} rounds · Generated ${escapeHtml(new Date(results.generatedAt).toUTCString())}
+    </div>
+  </header>
+  ${awards ? `<h2>Highlights</h2><div class="awards">${awards}</div>` : ""}
+  <h2>Final standings</h2>
+  ${renderStandings(results)}
+  ${renderTeamByRound(results)}
+  <h2>Rounds</h2>
+  ${renderRounds(results) || `<p class="muted">No rounds were played.</p>`}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { migrate, openDatabase } from "../db";
+import { EXPORT_COLUMNS, GameResults, TeamRow, exportDataset, isExportDataset, loadGameResults, toCsv } from "./results";
+
+describe("toCsv", () => {
+  it("writes a header row and CRLF-terminated rows", () => {
+    expect(toCsv(["team", "balance"], [{ team: "Alpha", balance: 2000 }])).toBe("team,balance\r\nAlpha,2000\r\n");
+  });
+
+  it("quotes cells with commas, quotes or line breaks", () => {
+    const csv = toCsv(["team"], [{ team: "Smith, Jones" }, { team: 'The "Best"' }, { team: "Two\nLines" }]);
+    expect(csv).toBe('team\r\n"Smith, Jones"\r\n"The ""Best"""\r\n"Two\nLines"\r\n');
+  });
+
+  it("leaves missing values empty", () => {
+    expect(toCsv(["a", "b"], [{ a: null }])).toBe("a,b\r\n,\r\n");
+  });
+
+  it("keeps spreadsheets from reading text as a formula", () => {
+    const rows = ["=1+1", "+SUM(A1)", "-2+3", "@cmd", "\tTab", "\rReturn"].map((team) => ({ team }));
+    expect(toCsv(["team"], rows).split("\r\n").slice(1, 5)).toEqual(["'=1+1", "'+SUM(A1)", "'-2+3", "'@cmd"]);
+    expect(toCsv(["team"], [rows[4]])).toBe("team\r\n'\tTab\r\n");
+    expect(toCsv(["team"], [rows[5]])).toBe("team\r\n\"'\rReturn\"\r\n");
+  });
+
+  it("prefixes formula text before quoting it", () => {
+    expect(toCsv(["team"], [{ team: '=HYPERLINK("x")' }])).toBe("team\r\n\"'=HYPERLINK(\"\"x\"\")\"\r\n");
+  });
+
+  it("leaves negative numbers as numbers", () => {
+    expect(toCsv(["profit"], [{ profit: -150 }])).toBe("profit\r\n-150\r\n");
+  });
+});
+
+const teamRow = (team_id: number, team: string, patch: Partial<TeamRow> = {}): TeamRow => ({
+  team_id,
+  team,
+  balance: 2000,
+  debt: 0,
+  rebuys: 0,
+  eliminated_at: null,
+  status: "active",
+  submissions: 0,
+  ...patch
+});
+
+const results = (teams: TeamRow[]): GameResults => ({
+  game: { id: 1, name: "Quiz Night", joinCode: "ABCD", status: "active" },
+  generatedAt: 0,
+  teams,
+  rounds: [],
+  submissions: [],
+  standings: [],
+  performance: []
+});
+
+describe("exportDataset", () => {
+  it("writes CSV columns in export order", () => {
+    const csv = exportDataset(results([teamRow(1, "Alpha", { balance: 2600, submissions: 3 })]), "teams", "csv");
+    expect(csv).toBe(`${EXPORT_COLUMNS.teams.join(",")}\r\n1,Alpha,2600,0,0,,active,3\r\n`);
+  });
+
+  it("keeps JSON keys in export order, with nulls left in", () => {
+    const json = JSON.parse(exportDataset(results([teamRow(2, "Beta", { status: "banned" })]), "teams", "json"));
+    expect(json).toEqual([{ team_id: 2, team: "Beta", balance: 2000, debt: 0, rebuys: 0, eliminated_at: null, status: "banned", submissions: 0 }]);
+    expect(Object.keys(json[0])).toEqual(EXPORT_COLUMNS.teams);
+  });
+
+  it("writes only the header for an empty dataset", () => {
+    expect(exportDataset(results([]), "rounds", "csv")).toBe(`${EXPORT_COLUMNS.rounds.join(",")}\r\n`);
+    expect(exportDataset(results([]), "rounds", "json")).toBe("[]");
+  });
+});
+
+describe("isExportDataset", () => {
+  it("knows the exportable datasets", () => {
+    expect(isExportDataset("standings")).toBe(true);
+    expect(isExportDataset("performance")).toBe(false);
+    expect(isExportDataset(undefined)).toBe(false);
+  });
+});
+
+describe("loadGameResults", () => {
+  it("averages errors over point and interval rounds only", () => {
+    const db = openDatabase(":memory:");
+    migrate(db);
+    db.prepare("INSERT INTO games (id, name, join_code, created_at) VALUES (1, 'Quiz Night', 'ABCD', 0)").run();
+    db.prepare("INSERT INTO teams (id, game_id, name, balance, pin_hash) VALUES (1, 1, 'Alpha', 2000, 'x')").run();
+    const addRound = db.prepare("INSERT INTO rounds (id, game_id, theme, type, options, status, actual_value, settled_at) VALUES (?, 1, 'Theme', ?, ?, 'revealed', ?, 1)");
+    addRound.run(1, "point", null, 100);
+    addRound.run(2, "choice", JSON.stringify([{ label: "A", odds: 2 }, { label: "B", odds: 2 }]), 0);
+    const addSubmission = db.prepare("INSERT INTO submissions (team_id, round_id, predicted_value, bid_amount, error_percent, score) VALUES (1, ?, ?, 100, ?, ?)");
+    addSubmission.run(1, 90, 10, 200);
+    addSubmission.run(2, 1, 100, 0);
+
+    const results = loadGameResults(db, 1);
+    expect(results.standings[0].average_error_percent).toBe(10);
+    expect(results.performance.map((p) => p.error_percent)).toEqual([10, null]);
+    expect(results.submissions.map((s) => s.error_percent)).toEqual([10, 100]);
+  });
+});
@@ -0,0 +1,296 @@
+// A game's results as flat tables, for the admin CSV/JSON exports and the printable report.
+// They are read straight from the database, so they can be pulled while a game is still
+// running as well as after it ends.
+import { Db } from "../db";
+import { loadStandings } from "../db/standings";
+import { describeAnswer, describePrediction, hasMeasuredError, parseRoundFormat } from "../src/shared/rounds";
+
+export const EXPORT_DATASETS = ["teams", "rounds", "submissions", "standings"] as const;
+
+export type ExportDataset = typeof EXPORT_DATASETS[number];
+
+export const isExportDataset = (value: unknown): value is ExportDataset =>
+  typeof value === "string" && (EXPORT_DATASETS as readonly string[]).includes(value);
+
+export interface TeamRow {
+  team_id: number;
+  team: string;
+  balance: number;
+  debt: number;
+  rebuys: number;
+  eliminated_at: string | null;
+  // Removed and banned teams stay in the exports with the rounds they played, but not in the standings.
+  status: "active" | "removed" | "banned";
+  submissions: number;
+}
+
+export interface RoundRow {
+  round: number;
+  round_id: number;
+  theme: string;
+  question: string | null;
+  unit: string | null;
+  type: string;
+  status: string;
+  // The answer as players saw it; option labels for choice rounds, one per sub-question for multi-question rounds.
+  answer: string | null;
+  actual_value: number | null;
+  line: number | null;
+  options: string | null;
+  sub_questions: number;
+  teams: number;
+  total_bid: number;
+  total_payout: number;
+  settled_at: string | null;
+  voided: "yes" | "no";
+}
+
+export interface SubmissionRow {
+  round: number;
+  round_id: number;
+  team_id: number;
+  team: string;
+  sub_question: number | null;
+  question: string | null;
+  prediction: string;
+  predicted_value: number;
+  interval_low: number | null;
+  interval_high: number | null;
+  bid_amount: number;
+  power_up: string | null;
+  hedge_value: number | null;
+  answer: string | null;
+  actual_value: number | null;
+  // Empty until the answer is out; a voided round refunds the bid, so its profit is 0.
+  error_percent: number | null;
+  score: number | null;
+  profit: number | null;
+}
+
+export interface StandingRow {
+  rank: number;
+  team_id: number;
+  team: string;
+  balance: number;
+  profit: number;
+  rounds_played: number;
+  average_error_percent: number | null;
+  precision_hits: number;
+  roi_percent: number | null;
+  best_round_profit: number | null;
+  eliminated: "yes" | "no";
+}
+
+// One team's outcome in one round, for the report's team-by-round table.
+export interface RoundPerformance {
+  round_id: number;
+  team_id: number;
+  bid: number;
+  profit: number;
+  // Null for choice and over/under rounds, which have no measured error.
+  error_percent: number | null;
+}
+
+export interface GameResults {
+  game: { id: number, name: string, joinCode: string, status: string };
+  generatedAt: number;
+  teams: TeamRow[];
+  rounds: RoundRow[];
+  submissions: SubmissionRow[];
+  standings: StandingRow[];
+  performance: RoundPerformance[];
+}
+
+// CSV headers and JSON keys follow this order.
+export const EXPORT_COLUMNS: { [D in ExportDataset]: (keyof GameResults[D][number])[] } = {
+  teams: ["team_id", "team", "balance", "debt", "rebuys", "eliminated_at", "status", "submissions"],
+  rounds: [
+    "round", "round_id", "theme", "question", "unit", "type", "status", "answer", "actual_value", "line", "options",
+    "sub_questions", "teams", "total_bid", "total_payout", "settled_at", "voided"
+  ],
+  submissions: [
+    "round", "round_id", "team_id", "team", "sub_question", "question", "prediction", "predicted_value", "interval_low",
+    "interval_high", "bid_amount", "power_up", "hedge_value", "answer", "actual_value", "error_percent", "score", "profit"
+  ],
+  standings: [
+    "rank", "team_id", "team", "balance", "profit", "rounds_played", "average_error_percent", "precision_hits", "roi_percent",
+    "best_round_profit", "eliminated"
+  ]
+};
+
+const isoTime = (ms: number | null) => ms == null ? null : new Date(ms).toISOString();
+
+const average = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+// Loan repayments move coins to the lender, not out of the team's winnings, so they do not count against profit.
+const PROFIT_QUERY = `
+  SELECT l.team_id, l.round_id, SUM(l.amount) as profit
+  FROM ledger_entries l JOIN teams t ON l.team_id = t.id
+  WHERE t.game_id = ? AND l.round_id IS NOT NULL AND l.kind != 'repayment'
+  GROUP BY l.team_id, l.round_id
+`;
+
+export function loadGameResults(db: Db, gameId: number): GameResults {
+  const game = db.prepare("SELECT * FROM games WHERE id = ?").get(gameId);
+  const teamRows = db.prepare("SELECT * FROM teams WHERE game_id = ? ORDER BY id").all(gameId);
+  const roundRows = db.prepare("SELECT * FROM rounds WHERE game_id = ? ORDER BY id").all(gameId);
+  const subQuestionRows = db.prepare(`
+    SELECT q.* FROM sub_questions q JOIN rounds r ON q.round_id = r.id WHERE r.game_id = ? ORDER BY q.round_id, q.position
+  `).all(gameId);
+  const submissionRows = db.prepare(`
+    SELECT s.* FROM submissions s JOIN rounds r ON s.round_id = r.id WHERE r.game_id = ? ORDER BY s.round_id, s.team_id, s.id
+  `).all(gameId);
+  const profitRows = db.prepare(PROFIT_QUERY).all(gameId);
+
+  const teamNames = new Map<number, string>(teamRows.map((t: any) => [t.id, t.name]));
+  const roundNumbers = new Map<number, number>(roundRows.map((r: any, i: number) => [r.id, i + 1]));
+  const roundsById = new Map<number, any>(roundRows.map((r: any) => [r.id, r]));
+  const subQuestionsById = new Map<number, any>(subQuestionRows.map((q: any) => [q.id, q]));
+  const profitOf = (teamId: number, roundId: number) =>
+    profitRows.find((p: any) => p.team_id === teamId && p.round_id === roundId)?.profit ?? 0;
+  const measuredErrors = (entries: SubmissionRow[]) => entries
+    .filter((s) => hasMeasuredError(parseRoundFormat(roundsById.get(s.round_id)).type))
+    .map((s) => s.error_percent)
+    .filter((e): e is number => e != null);
+
+  const submissions: SubmissionRow[] = submissionRows.map((s: any) => {
+    const round = roundsById.get(s.round_id);
+    const subQuestion = s.sub_question_id != null ? subQuestionsById.get(s.sub_question_id) : null;
+    const format = parseRoundFormat(round);
+    const actualValue = subQuestion ? subQuestion.actual_value : round.actual_value;
+    const settled = actualValue != null && !round.voided_at;
+    const prediction = { predictedValue: s.predicted_value, intervalLow: s.interval_low, intervalHigh: s.interval_high };
+    return {
+      round: roundNumbers.get(s.round_id)!,
+      round_id: s.round_id,
+      team_id: s.team_id,
+      team: teamNames.get(s.team_id) ?? "",
+      sub_question: subQuestion?.position ?? null,
+      question: subQuestion?.question ?? round.question,
+      prediction: describePrediction(format, prediction),
+      predicted_value: s.predicted_value,
+      interval_low: s.interval_low,
+      interval_high: s.interval_high,
+      bid_amount: s.bid_amount,
+      power_up: s.power_up,
+      hedge_value: s.hedge_value,
+      answer: actualValue != null ? describeAnswer(format, actualValue) : null,
+      actual_value: actualValue,
+      error_percent: settled ? s.error_percent : null,
+      score: settled ? s.score : null,
+      profit: settled ? s.score - s.bid_amount : round.voided_at ? 0 : null
+    };
+  });
+
+  const rounds: RoundRow[] = roundRows.map((r: any) => {
+    const format = parseRoundFormat(r);
+    const subQuestions = subQuestionRows.filter((q: any) => q.round_id === r.id);
+    const entries = submissions.filter((s) => s.round_id === r.id);
+    const answer = subQuestions.length
+      ? subQuestions.every((q: any) => q.actual_value == null)
+        ? null
+        : subQuestions.map((q: any) => `Q${q.position}: ${q.actual_value ?? "?"}`).join("; ")
+      : r.actual_value != null ? describeAnswer(format, r.actual_value) : null;
+    return {
+      round: roundNumbers.get(r.id)!,
+      round_id: r.id,
+      theme: r.theme,
+      question: r.question,
+      unit: r.unit,
+      type: format.type,
+      status: r.voided_at ? "voided" : r.status,
+      answer,
+      actual_value: r.actual_value,
+      line: format.line,
+      options: format.options ? format.options.map((o) => `${o.label} (${o.odds}x)`).join("; ") : null,
+      sub_questions: subQuestions.length,
+      teams: new Set(entries.map((s) => s.team_id)).size,
+      total_bid: entries.reduce((sum, s) => sum + s.bid_amount, 0),
+      total_payout: entries.reduce((sum, s) => sum + (s.score ?? 0), 0),
+      settled_at: isoTime(r.settled_at),
+      voided: r.voided_at ? "yes" : "no"
+    };
+  });
+
+  // Every round a team took part in, whether by submitting or by paying for it (hints, mandatory bids).
+  const performance: RoundPerformance[] = [];
+  for (const r of roundRows) {
+    for (const t of teamRows) {
+      const entries = submissions.filter((s) => s.round_id === r.id && s.team_id === t.id);
+      const charged = profitRows.some((p: any) => p.team_id === t.id && p.round_id === r.id);
+      if (!entries.length && !charged) continue;
+      performance.push({
+        round_id: r.id,
+        team_id: t.id,
+        bid: entries.reduce((sum, s) => sum + s.bid_amount, 0),
+        profit: profitOf(t.id, r.id),
+        error_percent: average(measuredErrors(entries))
+      });
+    }
+  }
+
+  const teams: TeamRow[] = teamRows.map((t: any) => ({
+    team_id: t.id,
+    team: t.name,
+    balance: t.balance,
+    debt: t.debt,
+    rebuys: t.rebuys,
+    eliminated_at: isoTime(t.eliminated_at),
+    status: t.banned_at ? "banned" : t.removed_at ? "removed" : "active",
+    submissions: new Set(submissions.filter((s) => s.team_id === t.id).map((s) => s.round_id)).size
+  }));
+
+  // Ranked the same way as the live leaderboard, never the frozen public one.
+  const standings: StandingRow[] = loadStandings(db, gameId).map((t) => {
+    const own = performance.filter((p) => p.team_id === t.id);
+    const played = submissions.filter((s) => s.team_id === t.id);
+    return {
+      rank: t.rank,
+      team_id: t.id,
+      team: t.name,
+      balance: t.balance,
+      profit: own.reduce((sum, p) => sum + p.profit, 0),
+      rounds_played: new Set(played.map((s) => s.round_id)).size,
+      average_error_percent: average(measuredErrors(played)),
+      precision_hits: t.precision_hits,
+      roi_percent: t.roi,
+      best_round_profit: own.length ? Math.max(...own.map((p) => p.profit)) : null,
+      eliminated: t.eliminated_at ? "yes" : "no"
+    };
+  });
+
+  return {
+    game: { id: game.id, name: game.name, joinCode: game.join_code, status: game.status },
+    generatedAt: Date.now(),
+    teams,
+    rounds,
+    submissions,
+    standings,
+    performance
+  };
+}
+
+// Spreadsheets run text starting with =, +, -, @, a tab or a CR as a formula, and team names are
+// typed by players, so such text gets a leading ' to open as plain text. Numbers are left alone
+// so negative profits stay numbers.
+const csvCell = (value: unknown) => {
+  if (value == null) return "";
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// RFC 4180, the same dialect the question import reads.
+export function toCsv(columns: readonly string[], rows: Record<string, unknown>[]): string {
+  const lines = [columns.map(csvCell).join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((column) => csvCell(row[column])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function exportDataset(results: GameResults, dataset: ExportDataset, format: "csv" | "json"): string {
+  const columns = EXPORT_COLUMNS[dataset] as string[];
+  const rows = results[dataset] as unknown as Record<string, unknown>[];
+  if (format === "csv") return toCsv(columns, rows);
+  return JSON.stringify(rows.map((row) => Object.fromEntries(columns.map((column) => [column, row[column]]))), null, 2);
+}
@@ -0,0 +1,222 @@
+// Drives a real server on a scratch database through its HTTP API, for the settlement and
+// ledger paths that live in server.ts rather than in a module that can be tested alone.
+import { ChildProcess, spawn } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+const PORT = 40000 + Math.floor(Math.random() * 10000);
+const BASE_URL = `http://localhost:${PORT}`;
+
+let server: ChildProcess;
+let dataDir: string;
+let adminToken: string;
+
+async function api(method: string, url: string, body?: unknown, headers: Record<string, string> = {}) {
+  const response = await fetch(BASE_URL + url, {
+    method,
+    headers: { "Content-Type": "application/json", ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+const admin = (method: string, url: string, body?: unknown) => api(method, url, body, { "x-admin-token": adminToken });
+
+async function createGame() {
+  const { body } = await admin("POST", "/api/admin/games", { name: "Test Night" });
+  return body as { id: number, join_code: string };
+}
+
+const join = (game: { join_code: string }, name: string, pin = "1234") =>
+  api("POST", "/api/teams/join", { name, joinCode: game.join_code, pin });
+
+async function joinTeam(game: { join_code: string }, name: string) {
+  const { body } = await join(game, name);
+  return body as { id: number, token: string };
+}
+
+async function startRound(gameId: number, body: Record<string, unknown> = {}) {
+  const { body: round } = await admin("POST", `/api/admin/games/${gameId}/rounds`, { theme: "Heights", ...body });
+  return round.id as number;
+}
+
+const submit = (team: { token: string }, roundId: number, predictedValue: number, bidAmount: number) =>
+  api("POST", "/api/submissions", { roundId, predictedValue, bidAmount }, { "x-team-token": team.token });
+
+const reveal = (roundId: number, actualValue: number) => admin("POST", "/api/admin/rounds/reveal", { roundId, actualValue });
+
+const correct = (roundId: number, actualValue: number) => admin("POST", `/api/admin/rounds/${roundId}/correct`, { actualValue });
+
+async function balanceOf(team: { token: string }) {
+  const { body } = await api("GET", "/api/teams/me", undefined, { "x-team-token": team.token });
+  return body.balance as number;
+}
+
+const historyOf = async (teamId: number) => (await admin("GET", `/api/admin/teams/${teamId}/history`)).body as any[];
+
+beforeAll(async () => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "data-paradox-"));
+  server = spawn(process.execPath, ["--import", "tsx", "server.ts"], {
+    env: { ...process.env, NODE_ENV: "production", PORT: String(PORT), DATABASE_PATH: path.join(dataDir, "test.db"), ADMIN_PASSWORD: "admin123" },
+    stdio: "ignore"
+  });
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await fetch(`${BASE_URL}/api/scoring-rules`);
+      break;
+    } catch (e) {
+      if (attempt >= 100) throw e;
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+  }
+  const { body } = await api("POST", "/api/admin/login", { username: "admin", password: "admin123" });
+  adminToken = body.token;
+}, 30000);
+
+afterAll(() => {
+  server?.kill();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe("revealing a round", () => {
+  it("pays out once, however often the reveal is sent", async () => {
+    const game = await createGame();
+    const alpha = await joinTeam(game, "Alpha");
+    const roundId = await startRound(game.id);
+    await submit(alpha, roundId, 100, 100);
+
+    expect((await reveal(roundId, 100)).status).toBe(200);
+    expect(await balanceOf(alpha)).toBe(2200);
+    expect(await reveal(roundId, 100)).toEqual({ status: 409, body: { error: "Round has already been revealed" } });
+    expect(await balanceOf(alpha)).toBe(2200);
+  });
+
+  it("reverses the payouts and re-scores a corrected round", async () => {
+    const game = await createGame();
+    const alpha = await joinTeam(game, "Alpha");
+    const beta = await joinTeam(game, "Beta");
+    const roundId = await startRound(game.id);
+    await submit(alpha, roundId, 100, 100);
+    await submit(beta, roundId, 500, 100);
+    await reveal(roundId, 500);
+    expect([await balanceOf(alpha), await balanceOf(beta)]).toEqual([1900, 2200]);
+
+    expect((await correct(roundId, 100)).status).toBe(200);
+    expect([await balanceOf(alpha), await balanceOf(beta)]).toEqual([2200, 1900]);
+    expect((await historyOf(beta.id)).map((e) => [e.kind, e.amount])).toEqual([
+      ["grant", 2000], ["escrow", -100], ["payout", 300], ["payout", -300], ["payout", 0]
+    ]);
+    expect((await historyOf(beta.id))[3].note).toBe("Reversed for correction (was 500)");
+  });
+
+  it("only corrects rounds that have been revealed", async () => {
+    const game = await createGame();
+    const roundId = await startRound(game.id);
+    expect(await correct(roundId, 100)).toEqual({ status: 400, body: { error: "Only revealed rounds can be corrected" } });
+    expect((await correct(roundId + 1000, 100)).status).toBe(404);
+  });
+});
+
+describe("the balance ledger", () => {
+  it("accounts for every coin of a team's balance", async () => {
+    const game = await createGame();
+    const alpha = await joinTeam(game, "Alpha");
+    const roundId = await startRound(game.id);
+    await submit(alpha, roundId, 100, 100);
+    await reveal(roundId, 500);
+    await correct(roundId, 100);
+    await admin("POST", `/api/admin/teams/${alpha.id}/adjust`, { amount: -50, reason: "Late answer" });
+
+    const history = await historyOf(alpha.id);
+    expect(history.map((e) => e.kind)).toEqual(["grant", "escrow", "payout", "payout", "payout", "adjustment"]);
+    expect(history.every((e) => e.round_id === (e.kind === "grant" || e.kind === "adjustment" ? null : roundId))).toBe(true);
+    expect(history[history.length - 1].balance_after).toBe(await balanceOf(alpha));
+    expect((await admin("GET", "/api/admin/ledger/reconcile")).body).toEqual({ consistent: true, mismatches: [] });
+  });
+
+  it("refunds the bets of a round that ends without a reveal, and will not correct it", async () => {
+    const game = await createGame();
+    const alpha = await joinTeam(game, "Alpha");
+    const roundId = await startRound(game.id);
+    await submit(alpha, roundId, 100, 100);
+    await startRound(game.id, { theme: "Depths" });
+
+    expect(await balanceOf(alpha)).toBe(2000);
+    expect((await historyOf(alpha.id)).map((e) => [e.kind, e.amount])).toEqual([["grant", 2000], ["escrow", -100], ["refund", 100]]);
+    expect(await correct(roundId, 100)).toEqual({ status: 409, body: { error: "Voided rounds were refunded and cannot be corrected" } });
+    expect(await balanceOf(alpha)).toBe(2000);
+  });
+});
+
+describe("managing teams", () => {
+  it("signs a team back in whatever the case and spacing of its name", async () => {
+    const game = await createGame();
+    const alpha = await joinTeam(game, "Alpha");
+    expect((await join(game, " alpha ")).body.id).toBe(alpha.id);
+    expect(await join(game, "ALPHA", "9999")).toEqual({ status: 401, body: { error: "Incorrect PIN for this team" } });
+    expect((await admin("GET", `/api/admin/games/${game.id}/teams`)).body.map((t: any) => t.name)).toEqual(["Alpha"]);
+  });
+
+  it("merges a duplicate team's bets, coins and devices, taking back its starting balance", async () => {
+    const game = await createGame();
+    const alpha = await joinTeam(game, "Alpha");
+    const duplicate = await joinTeam(game, "Team Alpha");
+    const first = await startRound(game.id);
+    await submit(alpha, first, 100, 100);
+    await reveal(first, 100);
+    const second = await startRound(game.id);
+    await submit(duplicate, second, 100, 100);
+    await reveal(second, 500);
+
+    expect((await admin("POST", `/api/admin/teams/${duplicate.id}/merge`, { intoTeamId: alpha.id })).status).toBe(200);
+    expect(await balanceOf(alpha)).toBe(2100);
+    expect((await api("GET", "/api/teams/me", undefined, { "x-team-token": duplicate.token })).body.id).toBe(alpha.id);
+    expect((await admin("GET", `/api/admin/games/${game.id}/teams`)).body.map((t: any) => t.name)).toEqual(["Alpha"]);
+    const history = await historyOf(alpha.id);
+    expect(history.filter((e) => e.kind === "escrow").map((e) => e.round_id)).toEqual([first, second]);
+    expect(history.filter((e) => e.kind === "adjustment").map((e) => [e.amount, e.note]))
+      .toEqual([[-2000, "Starting balance of Team Alpha, merged into this team"]]);
+    expect(history[history.length - 1]).toMatchObject({ kind: "notice", note: "Merged with Team Alpha", balance_after: 2100 });
+    expect((await admin("GET", "/api/admin/ledger/reconcile")).body.consistent).toBe(true);
+  });
+
+  it("will not merge teams that bet on the same round", async () => {
+    const game = await createGame();
+    const alpha = await joinTeam(game, "Alpha");
+    const duplicate = await joinTeam(game, "Team Alpha");
+    const roundId = await startRound(game.id);
+    await submit(alpha, roundId, 100, 100);
+    await submit(duplicate, roundId, 200, 100);
+    expect(await admin("POST", `/api/admin/teams/${duplicate.id}/merge`, { intoTeamId: alpha.id })).toEqual({
+      status: 409, body: { error: "Both teams bet on the same round, so their histories cannot be combined" }
+    });
+  });
+
+  it("takes a removed team off the frozen board until it is reinstated", async () => {
+    const game = await createGame();
+    const alpha = await joinTeam(game, "Alpha");
+    await joinTeam(game, "Beta");
+    await admin("POST", `/api/admin/games/${game.id}/leaderboard/freeze`, { rounds: 2 });
+    const board = async () => (await api("GET", `/api/games/${game.id}/teams`)).body.map((t: any) => t.name);
+
+    await admin("POST", `/api/admin/teams/${alpha.id}/remove`, {});
+    expect(await board()).toEqual(["Beta"]);
+    await admin("POST", `/api/admin/teams/${alpha.id}/reinstate`, {});
+    expect(await board()).toEqual(["Alpha", "Beta"]);
+    await admin("POST", `/api/admin/teams/${alpha.id}/remove`, {});
+    await join(game, "Alpha");
+    expect(await board()).toEqual(["Alpha", "Beta"]);
+  });
+
+  it("needs a reason for a manual adjustment", async () => {
+    const game = await createGame();
+    const alpha = await joinTeam(game, "Alpha");
+    expect(await admin("POST", `/api/admin/teams/${alpha.id}/adjust`, { amount: 100, reason: " " }))
+      .toEqual({ status: 400, body: { error: "A reason is required for balance adjustments" } });
+    expect(await admin("POST", `/api/admin/teams/${alpha.id}/adjust`, { amount: -2500, reason: "Penalty" }))
+      .toEqual({ status: 400, body: { error: "Alpha only has 2000 coins" } });
+    expect(await balanceOf(alpha)).toBe(2000);
+  });
+});
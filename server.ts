@@ -1,223 +1,2285 @@
 import express from "express";
 import { createServer as createViteServer } from "vite";
 import { WebSocketServer, WebSocket } from "ws";
-import Database from "better-sqlite3";
 import path from "path";
+import crypto from "crypto";
 import { fileURLToPath } from "url";
+import { migrate, openDatabase } from "./db";
+import { loadStandings } from "./db/standings";
+import {
+  captureGame,
+  listSnapshots,
+  loadSnapshot,
+  restoreGame,
+  saveSnapshot,
+  validateSnapshotFile
+} from "./db/snapshots";
+import { GenerationError, createRoundGenerator } from "./generation";
+import { renderGameReport } from "./reports/html";
+import { exportDataset, isExportDataset, loadGameResults } from "./reports/results";
+import {
+  DEFAULT_SCORING,
+  ScoringDefinition,
+  validateScoringDefinition
+} from "./src/shared/scoring";
+import { normalizeQuestion, parseQuestionImport, validateQuestion } from "./src/shared/questions";
+import { EconomySettings, isBankrupt, parseEconomy, validateBid, validateEconomy, validateStake } from "./src/shared/economy";
+import { POWER_UPS, PowerUpInventory, PowerUpKind, applyPowerUp, isPowerUpKind, parseInventory, validateInventory } from "./src/shared/powerups";
+import {
+  Prediction,
+  SubQuestionAnswer,
+  SubQuestionInput,
+  describeAnswer,
+  describePrediction,
+  normalizeAnswers,
+  normalizePrediction,
+  normalizeRoundFormat,
+  normalizeSubQuestions,
+  parseRoundFormat,
+  scorePrediction,
+  subQuestionProblem,
+  validateAnswer,
+  validateRoundFormat,
+  validateSubQuestions
+} from "./src/shared/rounds";
+import { HintOffer, PurchasedHint, validateHint } from "./src/shared/hints";
+import { GeneratedQuestion, validateGenerationRequest } from "./src/shared/generation";
+import { HintSales, computeMultiRoundStats, computeRoundStats } from "./src/shared/stats";
+import { HistoryEntry, RoundHistory, TeamRoundHistory, computeTeamPerformance } from "./src/shared/performance";
+import { LeaderboardFreeze, parseFreeze, validateLeaderboard, visibleStandings } from "./src/shared/leaderboard";
+import {
+  AdminEvent,
+  GameEvent,
+  GameSnapshot,
+  GlobalEvent,
+  HEARTBEAT_INTERVAL_MS,
+  OwnSubmission,
+  PROTOCOL_VERSION,
+  ServerMessage,
+  SettlementResult,
+  Team,
+  TeamEvent,
+  parseClientMessage
+} from "./src/shared/protocol";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-const db = new Database("data_paradox.db");
+const db = openDatabase();
+migrate(db);
 
-// Initialize Database
-db.exec(`
-  CREATE TABLE IF NOT EXISTS teams (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    name TEXT UNIQUE,
-    balance REAL DEFAULT 2000
+const roundGenerator = createRoundGenerator();
+
+const JOIN_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+function generateJoinCode() {
+  while (true) {
+    let code = "";
+    for (let i = 0; i < 6; i++) {
+      code += JOIN_CODE_ALPHABET[Math.floor(Math.random() * JOIN_CODE_ALPHABET.length)];
+    }
+    if (!db.prepare("SELECT id FROM games WHERE join_code = ?").get(code)) return code;
+  }
+}
+
+const createGame = db.transaction((name: string, title: string = name) => {
+  const info = db.prepare("INSERT INTO games (name, join_code, created_at) VALUES (?, ?, ?)")
+    .run(name, generateJoinCode(), Date.now());
+  const insertSetting = db.prepare("INSERT INTO game_settings (game_id, key, value) VALUES (?, ?, ?)");
+  insertSetting.run(info.lastInsertRowid, 'game_title', title);
+  insertSetting.run(info.lastInsertRowid, 'default_scoring_rule_id', '1');
+  return db.prepare("SELECT * FROM games WHERE id = ?").get(info.lastInsertRowid);
+});
+
+// Everything from the single-game era belongs to the first game.
+db.transaction(() => {
+  if (!db.prepare("SELECT id FROM games LIMIT 1").get()) {
+    createGame("Main Event", "DATA PARADOX");
+  }
+  const firstGame = db.prepare("SELECT id FROM games ORDER BY id LIMIT 1").get();
+  db.prepare("UPDATE teams SET game_id = ? WHERE game_id IS NULL").run(firstGame.id);
+  db.prepare("UPDATE rounds SET game_id = ? WHERE game_id IS NULL").run(firstGame.id);
+
+  if (db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'settings'").get()) {
+    db.prepare("INSERT OR REPLACE INTO game_settings (game_id, key, value) SELECT ?, key, value FROM settings")
+      .run(firstGame.id);
+    db.exec("DROP TABLE settings");
+  }
+})();
+
+// Team PINs and admin passwords are exchanged for random session tokens
+// (x-team-token / x-admin-token). Only hashes of either are stored.
+function hashSecret(secret: string) {
+  const salt = crypto.randomBytes(16).toString("hex");
+  return `${salt}:${crypto.scryptSync(secret, salt, 32).toString("hex")}`;
+}
+
+function verifySecret(secret: string, stored: string) {
+  const [salt, hash] = stored.split(":");
+  return crypto.timingSafeEqual(Buffer.from(hash, "hex"), crypto.scryptSync(secret, salt, 32));
+}
+
+const hashToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+function issueTeamToken(teamId: number) {
+  const token = crypto.randomBytes(32).toString("hex");
+  db.prepare("INSERT INTO team_sessions (token_hash, team_id, created_at) VALUES (?, ?, ?)")
+    .run(hashToken(token), teamId, Date.now());
+  return token;
+}
+
+type AdminRole = 'owner' | 'host' | 'scorekeeper';
+
+const ADMIN_ROLES: AdminRole[] = ['owner', 'host', 'scorekeeper'];
+const ADMIN_SESSION_TTL_MS = Number(process.env.ADMIN_SESSION_TTL_HOURS || 12) * 60 * 60 * 1000;
+
+// First start: the ADMIN_PASSWORD env var becomes the password of an "admin" owner account.
+if (!db.prepare("SELECT id FROM admin_accounts LIMIT 1").get()) {
+  db.prepare("INSERT INTO admin_accounts (username, password_hash, role, created_at) VALUES ('admin', ?, 'owner', ?)")
+    .run(hashSecret(process.env.ADMIN_PASSWORD || 'admin123'), Date.now());
+}
+
+function recordAudit(admin: { id: number }, action: string, gameId: number | null, details: Record<string, unknown> = {}) {
+  db.prepare("INSERT INTO admin_audit_log (account_id, game_id, action, details, created_at) VALUES (?, ?, ?, ?, ?)")
+    .run(admin.id, gameId, action, JSON.stringify(details), Date.now());
+}
+
+// Shared by the HTTP auth middleware and WebSocket SUBSCRIBE, so both accept exactly the same tokens.
+function findAdminSession(token: unknown) {
+  if (typeof token !== "string") return undefined;
+  return db.prepare(`
+    SELECT a.id, a.username, a.role, s.expires_at FROM admin_sessions s
+    JOIN admin_accounts a ON s.account_id = a.id
+    WHERE s.token_hash = ? AND s.revoked_at IS NULL AND s.expires_at > ? AND a.disabled = 0
+  `).get(hashToken(token), Date.now());
+}
+
+function findTeamSession(token: unknown) {
+  if (typeof token !== "string") return undefined;
+  return db.prepare(`
+    SELECT t.* FROM team_sessions s JOIN teams t ON s.team_id = t.id
+    WHERE s.token_hash = ? AND t.removed_at IS NULL
+  `).get(hashToken(token));
+}
+
+const isValidPin = (pin: unknown): pin is string => typeof pin === "string" && /^\d{4,8}$/.test(pin);
+
+function getGame(id: number | bigint) {
+  return db.prepare("SELECT * FROM games WHERE id = ?").get(id);
+}
+
+function getGameSettings(gameId: number) {
+  const settings = db.prepare("SELECT key, value FROM game_settings WHERE game_id = ?").all(gameId);
+  return settings.reduce((acc: any, curr: any) => {
+    acc[curr.key] = curr.value;
+    return acc;
+  }, {});
+}
+
+function getEconomy(gameId: number): EconomySettings {
+  return parseEconomy(db.prepare("SELECT value FROM game_settings WHERE game_id = ? AND key = 'economy'").get(gameId)?.value);
+}
+
+// Game settings holding JSON, with the check each has to pass before it is stored.
+const JSON_SETTINGS: Record<string, (value: unknown) => string | null> = {
+  economy: validateEconomy,
+  power_ups: validateInventory,
+  leaderboard: validateLeaderboard
+};
+
+// What each team may still play: the game's inventory less the power-ups already used.
+// Rounds voided without a reveal hand their power-ups back.
+function getRemainingPowerUps(gameId: number, teamId: number): PowerUpInventory {
+  const inventory = parseInventory(db.prepare("SELECT value FROM game_settings WHERE game_id = ? AND key = 'power_ups'").get(gameId)?.value);
+  const used = db.prepare(`
+    SELECT s.power_up, COUNT(*) as count FROM submissions s JOIN rounds r ON s.round_id = r.id
+    WHERE s.team_id = ? AND s.power_up IS NOT NULL AND r.voided_at IS NULL
+    GROUP BY s.power_up
+  `).all(teamId);
+  const remaining = { ...inventory };
+  for (const { power_up, count } of used) {
+    if (isPowerUpKind(power_up)) remaining[power_up] = Math.max(0, remaining[power_up] - count);
+  }
+  return remaining;
+}
+
+// Notices move no coins; they put admin actions on a team (renames, merges) in its history.
+type LedgerKind = 'grant' | 'escrow' | 'payout' | 'adjustment' | 'refund' | 'forfeit' | 'rebuy' | 'loan' | 'repayment' | 'hint' | 'notice';
+
+// Every balance movement goes through here so teams.balance always equals the
+// sum of the team's ledger entries. Callers run it inside their transaction. A compensating
+// entry can be dated to the entry it offsets so histories read it in place.
+function postLedger(
+  teamId: number,
+  kind: LedgerKind,
+  amount: number,
+  refs: { roundId?: number | null, submissionId?: number | bigint | null, note?: string, at?: number } = {}
+) {
+  db.prepare("UPDATE teams SET balance = balance + ? WHERE id = ?").run(amount, teamId);
+  const { balance } = db.prepare("SELECT balance FROM teams WHERE id = ?").get(teamId);
+  db.prepare(`
+    INSERT INTO ledger_entries (team_id, kind, amount, balance_after, round_id, submission_id, note, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(teamId, kind, amount, balance, refs.roundId ?? null, refs.submissionId ?? null, refs.note ?? null, refs.at ?? Date.now());
+}
+
+// Ledger rows are never edited, so entries moved over in a merge keep the balance_after of the
+// account they were posted to. Histories take entries in date order and recompute the balance.
+function withRunningBalance(entries: any[]) {
+  let balance = 0;
+  return entries.map((entry) => ({ ...entry, balance_after: balance += entry.amount }));
+}
+
+db.prepare("INSERT OR IGNORE INTO scoring_rules (id, name, definition) VALUES (1, 'Classic (20–25% rule)', ?)")
+  .run(JSON.stringify(DEFAULT_SCORING));
+
+function parseScoringRule(row: any) {
+  return { id: row.id, name: row.name, definition: JSON.parse(row.definition) as ScoringDefinition };
+}
+
+function getScoringDefinition(ruleId: number | null): ScoringDefinition {
+  const row = ruleId != null
+    ? db.prepare("SELECT * FROM scoring_rules WHERE id = ?").get(ruleId)
+    : undefined;
+  return row ? parseScoringRule(row).definition : DEFAULT_SCORING;
+}
+
+function getStandings(gameId: number) {
+  return loadStandings(db, gameId);
+}
+
+function getLeaderboardFreeze(gameId: number): LeaderboardFreeze | null {
+  return parseFreeze(db.prepare("SELECT value FROM game_settings WHERE game_id = ? AND key = 'leaderboard_freeze'").get(gameId)?.value);
+}
+
+// What players and spectators see: the true standings, or the ones captured when the board was frozen
+// less the teams that have since been removed or merged away.
+function getPublicStandings(gameId: number): Team[] {
+  const freeze = getLeaderboardFreeze(gameId);
+  if (!freeze) return getStandings(gameId);
+  const inGame = new Set(db.prepare("SELECT id FROM teams WHERE game_id = ? AND removed_at IS NULL").all(gameId).map((t: any) => t.id));
+  return visibleStandings(freeze.standings, (teamId) => inGame.has(teamId));
+}
+
+// Applies a rename to the frozen board as well, so a name taken down for being offensive does
+// not stay on the projector until the unfreeze.
+function updateFrozenStandings(gameId: number, update: (standings: Team[]) => Team[]) {
+  const freeze = getLeaderboardFreeze(gameId);
+  if (!freeze) return;
+  db.prepare("UPDATE game_settings SET value = ? WHERE game_id = ? AND key = 'leaderboard_freeze'")
+    .run(JSON.stringify({ ...freeze, standings: update(freeze.standings) }), gameId);
+}
+
+// Rounds voided without a reveal are settled too, but have no answer to show.
+const isRevealed = (round: any) => round?.status === 'revealed' && !round.voided_at;
+
+// A multi-question round stays closed between partial reveals, but with answers already out it
+// must not take bets again. Expects a round from getRound, which carries its sub-questions.
+const isPartlyRevealed = (round: any) => round.sub_questions.some((q: any) => q.settled_at != null);
+
+// A sub-question's actual_value stays NULL until it is revealed, so these are safe to send to everyone.
+function getSubQuestions(roundId: number) {
+  return db.prepare("SELECT * FROM sub_questions WHERE round_id = ? ORDER BY position").all(roundId);
+}
+
+// Multi-question rounds hold one submission row per sub-question, so teams are counted once.
+function countSubmittedTeams(roundId: number): number {
+  return db.prepare("SELECT COUNT(DISTINCT team_id) as count FROM submissions WHERE round_id = ?").get(roundId).count;
+}
+
+// Only the submission count is public; the values stay hidden until reveal.
+function getCurrentRound(gameId: number) {
+  const round = db.prepare("SELECT * FROM rounds WHERE game_id = ? ORDER BY id DESC LIMIT 1").get(gameId);
+  if (!round) return null;
+  return {
+    ...round,
+    ...parseRoundFormat(round),
+    submission_count: countSubmittedTeams(round.id),
+    hints: getHintOffers(round.id),
+    sub_questions: getSubQuestions(round.id)
+  };
+}
+
+function getHintOffers(roundId: number): HintOffer[] {
+  return db.prepare("SELECT id, position, price FROM round_hints WHERE round_id = ? ORDER BY position").all(roundId);
+}
+
+function getPurchasedHints(roundId: number, teamId: number): PurchasedHint[] {
+  return db.prepare(`
+    SELECT h.id, h.position, h.price, h.text FROM round_hints h JOIN hint_purchases p ON p.hint_id = h.id
+    WHERE h.round_id = ? AND p.team_id = ? ORDER BY h.position
+  `).all(roundId, teamId);
+}
+
+// Every hint on the round with who bought it; for admins, and for everyone after the reveal.
+function getHintSales(roundId: number): HintSales[] {
+  const hints = db.prepare("SELECT id, position, text, price FROM round_hints WHERE round_id = ? ORDER BY position").all(roundId);
+  const buyers = db.prepare(`
+    SELECT p.hint_id, t.id as team_id, t.name FROM hint_purchases p JOIN teams t ON p.team_id = t.id
+    JOIN round_hints h ON p.hint_id = h.id WHERE h.round_id = ? ORDER BY p.id
+  `).all(roundId);
+  return hints.map((hint: any) => ({
+    ...hint,
+    buyers: buyers.filter((b: any) => b.hint_id === hint.id).map((b: any) => ({ teamId: b.team_id, teamName: b.name }))
+  }));
+}
+
+function getOwnSubmission(roundId: number, teamId: number): OwnSubmission | null {
+  const rows = db.prepare(`
+    SELECT s.predicted_value, s.interval_low, s.interval_high, s.bid_amount, s.power_up, s.hedge_value, s.sub_question_id
+    FROM submissions s LEFT JOIN sub_questions q ON s.sub_question_id = q.id
+    WHERE s.round_id = ? AND s.team_id = ? ORDER BY q.position
+  `).all(roundId, teamId);
+  const row = rows[0];
+  if (row?.sub_question_id != null) {
+    return {
+      roundId,
+      predictedValue: null,
+      bidAmount: rows.reduce((total, r) => total + r.bid_amount, 0),
+      answers: rows.map((r) => ({ subQuestionId: r.sub_question_id, predictedValue: r.predicted_value, bidAmount: r.bid_amount }))
+    };
+  }
+  return row
+    ? {
+        roundId,
+        predictedValue: row.predicted_value,
+        intervalLow: row.interval_low,
+        intervalHigh: row.interval_high,
+        bidAmount: row.bid_amount,
+        powerUp: row.power_up,
+        hedgeValue: row.hedge_value
+      }
+    : null;
+}
+
+// Stake is measured against the balance just before the bid, read back from its escrow entry.
+function getRoundStats(round: any) {
+  const subQuestions = getSubQuestions(round.id);
+  if (subQuestions.length > 0) {
+    return getMultiRoundStats(round, subQuestions);
+  }
+  const submissions = db.prepare(`
+    SELECT s.team_id, t.name as team_name, s.predicted_value, s.bid_amount,
+      COALESCE(l.balance_after + s.bid_amount, 0) as balance_before
+    FROM submissions s
+    JOIN teams t ON s.team_id = t.id
+    LEFT JOIN ledger_entries l ON l.submission_id = s.id AND l.kind = 'escrow'
+    WHERE s.round_id = ?
+  `).all(round.id);
+  return computeRoundStats(round.id, round.actual_value, submissions, getHintSales(round.id), parseRoundFormat(round));
+}
+
+// A multi-question round escrows each team's whole stake in one entry, which the balance before is read back from.
+function getMultiRoundStats(round: any, subQuestions: any[]) {
+  const submissions = db.prepare(`
+    SELECT s.team_id, t.name as team_name, s.sub_question_id, s.predicted_value, s.bid_amount,
+      COALESCE(l.balance_after - l.amount, 0) as balance_before
+    FROM submissions s
+    JOIN teams t ON s.team_id = t.id
+    LEFT JOIN ledger_entries l ON l.round_id = s.round_id AND l.team_id = s.team_id AND l.kind = 'escrow'
+    WHERE s.round_id = ?
+  `).all(round.id);
+  const stakes = new Map<number, any>();
+  for (const sub of submissions) {
+    const stake = stakes.get(sub.team_id) ?? { ...sub, bid_amount: 0 };
+    stake.bid_amount += sub.bid_amount;
+    stakes.set(sub.team_id, stake);
+  }
+  return computeMultiRoundStats(round.id, [...stakes.values()], subQuestions.map((q) => ({
+    id: q.id,
+    position: q.position,
+    question: q.question,
+    unit: q.unit,
+    stats: computeRoundStats(round.id, q.actual_value, submissions.filter((s) => s.sub_question_id === q.id))
+  })), getHintSales(round.id));
+}
+
+// Per-team outcome of a revealed round, optionally for a single team.
+function getSettlementResults(round: any, teamId?: number): { teamId: number, result: SettlementResult }[] {
+  const rows = db.prepare(`
+    SELECT s.team_id, s.predicted_value, s.interval_low, s.interval_high, s.bid_amount, s.score, s.error_percent,
+      s.power_up, s.hedge_value, s.sub_question_id, q.actual_value as sub_question_value, t.balance
+    FROM submissions s JOIN teams t ON s.team_id = t.id LEFT JOIN sub_questions q ON s.sub_question_id = q.id
+    WHERE s.round_id = ? AND (? IS NULL OR s.team_id = ?)
+    ORDER BY q.position
+  `).all(round.id, teamId ?? null, teamId ?? null);
+  if (rows[0]?.sub_question_id != null) {
+    return getAnswerResults(round, rows);
+  }
+  return rows.map((row) => ({
+    teamId: row.team_id,
+    result: {
+      roundId: round.id,
+      actualValue: round.actual_value,
+      predictedValue: row.predicted_value,
+      intervalLow: row.interval_low,
+      intervalHigh: row.interval_high,
+      bidAmount: row.bid_amount,
+      payout: row.score,
+      errorPercent: row.error_percent,
+      balance: row.balance,
+      powerUp: row.power_up,
+      hedgeValue: row.hedge_value
+    }
+  }));
+}
+
+// Multi-question rounds settle as one bet per team: the answers add up to a single bid and payout.
+function getAnswerResults(round: any, rows: any[]): { teamId: number, result: SettlementResult }[] {
+  const byTeam = new Map<number, any[]>();
+  for (const row of rows) {
+    byTeam.set(row.team_id, [...(byTeam.get(row.team_id) ?? []), row]);
+  }
+  return [...byTeam].map(([teamId, answers]) => ({
+    teamId,
+    result: {
+      roundId: round.id,
+      actualValue: null,
+      predictedValue: null,
+      bidAmount: answers.reduce((total, a) => total + a.bid_amount, 0),
+      payout: answers.reduce((total, a) => total + a.score, 0),
+      errorPercent: answers.reduce((total, a) => total + a.error_percent, 0) / answers.length,
+      balance: answers[0].balance,
+      powerUp: null,
+      hedgeValue: null,
+      answers: answers.map((a) => ({
+        subQuestionId: a.sub_question_id,
+        predictedValue: a.predicted_value,
+        bidAmount: a.bid_amount,
+        actualValue: a.sub_question_value,
+        payout: a.score,
+        errorPercent: a.error_percent
+      }))
+    }
+  }));
+}
+
+class SettlementError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+// Scores the round's submissions, or with subQuestionId the answers to one sub-question. Answers
+// are only scored here; payOutAnswers credits them once the whole round has been revealed.
+function applyScores(round: any, actualValue: number, subQuestionId: number | null = null) {
+  const scoring = getScoringDefinition(round.scoring_rule_id);
+  const format = parseRoundFormat(round);
+  const submissions = db.prepare("SELECT * FROM submissions WHERE round_id = ? AND sub_question_id IS ?").all(round.id, subQuestionId);
+
+  for (const sub of submissions) {
+    const powerUp: PowerUpKind | null = isPowerUpKind(sub.power_up) ? sub.power_up : null;
+    const base = scorePrediction(scoring, format, {
+      predictedValue: sub.predicted_value,
+      intervalLow: sub.interval_low,
+      intervalHigh: sub.interval_high
+    }, actualValue);
+    const hedge = powerUp === 'hedge' && sub.hedge_value != null
+      ? scorePrediction(scoring, format, { predictedValue: sub.hedge_value, intervalLow: null, intervalHigh: null }, actualValue)
+      : null;
+    const { score, errorPercent } = applyPowerUp(powerUp, sub.bid_amount, base, hedge);
+
+    db.prepare("UPDATE submissions SET score = ?, error_percent = ? WHERE id = ?")
+      .run(score, errorPercent, sub.id);
+    if (subQuestionId !== null) continue;
+
+    postLedger(sub.team_id, 'payout', score, {
+      roundId: round.id,
+      submissionId: sub.id,
+      note: powerUp ? POWER_UPS[powerUp].name : undefined
+    });
+  }
+}
+
+function payOutAnswers(round: any) {
+  const totals = db.prepare(`
+    SELECT team_id, SUM(score) as score, COUNT(*) as answers FROM submissions WHERE round_id = ? GROUP BY team_id
+  `).all(round.id);
+  for (const { team_id, score, answers } of totals) {
+    postLedger(team_id, 'payout', score, { roundId: round.id, note: `${answers} sub-questions` });
+  }
+}
+
+// Teams that sat the round out pay the game's mandatory bid, capped at what they hold.
+function chargeMandatoryBids(round: any, economy: EconomySettings) {
+  if (!economy.mandatoryBid) return;
+  const absent = db.prepare(`
+    SELECT id, balance FROM teams
+    WHERE game_id = ? AND eliminated_at IS NULL AND removed_at IS NULL AND id NOT IN (SELECT team_id FROM submissions WHERE round_id = ?)
+  `).all(round.game_id, round.id);
+  for (const team of absent) {
+    const amount = Math.min(economy.mandatoryBid, Math.max(0, team.balance));
+    if (amount > 0) {
+      postLedger(team.id, 'forfeit', -amount, { roundId: round.id, note: "Mandatory bid (no submission)" });
+    }
+  }
+}
+
+// Outstanding loans take their share of what each team won on the round beyond its bid.
+function repayLoans(round: any, economy: EconomySettings) {
+  const repayPercent = economy.bankruptcy.rule === 'loan' ? economy.bankruptcy.repayPercent : 100;
+  // Answers to a multi-question round are netted against each other; the repayment then has no single submission.
+  const payouts = db.prepare(`
+    SELECT CASE WHEN COUNT(*) = 1 THEN MAX(s.id) END as id, s.team_id, SUM(s.score - s.bid_amount) as winnings, t.debt
+    FROM submissions s JOIN teams t ON s.team_id = t.id
+    WHERE s.round_id = ? AND t.debt > 0
+    GROUP BY s.team_id HAVING winnings > 0
+  `).all(round.id);
+  for (const payout of payouts) {
+    const amount = Math.min(payout.debt, Math.floor(payout.winnings * repayPercent / 100));
+    if (amount <= 0) continue;
+    db.prepare("UPDATE teams SET debt = debt - ? WHERE id = ?").run(amount, payout.team_id);
+    postLedger(payout.team_id, 'repayment', -amount, { roundId: round.id, submissionId: payout.id, note: "Loan repayment" });
+  }
+}
+
+// Puts back what repayLoans took for a round, so a correction can take it again from the new payouts.
+function reverseLoanRepayments(round: any) {
+  const repaid = db.prepare(`
+    SELECT team_id, SUM(amount) as amount FROM ledger_entries
+    WHERE round_id = ? AND kind = 'repayment' GROUP BY team_id
+  `).all(round.id);
+  for (const { team_id, amount } of repaid) {
+    if (amount >= 0) continue;
+    db.prepare("UPDATE teams SET debt = debt + ? WHERE id = ?").run(-amount, team_id);
+    postLedger(team_id, 'repayment', -amount, { roundId: round.id, note: "Repayment reversed for correction" });
+  }
+}
+
+// Applies the game's bankruptcy rule to every active team that can no longer place a legal bid.
+function applyBankruptcyRule(gameId: number, economy: EconomySettings) {
+  const teams = db.prepare("SELECT * FROM teams WHERE game_id = ? AND eliminated_at IS NULL AND removed_at IS NULL").all(gameId);
+  const eliminate = db.prepare("UPDATE teams SET eliminated_at = ? WHERE id = ?");
+  const rule = economy.bankruptcy;
+  for (const team of teams) {
+    if (!isBankrupt(economy, team.balance)) continue;
+    if (rule.rule === 'eliminate' || (rule.rule === 'rebuy' && team.rebuys >= rule.maxRebuys)) {
+      eliminate.run(Date.now(), team.id);
+    } else if (rule.rule === 'rebuy') {
+      db.prepare("UPDATE teams SET rebuys = rebuys + 1 WHERE id = ?").run(team.id);
+      postLedger(team.id, 'rebuy', rule.amount, { note: `Re-buy ${team.rebuys + 1} of ${rule.maxRebuys}` });
+    } else if (rule.rule === 'loan') {
+      db.prepare("UPDATE teams SET debt = debt + ? WHERE id = ?").run(rule.amount, team.id);
+      postLedger(team.id, 'loan', rule.amount, { note: "Loan" });
+    }
+  }
+}
+
+// Settlement runs inside a transaction so a crash can never leave half the
+// teams paid out; settled_at guards against settling the same round twice.
+const settleRound = db.transaction((roundId: number, actualValue: number) => {
+  const round = db.prepare("SELECT * FROM rounds WHERE id = ?").get(roundId);
+  if (!round) {
+    throw new SettlementError("Round not found", 404);
+  }
+  const info = db.prepare(`
+    UPDATE rounds SET actual_value = ?, status = 'revealed', settled_at = ?
+    WHERE id = ? AND settled_at IS NULL
+  `).run(actualValue, Date.now(), roundId);
+  if (info.changes === 0) {
+    throw new SettlementError("Round has already been revealed", 409);
+  }
+  const economy = getEconomy(round.game_id);
+  applyScores(round, actualValue);
+  chargeMandatoryBids(round, economy);
+  repayLoans(round, economy);
+  applyBankruptcyRule(round.game_id, economy);
+});
+
+// Rounds abandoned by starting a new one are never scored, so their escrowed bids go back.
+const voidUnsettledRounds = db.transaction((gameId: number) => {
+  const rounds = db.prepare("SELECT * FROM rounds WHERE game_id = ? AND settled_at IS NULL").all(gameId);
+  for (const round of rounds) {
+    // A multi-question round's stake goes back in one entry, the way it was escrowed.
+    const stakes = db.prepare(`
+      SELECT CASE WHEN COUNT(*) = 1 THEN MAX(id) END as id, team_id, SUM(bid_amount) as bid_amount
+      FROM submissions WHERE round_id = ? GROUP BY team_id
+    `).all(round.id);
+    for (const stake of stakes) {
+      postLedger(stake.team_id, 'refund', stake.bid_amount, {
+        roundId: round.id,
+        submissionId: stake.id,
+        note: "Round ended without a reveal"
+      });
+    }
+    const now = Date.now();
+    db.prepare("UPDATE rounds SET status = 'revealed', settled_at = ?, voided_at = ? WHERE id = ?").run(now, now, round.id);
+  }
+  return rounds.map((round) => round.id as number);
+});
+
+const joinTeam = db.transaction((gameId: number, name: string, pin: string) => {
+  const info = db.prepare("INSERT INTO teams (game_id, name, balance, pin_hash) VALUES (?, ?, 0, ?)")
+    .run(gameId, name, hashSecret(pin));
+  postLedger(Number(info.lastInsertRowid), 'grant', getEconomy(gameId).startingBalance, { note: "Starting balance" });
+  return db.prepare("SELECT * FROM teams WHERE id = ?").get(info.lastInsertRowid);
+});
+
+// Folds a duplicate team into another: its bets, ledger entries, hints and signed-in devices
+// move across and the duplicate is deleted. Both teams were granted a starting balance, so each
+// of the duplicate's grants is taken back by an adjustment dated to that grant.
+const mergeTeams = db.transaction((source: any, target: any) => {
+  const grants = db.prepare("SELECT amount, created_at FROM ledger_entries WHERE team_id = ? AND kind = 'grant'").all(source.id);
+  db.prepare("UPDATE submissions SET team_id = ? WHERE team_id = ?").run(target.id, source.id);
+  db.prepare("UPDATE OR IGNORE hint_purchases SET team_id = ? WHERE team_id = ?").run(target.id, source.id);
+  db.prepare("DELETE FROM hint_purchases WHERE team_id = ?").run(source.id);
+  db.prepare("UPDATE ledger_entries SET team_id = ? WHERE team_id = ?").run(target.id, source.id);
+  db.prepare("UPDATE team_sessions SET team_id = ? WHERE team_id = ?").run(target.id, source.id);
+
+  // The merged team is only out of the game if both halves were.
+  const eliminatedAt = target.eliminated_at && source.eliminated_at ? Math.max(target.eliminated_at, source.eliminated_at) : null;
+  db.prepare("UPDATE teams SET balance = balance + ?, rebuys = rebuys + ?, debt = debt + ?, eliminated_at = ? WHERE id = ?")
+    .run(source.balance, source.rebuys, source.debt, eliminatedAt, target.id);
+  db.prepare("DELETE FROM teams WHERE id = ?").run(source.id);
+
+  for (const grant of grants) {
+    postLedger(target.id, 'adjustment', -grant.amount, {
+      note: `Starting balance of ${source.name}, merged into this team`,
+      at: grant.created_at
+    });
+  }
+  postLedger(target.id, 'notice', 0, { note: `Merged with ${source.name}` });
+});
+
+const purchaseHint = db.transaction((teamId: number, hint: any) => {
+  db.prepare("INSERT INTO hint_purchases (hint_id, team_id, created_at) VALUES (?, ?, ?)").run(hint.id, teamId, Date.now());
+  if (hint.price > 0) {
+    postLedger(teamId, 'hint', -hint.price, { roundId: hint.round_id, note: `Hint ${hint.position}` });
+  }
+});
+
+const placeSubmission = db.transaction((
+  teamId: number,
+  roundId: number,
+  prediction: Prediction,
+  bidAmount: number,
+  powerUp: PowerUpKind | null,
+  hedgeValue: number | null
+) => {
+  const info = db.prepare(`
+    INSERT INTO submissions (team_id, round_id, predicted_value, interval_low, interval_high, bid_amount, power_up, hedge_value)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    teamId,
+    roundId,
+    prediction.predictedValue,
+    prediction.intervalLow,
+    prediction.intervalHigh,
+    bidAmount,
+    powerUp,
+    hedgeValue
   );
+  postLedger(teamId, 'escrow', -bidAmount, { roundId, submissionId: info.lastInsertRowid });
+});
+
+// The answers to a multi-question round are escrowed as one bet, so history shows the round once.
+const placeAnswers = db.transaction((teamId: number, roundId: number, answers: SubQuestionAnswer[]) => {
+  const insert = db.prepare(`
+    INSERT INTO submissions (team_id, round_id, sub_question_id, predicted_value, bid_amount) VALUES (?, ?, ?, ?, ?)
+  `);
+  for (const answer of answers) {
+    insert.run(teamId, roundId, answer.subQuestionId, answer.predictedValue, answer.bidAmount);
+  }
+  const total = answers.reduce((sum, answer) => sum + answer.bidAmount, 0);
+  postLedger(teamId, 'escrow', -total, { roundId, note: `${answers.length} sub-questions` });
+});
+
+// Clears one game's play history; other games and the game itself are untouched.
+const resetGame = db.transaction((gameId: number) => {
+  db.prepare("DELETE FROM ledger_entries WHERE team_id IN (SELECT id FROM teams WHERE game_id = ?)").run(gameId);
+  db.prepare("DELETE FROM hint_purchases WHERE team_id IN (SELECT id FROM teams WHERE game_id = ?)").run(gameId);
+  db.prepare("DELETE FROM round_hints WHERE round_id IN (SELECT id FROM rounds WHERE game_id = ?)").run(gameId);
+  db.prepare("DELETE FROM team_sessions WHERE team_id IN (SELECT id FROM teams WHERE game_id = ?)").run(gameId);
+  db.prepare("DELETE FROM submissions WHERE round_id IN (SELECT id FROM rounds WHERE game_id = ?)").run(gameId);
+  db.prepare("DELETE FROM sub_questions WHERE round_id IN (SELECT id FROM rounds WHERE game_id = ?)").run(gameId);
+  db.prepare("UPDATE game_queue SET round_id = NULL WHERE game_id = ?").run(gameId);
+  db.prepare("DELETE FROM rounds WHERE game_id = ?").run(gameId);
+  db.prepare("DELETE FROM teams WHERE game_id = ?").run(gameId);
+  db.prepare("DELETE FROM game_settings WHERE game_id = ? AND key = 'leaderboard_freeze'").run(gameId);
+});
+
+const insertQuestions = db.transaction((questions: any[]) => {
+  const insert = db.prepare(`
+    INSERT INTO questions (theme, question, unit, description, answer, source, difficulty, created_at)
+    VALUES (@theme, @question, @unit, @description, @answer, @source, @difficulty, @created_at)
+  `);
+  return questions.map((q) => Number(insert.run({ ...q, created_at: Date.now() }).lastInsertRowid));
+});
+
+// Rewrites queue positions to follow entryIds; entries not listed keep their relative order after them.
+const reorderQueue = db.transaction((gameId: number, entryIds: number[]) => {
+  const entries = db.prepare("SELECT id FROM game_queue WHERE game_id = ? ORDER BY position, id").all(gameId);
+  const known = new Set(entries.map((e) => e.id));
+  const ordered = [
+    ...entryIds.filter((id) => known.has(id)),
+    ...entries.map((e) => e.id).filter((id) => !entryIds.includes(id))
+  ];
+  ordered.forEach((id, position) => {
+    db.prepare("UPDATE game_queue SET position = ? WHERE id = ?").run(position, id);
+  });
+});
+
+// Rolls back a settled round's payouts and re-scores it against the corrected value.
+// Throws unless the round (or with subQuestionId, that sub-question of it) can be corrected.
+// Returns the sub-question, if any.
+function checkCorrectable(round: any, subQuestionId: number | null) {
+  if (!round) {
+    throw new SettlementError("Round not found", 404);
+  }
+  // A voided round already refunded its bids; scoring it now would pay out on top of the refund.
+  if (round.voided_at) {
+    throw new SettlementError("Voided rounds were refunded and cannot be corrected", 409);
+  }
+  if (!isRevealed(round)) {
+    throw new SettlementError("Only revealed rounds can be corrected");
+  }
+  if (subQuestionId === null) return null;
+  const subQuestion = db.prepare("SELECT * FROM sub_questions WHERE id = ? AND round_id = ?").get(subQuestionId, round.id);
+  if (!subQuestion) {
+    throw new SettlementError("Sub-question not found", 404);
+  }
+  return subQuestion;
+}
+
+const resettleRound = db.transaction((roundId: number, actualValue: number) => {
+  const round = db.prepare("SELECT * FROM rounds WHERE id = ?").get(roundId);
+  checkCorrectable(round, null);
+
+  const submissions = db.prepare("SELECT * FROM submissions WHERE round_id = ?").all(roundId);
+  for (const sub of submissions) {
+    postLedger(sub.team_id, 'payout', -sub.score, {
+      roundId: round.id,
+      submissionId: sub.id,
+      note: `Reversed for correction (was ${round.actual_value})`
+    });
+  }
+
+  reverseLoanRepayments(round);
+
+  // Re-buys, loans and eliminations already handed out stand; only newly bankrupt teams are affected.
+  const economy = getEconomy(round.game_id);
+  db.prepare("UPDATE rounds SET actual_value = ?, settled_at = ? WHERE id = ?").run(actualValue, Date.now(), roundId);
+  applyScores(round, actualValue);
+  repayLoans(round, economy);
+  applyBankruptcyRule(round.game_id, economy);
+});
+
+// Reveals some of a multi-question round's sub-questions. Revealing any of them closes submissions;
+// once the last one is out the round settles like a single-question one. Returns whether it did.
+const settleSubQuestions = db.transaction((roundId: number, answers: { subQuestionId: number, actualValue: number }[]) => {
+  const round = db.prepare("SELECT * FROM rounds WHERE id = ?").get(roundId);
+  if (!round) {
+    throw new SettlementError("Round not found", 404);
+  }
+  if (round.settled_at) {
+    throw new SettlementError("Round has already been revealed", 409);
+  }
+  const now = Date.now();
+  for (const { subQuestionId, actualValue } of answers) {
+    const info = db.prepare(`
+      UPDATE sub_questions SET actual_value = ?, settled_at = ?
+      WHERE id = ? AND round_id = ? AND settled_at IS NULL
+    `).run(actualValue, now, subQuestionId, roundId);
+    if (info.changes === 0) {
+      throw new SettlementError("Sub-question has already been revealed", 409);
+    }
+    applyScores(round, actualValue, subQuestionId);
+  }
+
+  const { pending } = db.prepare("SELECT COUNT(*) as pending FROM sub_questions WHERE round_id = ? AND settled_at IS NULL").get(roundId);
+  if (pending > 0) {
+    db.prepare("UPDATE rounds SET status = 'closed' WHERE id = ?").run(roundId);
+    return false;
+  }
+  db.prepare("UPDATE rounds SET status = 'revealed', settled_at = ? WHERE id = ?").run(now, roundId);
+  const economy = getEconomy(round.game_id);
+  payOutAnswers(round);
+  chargeMandatoryBids(round, economy);
+  repayLoans(round, economy);
+  applyBankruptcyRule(round.game_id, economy);
+  return true;
+});
+
+// Re-scores one sub-question of a revealed multi-question round. Payouts were made per team for
+// the whole round, so those are reversed and paid again rather than just the one answer.
+const resettleSubQuestion = db.transaction((roundId: number, subQuestionId: number, actualValue: number) => {
+  const round = db.prepare("SELECT * FROM rounds WHERE id = ?").get(roundId);
+  const subQuestion = checkCorrectable(round, subQuestionId);
+
+  const totals = db.prepare("SELECT team_id, SUM(score) as score FROM submissions WHERE round_id = ? GROUP BY team_id").all(roundId);
+  for (const { team_id, score } of totals) {
+    postLedger(team_id, 'payout', -score, {
+      roundId: round.id,
+      note: `Reversed for correction (sub-question ${subQuestion.position} was ${subQuestion.actual_value})`
+    });
+  }
+
+  reverseLoanRepayments(round);
+
+  const economy = getEconomy(round.game_id);
+  db.prepare("UPDATE sub_questions SET actual_value = ?, settled_at = ? WHERE id = ?").run(actualValue, Date.now(), subQuestionId);
+  applyScores(round, actualValue, subQuestionId);
+  payOutAnswers(round);
+  repayLoans(round, economy);
+  applyBankruptcyRule(round.game_id, economy);
+});
+
+async function startServer() {
+  const app = express();
+  const PORT = Number(process.env.PORT) || 3000;
+
+  app.use(express.json({ limit: "2mb" }));
+
+  app.post("/api/admin/login", (req, res) => {
+    const { username, password } = req.body;
+    const account = db.prepare("SELECT * FROM admin_accounts WHERE username = ? AND disabled = 0").get(username);
+    if (!account || typeof password !== 'string' || !verifySecret(password, account.password_hash)) {
+      return res.status(401).json({ error: "Incorrect username or password" });
+    }
+    const token = crypto.randomBytes(32).toString("hex");
+    const expiresAt = Date.now() + ADMIN_SESSION_TTL_MS;
+    db.prepare("INSERT INTO admin_sessions (token_hash, account_id, created_at, expires_at) VALUES (?, ?, ?, ?)")
+      .run(hashToken(token), account.id, Date.now(), expiresAt);
+    recordAudit(account, "login", null);
+    res.json({ token, expiresAt, account: { id: account.id, username: account.username, role: account.role } });
+  });
+
+  // Owners may do everything; other roles only what is listed. No roles means any admin.
+  const requireAdmin = (...roles: AdminRole[]) =>
+    (req: express.Request, res: express.Response, next: express.NextFunction) => {
+      const account = findAdminSession(req.headers['x-admin-token']);
+      if (!account) {
+        return res.status(401).json({ error: "Admin session expired. Please log in again." });
+      }
+      if (account.role !== 'owner' && roles.length > 0 && !roles.includes(account.role)) {
+        return res.status(403).json({ error: `The ${account.role} role cannot do this` });
+      }
+      res.locals.admin = account;
+      next();
+    };
+
+  const adminAuth = requireAdmin();
+  const ownerAuth = requireAdmin('owner');
+  const hostAuth = requireAdmin('host');
+  const scorekeeperAuth = requireAdmin('scorekeeper');
+
+  app.post("/api/admin/logout", adminAuth, (req, res) => {
+    db.prepare("UPDATE admin_sessions SET revoked_at = ? WHERE token_hash = ?")
+      .run(Date.now(), hashToken(String(req.headers['x-admin-token'])));
+    forgetAdminSockets(res.locals.admin.id);
+    res.json({ success: true });
+  });
+
+  app.get("/api/admin/me", adminAuth, (req, res) => {
+    res.json(res.locals.admin);
+  });
+
+  app.get("/api/admin/accounts", ownerAuth, (req, res) => {
+    const accounts = db.prepare(`
+      SELECT a.id, a.username, a.role, a.disabled, a.created_at,
+        (SELECT COUNT(*) FROM admin_sessions s
+         WHERE s.account_id = a.id AND s.revoked_at IS NULL AND s.expires_at > ?) as active_sessions
+      FROM admin_accounts a
+      ORDER BY a.id
+    `).all(Date.now());
+    res.json(accounts);
+  });
+
+  app.post("/api/admin/accounts", ownerAuth, (req, res) => {
+    const { username, password, role } = req.body;
+    if (!username || typeof password !== 'string' || password.length < 8) {
+      return res.status(400).json({ error: "Username and a password of at least 8 characters are required" });
+    }
+    if (!ADMIN_ROLES.includes(role)) {
+      return res.status(400).json({ error: "Unknown role" });
+    }
+    try {
+      const info = db.prepare("INSERT INTO admin_accounts (username, password_hash, role, created_at) VALUES (?, ?, ?, ?)")
+        .run(username, hashSecret(password), role, Date.now());
+      recordAudit(res.locals.admin, "account.create", null, { username, role });
+      res.json({ id: info.lastInsertRowid, username, role, disabled: 0 });
+    } catch (e) {
+      res.status(400).json({ error: "An account with that username already exists" });
+    }
+  });
+
+  app.put("/api/admin/accounts/:id", ownerAuth, (req, res) => {
+    const account = db.prepare("SELECT * FROM admin_accounts WHERE id = ?").get(req.params.id);
+    if (!account) {
+      return res.status(404).json({ error: "Account not found" });
+    }
+    const role = req.body.role ?? account.role;
+    const disabled = req.body.disabled === undefined ? account.disabled : (req.body.disabled ? 1 : 0);
+    const { password } = req.body;
+    if (!ADMIN_ROLES.includes(role)) {
+      return res.status(400).json({ error: "Unknown role" });
+    }
+    if (password !== undefined && (typeof password !== 'string' || password.length < 8)) {
+      return res.status(400).json({ error: "Password must be at least 8 characters" });
+    }
+    const otherOwners = db.prepare("SELECT COUNT(*) as count FROM admin_accounts WHERE role = 'owner' AND disabled = 0 AND id != ?")
+      .get(account.id).count;
+    if (account.role === 'owner' && (role !== 'owner' || disabled) && otherOwners === 0) {
+      return res.status(400).json({ error: "At least one active owner is required" });
+    }
+
+    db.transaction(() => {
+      db.prepare("UPDATE admin_accounts SET role = ?, disabled = ? WHERE id = ?").run(role, disabled, account.id);
+      if (password !== undefined) {
+        db.prepare("UPDATE admin_accounts SET password_hash = ? WHERE id = ?").run(hashSecret(password), account.id);
+      }
+      if (disabled || password !== undefined) {
+        db.prepare("UPDATE admin_sessions SET revoked_at = ? WHERE account_id = ? AND revoked_at IS NULL").run(Date.now(), account.id);
+      }
+    })();
+    if (disabled || password !== undefined) {
+      forgetAdminSockets(account.id);
+    }
+    recordAudit(res.locals.admin, "account.update", null, {
+      username: account.username,
+      role,
+      disabled: !!disabled,
+      passwordChanged: password !== undefined
+    });
+    res.json({ id: account.id, username: account.username, role, disabled });
+  });
+
+  app.post("/api/admin/accounts/:id/revoke", ownerAuth, (req, res) => {
+    const info = db.prepare("UPDATE admin_sessions SET revoked_at = ? WHERE account_id = ? AND revoked_at IS NULL")
+      .run(Date.now(), req.params.id);
+    forgetAdminSockets(Number(req.params.id));
+    recordAudit(res.locals.admin, "account.revoke_sessions", null, { accountId: Number(req.params.id) });
+    res.json({ revoked: info.changes });
+  });
+
+  const teamAuth = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const team = findTeamSession(req.headers['x-team-token']);
+    if (!team) {
+      return res.status(401).json({ error: "Team session expired. Please rejoin." });
+    }
+    res.locals.team = team;
+    next();
+  };
+
+  // Resolves :gameId into res.locals.game for game-scoped routes.
+  const withGame = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const game = getGame(Number(req.params.gameId));
+    if (!game) {
+      return res.status(404).json({ error: "Game not found" });
+    }
+    res.locals.game = game;
+    next();
+  };
+
+  app.get("/api/games/code/:joinCode", (req, res) => {
+    const game = db.prepare("SELECT * FROM games WHERE join_code = ?").get(req.params.joinCode.toUpperCase());
+    if (!game) {
+      return res.status(404).json({ error: "No game with that join code" });
+    }
+    res.json(game);
+  });
+
+  app.get("/api/admin/games", adminAuth, (req, res) => {
+    const games = db.prepare(`
+      SELECT g.*, (SELECT COUNT(*) FROM teams t WHERE t.game_id = g.id AND t.removed_at IS NULL) as team_count
+      FROM games g
+      ORDER BY g.status = 'archived', g.id DESC
+    `).all();
+    res.json(games);
+  });
+
+  app.post("/api/admin/games", ownerAuth, (req, res) => {
+    const { name } = req.body;
+    if (!name) {
+      return res.status(400).json({ error: "Name is required" });
+    }
+    const game = createGame(name);
+    recordAudit(res.locals.admin, "game.create", game.id, { name });
+    res.json(game);
+  });
+
+  app.post("/api/admin/games/:gameId/archive", ownerAuth, withGame, (req, res) => {
+    const { game } = res.locals;
+    db.prepare("UPDATE games SET status = 'archived' WHERE id = ?").run(game.id);
+    recordAudit(res.locals.admin, "game.archive", game.id);
+    broadcast(game.id, { type: "GAME_ARCHIVED", gameId: game.id });
+    res.json(getGame(game.id));
+  });
+
+  app.post("/api/admin/games/:gameId/restore", ownerAuth, withGame, (req, res) => {
+    db.prepare("UPDATE games SET status = 'active' WHERE id = ?").run(res.locals.game.id);
+    recordAudit(res.locals.admin, "game.restore", res.locals.game.id);
+    res.json(getGame(res.locals.game.id));
+  });
+
+  app.get("/api/games/:gameId/settings", withGame, (req, res) => {
+    res.json(getGameSettings(res.locals.game.id));
+  });
+
+  app.post("/api/admin/games/:gameId/settings", ownerAuth, withGame, (req, res) => {
+    const { key } = req.body;
+    let { value } = req.body;
+    const { game } = res.locals;
+    if (key === "leaderboard_freeze") {
+      return res.status(400).json({ error: "Use the leaderboard freeze controls" });
+    }
+    // Structured settings are stored as JSON and checked here, since submissions and settlement rely on them.
+    const validate = JSON_SETTINGS[key];
+    if (validate) {
+      let parsed: unknown;
+      try {
+        parsed = typeof value === "string" ? JSON.parse(value) : value;
+      } catch {
+        return res.status(400).json({ error: `${key} must be JSON` });
+      }
+      const problem = validate(parsed);
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+      value = JSON.stringify(parsed);
+    }
+    db.prepare("INSERT OR REPLACE INTO game_settings (game_id, key, value) VALUES (?, ?, ?)").run(game.id, key, value);
+    recordAudit(res.locals.admin, "settings.update", game.id, { key, value });
+    broadcast(game.id, { type: "SETTINGS_UPDATED", key, value });
+    res.json({ success: true });
+  });
+
+  app.get("/api/scoring-rules", (req, res) => {
+    const rules = db.prepare("SELECT * FROM scoring_rules ORDER BY id").all();
+    res.json(rules.map(parseScoringRule));
+  });
+
+  app.post("/api/admin/scoring-rules", ownerAuth, (req, res) => {
+    const { name, definition } = req.body;
+    const problem = !name ? "Name is required" : validateScoringDefinition(definition);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+    try {
+      const info = db.prepare("INSERT INTO scoring_rules (name, definition) VALUES (?, ?)")
+        .run(name, JSON.stringify(definition));
+      recordAudit(res.locals.admin, "scoring_rule.create", null, { id: info.lastInsertRowid, name });
+      broadcast(null, { type: "SCORING_RULES_UPDATED" });
+      res.json({ id: info.lastInsertRowid, name, definition });
+    } catch (e) {
+      res.status(400).json({ error: "A rule set with that name already exists" });
+    }
+  });
+
+  app.put("/api/admin/scoring-rules/:id", ownerAuth, (req, res) => {
+    const { name, definition } = req.body;
+    const problem = !name ? "Name is required" : validateScoringDefinition(definition);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+    try {
+      const info = db.prepare("UPDATE scoring_rules SET name = ?, definition = ? WHERE id = ?")
+        .run(name, JSON.stringify(definition), req.params.id);
+      if (info.changes === 0) {
+        return res.status(404).json({ error: "Rule set not found" });
+      }
+      recordAudit(res.locals.admin, "scoring_rule.update", null, { id: Number(req.params.id), name });
+      broadcast(null, { type: "SCORING_RULES_UPDATED" });
+      res.json({ id: Number(req.params.id), name, definition });
+    } catch (e) {
+      res.status(400).json({ error: "A rule set with that name already exists" });
+    }
+  });
+
+  app.delete("/api/admin/scoring-rules/:id", ownerAuth, (req, res) => {
+    const inUse = db.prepare("SELECT id FROM rounds WHERE scoring_rule_id = ? LIMIT 1").get(req.params.id);
+    if (inUse) {
+      return res.status(400).json({ error: "Rule set is used by an existing round" });
+    }
+    const isDefault = db.prepare("SELECT game_id FROM game_settings WHERE key = 'default_scoring_rule_id' AND value = ?")
+      .get(String(req.params.id));
+    if (isDefault) {
+      return res.status(400).json({ error: "Cannot delete a game's default rule set" });
+    }
+    db.prepare("DELETE FROM scoring_rules WHERE id = ?").run(req.params.id);
+    recordAudit(res.locals.admin, "scoring_rule.delete", null, { id: Number(req.params.id) });
+    broadcast(null, { type: "SCORING_RULES_UPDATED" });
+    res.json({ success: true });
+  });
+
+  app.get("/api/games/:gameId/teams", withGame, (req, res) => {
+    res.json(getPublicStandings(res.locals.game.id));
+  });
+
+  app.get("/api/admin/games/:gameId/standings", adminAuth, withGame, (req, res) => {
+    res.json(getStandings(res.locals.game.id));
+  });
+
+  // Freezing keeps the public board as it is now while play goes on; admins still see the real one.
+  app.post("/api/admin/games/:gameId/leaderboard/freeze", hostAuth, withGame, (req, res) => {
+    const { game } = res.locals;
+    const rounds = req.body?.rounds;
+    if (!Number.isInteger(rounds) || rounds < 1) {
+      return res.status(400).json({ error: "Say how many final rounds to freeze for" });
+    }
+    if (getLeaderboardFreeze(game.id)) {
+      return res.status(400).json({ error: "The leaderboard is already frozen" });
+    }
+    const freeze: LeaderboardFreeze = { rounds, roundsStarted: 0, frozenAt: Date.now(), standings: getStandings(game.id) };
+    db.prepare("INSERT OR REPLACE INTO game_settings (game_id, key, value) VALUES (?, 'leaderboard_freeze', ?)")
+      .run(game.id, JSON.stringify(freeze));
+    recordAudit(res.locals.admin, "leaderboard.freeze", game.id, { rounds });
+    broadcast(game.id, { type: "LEADERBOARD_FROZEN", rounds, frozenAt: freeze.frozenAt });
+    res.json({ success: true });
+  });
+
+  app.post("/api/admin/games/:gameId/leaderboard/unfreeze", hostAuth, withGame, (req, res) => {
+    const { game } = res.locals;
+    if (!unfreezeLeaderboard(game.id)) {
+      return res.status(400).json({ error: "The leaderboard is not frozen" });
+    }
+    recordAudit(res.locals.admin, "leaderboard.unfreeze", game.id);
+    res.json({ success: true });
+  });
+
+  // Shows everyone the real standings again. Returns false if the board was not frozen.
+  function unfreezeLeaderboard(gameId: number) {
+    const info = db.prepare("DELETE FROM game_settings WHERE game_id = ? AND key = 'leaderboard_freeze'").run(gameId);
+    if (info.changes === 0) return false;
+    broadcast(gameId, { type: "LEADERBOARD_UNFROZEN", teams: getStandings(gameId) });
+    return true;
+  }
+
+  // Creates the team with the given PIN, or signs back in to an existing team
+  // with the same name (ignoring case and surrounding spaces) if the PIN matches.
+  app.post("/api/teams/join", (req, res) => {
+    const { joinCode, pin } = req.body;
+    const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+    const game = db.prepare("SELECT * FROM games WHERE join_code = ?").get(String(joinCode ?? '').toUpperCase());
+    if (!game) {
+      return res.status(404).json({ error: "No game with that join code" });
+    }
+    if (game.status !== 'active') {
+      return res.status(400).json({ error: "This game has been archived" });
+    }
+    if (!name) {
+      return res.status(400).json({ error: "Team name is required" });
+    }
+    if (!isValidPin(pin)) {
+      return res.status(400).json({ error: "PIN must be 4 to 8 digits" });
+    }
+
+    const existing = db.prepare("SELECT * FROM teams WHERE game_id = ? AND name = ? COLLATE NOCASE ORDER BY id").get(game.id, name);
+    if (existing) {
+      if (existing.banned_at) {
+        return res.status(403).json({ error: "This team has been banned from the game" });
+      }
+      // Teams from before PINs existed are claimed by whoever rejoins first.
+      if (!existing.pin_hash) {
+        db.prepare("UPDATE teams SET pin_hash = ? WHERE id = ?").run(hashSecret(pin), existing.id);
+      } else if (!verifySecret(pin, existing.pin_hash)) {
+        return res.status(401).json({ error: "Incorrect PIN for this team" });
+      }
+      // A removed team that was not banned may come back with its PIN, balance and history intact.
+      if (existing.removed_at) {
+        db.transaction(() => {
+          db.prepare("UPDATE teams SET removed_at = NULL WHERE id = ?").run(existing.id);
+          postLedger(existing.id, 'notice', 0, { note: "Rejoined after being removed" });
+        })();
+        broadcast(game.id, { type: "TEAMS_UPDATED" });
+      }
+      const { pin_hash, ...team } = { ...existing, removed_at: null };
+      return res.json({ ...team, token: issueTeamToken(existing.id) });
+    }
+
+    try {
+      const { pin_hash, ...team } = joinTeam(game.id, name, pin);
+      res.json({ ...team, token: issueTeamToken(team.id) });
+    } catch (e) {
+      res.status(400).json({ error: "Failed to join" });
+    }
+  });
+
+  app.post("/api/teams/logout", teamAuth, (req, res) => {
+    db.prepare("DELETE FROM team_sessions WHERE token_hash = ?").run(hashToken(String(req.headers['x-team-token'])));
+    res.json({ success: true });
+  });
+
+  // Lost device: issue a fresh PIN and sign out every existing session of the team.
+  app.post("/api/admin/teams/:id/credentials", scorekeeperAuth, (req, res) => {
+    const team = db.prepare("SELECT * FROM teams WHERE id = ?").get(req.params.id);
+    if (!team) {
+      return res.status(404).json({ error: "Team not found" });
+    }
+    const pin = crypto.randomInt(0, 1000000).toString().padStart(6, "0");
+    db.transaction(() => {
+      db.prepare("UPDATE teams SET pin_hash = ? WHERE id = ?").run(hashSecret(pin), team.id);
+      db.prepare("DELETE FROM team_sessions WHERE team_id = ?").run(team.id);
+    })();
+    recordAudit(res.locals.admin, "team.reset_credentials", team.game_id, { teamId: team.id, team: team.name });
+    sendToTeam(team.id, { type: "TEAM_CREDENTIALS_RESET", teamId: team.id });
+    forgetTeamSockets((teamId) => teamId === team.id);
+    res.json({ teamId: team.id, pin });
+  });
+
+  // Admin actions on a single team. Each one is recorded in the audit log and, as a ledger
+  // entry, in the team's own history.
+  const TEAM_COLUMNS = "id, game_id, name, balance, eliminated_at, rebuys, debt, removed_at, banned_at";
+
+  function findTeam(id: unknown, res: express.Response) {
+    const team = db.prepare("SELECT * FROM teams WHERE id = ?").get(Number(id));
+    if (!team) {
+      res.status(404).json({ error: "Team not found" });
+    }
+    return team;
+  }
+
+  function publishTeamChange(team: { id: number, game_id: number }) {
+    sendToTeam(team.id, { type: "TEAM_UPDATED", team: db.prepare(`SELECT ${TEAM_COLUMNS} FROM teams WHERE id = ?`).get(team.id) });
+    broadcast(team.game_id, { type: "TEAMS_UPDATED" });
+  }
+
+  // Every team of the game, removed ones included, for the team management panel.
+  app.get("/api/admin/games/:gameId/teams", adminAuth, withGame, (req, res) => {
+    res.json(db.prepare(`SELECT ${TEAM_COLUMNS} FROM teams WHERE game_id = ? ORDER BY name COLLATE NOCASE`).all(res.locals.game.id));
+  });
+
+  app.post("/api/admin/teams/:id/rename", hostAuth, (req, res) => {
+    const team = findTeam(req.params.id, res);
+    if (!team) return;
+    const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+    if (!name) {
+      return res.status(400).json({ error: "Team name is required" });
+    }
+    if (name === team.name) {
+      return res.status(400).json({ error: "The team already has that name" });
+    }
+    if (db.prepare("SELECT id FROM teams WHERE game_id = ? AND name = ? COLLATE NOCASE AND id != ?").get(team.game_id, name, team.id)) {
+      return res.status(409).json({ error: "Another team already has that name; merge the two teams instead" });
+    }
+    db.transaction(() => {
+      db.prepare("UPDATE teams SET name = ? WHERE id = ?").run(name, team.id);
+      postLedger(team.id, 'notice', 0, { note: `Renamed from ${team.name} to ${name}` });
+    })();
+    updateFrozenStandings(team.game_id, (standings) => standings.map((t) => t.id === team.id ? { ...t, name } : t));
+    recordAudit(res.locals.admin, "team.rename", team.game_id, { teamId: team.id, from: team.name, to: name });
+    publishTeamChange(team);
+    res.json({ success: true });
+  });
+
+  app.post("/api/admin/teams/:id/adjust", scorekeeperAuth, (req, res) => {
+    const team = findTeam(req.params.id, res);
+    if (!team) return;
+    const amount = Number(req.body.amount);
+    const reason = typeof req.body.reason === "string" ? req.body.reason.trim() : "";
+    if (!Number.isFinite(amount) || amount === 0) {
+      return res.status(400).json({ error: "Adjustment must be a non-zero number of coins" });
+    }
+    if (!reason) {
+      return res.status(400).json({ error: "A reason is required for balance adjustments" });
+    }
+    if (team.removed_at) {
+      return res.status(400).json({ error: "This team has been removed from the game" });
+    }
+    if (team.balance + amount < 0) {
+      return res.status(400).json({ error: `${team.name} only has ${team.balance} coins` });
+    }
+    db.transaction(() => postLedger(team.id, 'adjustment', amount, { note: reason }))();
+    recordAudit(res.locals.admin, "team.adjust", team.game_id, { teamId: team.id, team: team.name, amount, reason });
+    publishTeamChange(team);
+    res.json({ success: true });
+  });
+
+  app.post("/api/admin/teams/:id/merge", hostAuth, (req, res) => {
+    const source = findTeam(req.params.id, res);
+    if (!source) return;
+    const target = db.prepare("SELECT * FROM teams WHERE id = ?").get(Number(req.body.intoTeamId));
+    if (!target || target.game_id !== source.game_id) {
+      return res.status(400).json({ error: "Choose a team in the same game to merge into" });
+    }
+    if (target.id === source.id) {
+      return res.status(400).json({ error: "A team cannot be merged into itself" });
+    }
+    if (source.removed_at || target.removed_at) {
+      return res.status(400).json({ error: "Reinstate removed teams before merging them" });
+    }
+    // A merged team can hold only one bet per round, or its history and stats would count both.
+    const contested = db.prepare(`
+      SELECT r.id FROM rounds r
+      WHERE r.game_id = ?
+        AND EXISTS (SELECT 1 FROM submissions s WHERE s.round_id = r.id AND s.team_id = ?)
+        AND EXISTS (SELECT 1 FROM submissions s WHERE s.round_id = r.id AND s.team_id = ?)
+    `).get(source.game_id, source.id, target.id);
+    if (contested) {
+      return res.status(409).json({ error: "Both teams bet on the same round, so their histories cannot be combined" });
+    }
+    mergeTeams(source, target);
+    clients.forEach((client) => {
+      if (client.teamId === source.id) client.teamId = target.id;
+    });
+    recordAudit(res.locals.admin, "team.merge", source.game_id, {
+      teamId: target.id, team: target.name, mergedTeamId: source.id, merged: source.name
+    });
+    publishTeamChange(target);
+    res.json({ success: true });
+  });
 
-  CREATE TABLE IF NOT EXISTS rounds (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    theme TEXT,
-    actual_value REAL,
-    status TEXT DEFAULT 'open'
-  );
+  // Removing signs the team out and takes it off the leaderboard; it can rejoin with its PIN
+  // unless it was banned.
+  app.post("/api/admin/teams/:id/remove", hostAuth, (req, res) => {
+    const team = findTeam(req.params.id, res);
+    if (!team) return;
+    const banned = req.body.ban === true;
+    const reason = typeof req.body.reason === "string" && req.body.reason.trim() ? req.body.reason.trim() : null;
+    if (team.banned_at || (team.removed_at && !banned)) {
+      return res.status(400).json({ error: `${team.name} has already been ${team.banned_at ? "banned" : "removed"}` });
+    }
+    const now = Date.now();
+    db.transaction(() => {
+      db.prepare("UPDATE teams SET removed_at = COALESCE(removed_at, ?), banned_at = ? WHERE id = ?")
+        .run(now, banned ? now : null, team.id);
+      db.prepare("DELETE FROM team_sessions WHERE team_id = ?").run(team.id);
+      postLedger(team.id, 'notice', 0, { note: `${banned ? "Banned" : "Removed"} by the host${reason ? `: ${reason}` : ""}` });
+    })();
+    recordAudit(res.locals.admin, banned ? "team.ban" : "team.remove", team.game_id, { teamId: team.id, team: team.name, reason });
+    sendToTeam(team.id, { type: "TEAM_REMOVED", teamId: team.id, banned, reason });
+    forgetTeamSockets((teamId) => teamId === team.id);
+    broadcast(team.game_id, { type: "TEAMS_UPDATED" });
+    res.json({ success: true });
+  });
 
-  CREATE TABLE IF NOT EXISTS settings (
-    key TEXT PRIMARY KEY,
-    value TEXT
-  );
+  // Lifts a removal or ban; the team signs back in with its PIN.
+  app.post("/api/admin/teams/:id/reinstate", hostAuth, (req, res) => {
+    const team = findTeam(req.params.id, res);
+    if (!team) return;
+    if (!team.removed_at) {
+      return res.status(400).json({ error: `${team.name} is still in the game` });
+    }
+    db.transaction(() => {
+      db.prepare("UPDATE teams SET removed_at = NULL, banned_at = NULL WHERE id = ?").run(team.id);
+      postLedger(team.id, 'notice', 0, { note: "Reinstated by the host" });
+    })();
+    recordAudit(res.locals.admin, "team.reinstate", team.game_id, { teamId: team.id, team: team.name });
+    broadcast(team.game_id, { type: "TEAMS_UPDATED" });
+    res.json({ success: true });
+  });
 
-  CREATE TABLE IF NOT EXISTS submissions (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    team_id INTEGER,
-    round_id INTEGER,
-    predicted_value REAL,
-    bid_amount REAL,
-    score REAL DEFAULT 0,
-    error_percent REAL,
-    FOREIGN KEY(team_id) REFERENCES teams(id),
-    FOREIGN KEY(round_id) REFERENCES rounds(id)
-  );
 
-  INSERT OR IGNORE INTO settings (key, value) VALUES ('game_title', 'DATA PARADOX');
-`);
+  // Rounds move open -> closed -> revealed. A closed round can be reopened until it is revealed.
+  // deadline_at is epoch ms; clients use server_time to correct for clock skew in their countdown.
+  const lockTimers = new Map<number, NodeJS.Timeout>();
 
-async function startServer() {
-  const app = express();
-  const PORT = 3000;
+  function getRound(id: number | bigint) {
+    const round = db.prepare("SELECT * FROM rounds WHERE id = ?").get(id);
+    return round && { ...round, ...parseRoundFormat(round), hints: getHintOffers(round.id), sub_questions: getSubQuestions(round.id) };
+  }
 
-  app.use(express.json());
+  function scheduleAutoLock(round: any) {
+    clearTimeout(lockTimers.get(round.id));
+    lockTimers.delete(round.id);
+    if (round.status !== 'open' || !round.deadline_at) return;
+    lockTimers.set(round.id, setTimeout(() => lockRound(round.id), Math.max(0, round.deadline_at - Date.now())));
+  }
 
-  app.post("/api/admin/login", (req, res) => {
-    const { password } = req.body;
-    const correctPassword = process.env.ADMIN_PASSWORD || 'admin123';
-    if (password === correctPassword) {
-      res.json({ success: true });
-    } else {
-      res.status(401).json({ error: "Incorrect password" });
+  function lockRound(id: number) {
+    const info = db.prepare("UPDATE rounds SET status = 'closed' WHERE id = ? AND status = 'open'").run(id);
+    clearTimeout(lockTimers.get(id));
+    lockTimers.delete(id);
+    if (info.changes > 0) {
+      const round = getRound(id);
+      broadcast(round.game_id, { type: "ROUND_UPDATED", round, serverTime: Date.now() });
     }
-  });
+    return info.changes > 0;
+  }
 
-  const adminAuth = (req: express.Request, res: express.Response, next: express.NextFunction) => {
-    const password = req.headers['x-admin-password'];
-    const correctPassword = process.env.ADMIN_PASSWORD || 'admin123';
-    if (password === correctPassword) {
-      next();
-    } else {
-      res.status(401).json({ error: "Unauthorized" });
-    }
+  const deadlineFrom = (durationSeconds: unknown) => {
+    const seconds = Number(durationSeconds);
+    return durationSeconds != null && durationSeconds !== '' && seconds > 0 ? Date.now() + seconds * 1000 : null;
   };
 
-  app.get("/api/settings", (req, res) => {
-    const settings = db.prepare("SELECT * FROM settings").all();
-    const result = settings.reduce((acc: any, curr: any) => {
-      acc[curr.key] = curr.value;
-      return acc;
-    }, {});
-    res.json(result);
-  });
+  for (const round of db.prepare("SELECT * FROM rounds WHERE status = 'open' AND deadline_at IS NOT NULL").all()) {
+    scheduleAutoLock(round);
+  }
 
-  app.post("/api/admin/settings", adminAuth, (req, res) => {
-    const { key, value } = req.body;
-    db.prepare("INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)").run(key, value);
-    broadcast({ type: "SETTINGS_UPDATED", key, value });
-    res.json({ success: true });
+  app.get("/api/games/:gameId/rounds/current", withGame, (req, res) => {
+    const round = getCurrentRound(res.locals.game.id);
+    res.json(round ? { ...round, server_time: Date.now() } : null);
   });
 
-  app.get("/api/teams", (req, res) => {
-    const teams = db.prepare("SELECT * FROM teams ORDER BY balance DESC").all();
-    res.json(teams);
+  // Shared by the free-text and question queue start endpoints. Returns an error message
+  // instead of a round when the request can't be honoured.
+  function startRound(
+    game: any,
+    content: {
+      theme: string,
+      questionId?: number,
+      question?: string,
+      unit?: string | null,
+      description?: string | null,
+      subQuestions?: unknown
+    },
+    body: { scoringRuleId?: number, durationSeconds?: unknown, type?: unknown, options?: unknown, line?: unknown }
+  ): { round?: any, error?: string } {
+    if (game.status !== 'active') {
+      return { error: "This game has been archived" };
+    }
+    const formatInput = { type: body.type ?? 'point', options: body.options, line: body.line };
+    const formatProblem = validateRoundFormat(formatInput);
+    if (formatProblem) {
+      return { error: formatProblem };
+    }
+    const format = normalizeRoundFormat(formatInput);
+    let subQuestions: SubQuestionInput[] | null = null;
+    if (content.subQuestions != null) {
+      if (!validateSubQuestions(content.subQuestions)) {
+        return { error: subQuestionProblem(content.subQuestions)! };
+      }
+      if (format.type !== 'point') {
+        return { error: "Sub-questions are point estimates, so a multi-question round cannot have another type" };
+      }
+      subQuestions = content.subQuestions;
+    }
+    const defaultRule = getGameSettings(game.id).default_scoring_rule_id;
+    const ruleId = body.scoringRuleId ?? (defaultRule ? Number(defaultRule) : null);
+    if (ruleId != null && !db.prepare("SELECT id FROM scoring_rules WHERE id = ?").get(ruleId)) {
+      return { error: "Unknown scoring rule set" };
+    }
+    // A freeze covers only the rounds it was set for, so one more round lifts it.
+    const freeze = getLeaderboardFreeze(game.id);
+    if (freeze && freeze.roundsStarted >= freeze.rounds) {
+      unfreezeLeaderboard(game.id);
+    } else if (freeze) {
+      db.prepare("UPDATE game_settings SET value = ? WHERE game_id = ? AND key = 'leaderboard_freeze'")
+        .run(JSON.stringify({ ...freeze, roundsStarted: freeze.roundsStarted + 1 }), game.id);
+    }
+    for (const roundId of voidUnsettledRounds(game.id)) {
+      clearTimeout(lockTimers.get(roundId));
+      lockTimers.delete(roundId);
+    }
+    const info = db.prepare(`
+      INSERT INTO rounds (game_id, theme, scoring_rule_id, deadline_at, question_id, question, unit, description, type, options, line)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      game.id,
+      content.theme,
+      ruleId,
+      deadlineFrom(body.durationSeconds),
+      content.questionId ?? null,
+      content.question ?? null,
+      content.unit ?? null,
+      content.description ?? null,
+      format.type,
+      format.options && JSON.stringify(format.options),
+      format.line
+    );
+    if (subQuestions) {
+      const insert = db.prepare("INSERT INTO sub_questions (round_id, position, question, unit) VALUES (?, ?, ?, ?)");
+      normalizeSubQuestions(subQuestions).forEach((q, i) => insert.run(info.lastInsertRowid, i + 1, q.question, q.unit));
+    }
+    const round = getRound(info.lastInsertRowid);
+    scheduleAutoLock(round);
+    broadcast(game.id, { type: "ROUND_STARTED", round, serverTime: Date.now() });
+    return { round };
+  }
+
+  app.post("/api/admin/games/:gameId/rounds", hostAuth, withGame, (req, res) => {
+    const { theme, subQuestions } = req.body;
+    const { game } = res.locals;
+    const { round, error } = startRound(game, { theme, subQuestions }, req.body);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    recordAudit(res.locals.admin, "round.start", game.id, { roundId: round.id, theme });
+    res.json(round);
   });
 
-  app.post("/api/teams/join", (req, res) => {
-    const { name } = req.body;
-    try {
-      const info = db.prepare("INSERT INTO teams (name) VALUES (?)").run(name);
-      res.json({ id: info.lastInsertRowid, name, balance: 2000 });
-    } catch (e) {
-      const team = db.prepare("SELECT * FROM teams WHERE name = ?").get(name);
-      if (team) {
-        res.json(team);
-      } else {
-        res.status(400).json({ error: "Failed to join" });
-      }
+  // Starts a round from the first queue entry that hasn't been played yet.
+  app.post("/api/admin/games/:gameId/rounds/next", hostAuth, withGame, (req, res) => {
+    const { game } = res.locals;
+    const entry = db.prepare(`
+      SELECT q.*, g.id as entry_id
+      FROM game_queue g JOIN questions q ON g.question_id = q.id
+      WHERE g.game_id = ? AND g.round_id IS NULL
+      ORDER BY g.position, g.id
+      LIMIT 1
+    `).get(game.id);
+    if (!entry) {
+      return res.status(400).json({ error: "The question queue is empty" });
     }
+    const { round, error } = startRound(game, {
+      theme: entry.theme,
+      questionId: entry.id,
+      question: entry.question,
+      unit: entry.unit,
+      description: entry.description
+    }, req.body);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    db.prepare("UPDATE game_queue SET round_id = ? WHERE id = ?").run(round.id, entry.entry_id);
+    recordAudit(res.locals.admin, "round.start", game.id, { roundId: round.id, theme: entry.theme, questionId: entry.id });
+    res.json(round);
   });
 
-  app.get("/api/rounds/current", (req, res) => {
-    const round = db.prepare("SELECT * FROM rounds ORDER BY id DESC LIMIT 1").get();
-    res.json(round || null);
+  app.post("/api/admin/rounds/:id/lock", hostAuth, (req, res) => {
+    const round = getRound(Number(req.params.id));
+    if (!round) {
+      return res.status(404).json({ error: "Round not found" });
+    }
+    if (round.status !== 'open') {
+      return res.status(400).json({ error: `Round is already ${round.status}` });
+    }
+    lockRound(round.id);
+    recordAudit(res.locals.admin, "round.lock", round.game_id, { roundId: round.id });
+    res.json(getRound(round.id));
   });
 
-  app.post("/api/admin/rounds", adminAuth, (req, res) => {
-    const { theme } = req.body;
-    db.prepare("UPDATE rounds SET status = 'revealed' WHERE status != 'revealed'").run();
-    const info = db.prepare("INSERT INTO rounds (theme) VALUES (?)").run(theme);
-    broadcast({ type: "ROUND_STARTED", round: { id: info.lastInsertRowid, theme, status: 'open' } });
-    res.json({ id: info.lastInsertRowid, theme });
+  app.post("/api/admin/rounds/:id/reopen", hostAuth, (req, res) => {
+    const round = getRound(Number(req.params.id));
+    if (!round) {
+      return res.status(404).json({ error: "Round not found" });
+    }
+    if (round.status !== 'closed') {
+      return res.status(400).json({ error: "Only closed rounds can be reopened" });
+    }
+    if (isPartlyRevealed(round)) {
+      return res.status(409).json({ error: "Some answers to this round are already revealed, so it cannot be reopened" });
+    }
+    db.prepare("UPDATE rounds SET status = 'open', deadline_at = ? WHERE id = ?")
+      .run(deadlineFrom(req.body.durationSeconds), round.id);
+    const updated = getRound(round.id);
+    scheduleAutoLock(updated);
+    recordAudit(res.locals.admin, "round.reopen", round.game_id, { roundId: round.id, deadlineAt: updated.deadline_at });
+    broadcast(updated.game_id, { type: "ROUND_UPDATED", round: updated, serverTime: Date.now() });
+    res.json(updated);
   });
 
-  app.post("/api/submissions", (req, res) => {
-    const { teamId, roundId, predictedValue, bidAmount } = req.body;
+  app.post("/api/admin/rounds/:id/deadline", hostAuth, (req, res) => {
+    const round = getRound(Number(req.params.id));
+    if (!round) {
+      return res.status(404).json({ error: "Round not found" });
+    }
+    if (round.status !== 'open') {
+      return res.status(400).json({ error: "Deadlines can only be set on open rounds" });
+    }
+    db.prepare("UPDATE rounds SET deadline_at = ? WHERE id = ?").run(deadlineFrom(req.body.durationSeconds), round.id);
+    const updated = getRound(round.id);
+    scheduleAutoLock(updated);
+    recordAudit(res.locals.admin, "round.deadline", round.game_id, { roundId: round.id, deadlineAt: updated.deadline_at });
+    broadcast(updated.game_id, { type: "ROUND_UPDATED", round: updated, serverTime: Date.now() });
+    res.json(updated);
+  });
 
-    const team = db.prepare("SELECT balance FROM teams WHERE id = ?").get(teamId);
-    if (!team || team.balance < bidAmount) {
-      return res.status(400).json({ error: "Insufficient balance" });
+  // The multi-question half of POST /api/submissions: one answer and bid per sub-question, with the
+  // bid limits applied to the bids together.
+  function submitAnswers(req: express.Request, res: express.Response, round: any) {
+    const { team } = res.locals;
+    const { answers, error } = normalizeAnswers(round.sub_questions.map((q: any) => q.id), req.body.answers);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    const bidProblem = validateStake(getEconomy(round.game_id), team.balance, answers!.map((answer) => answer.bidAmount));
+    if (bidProblem) {
+      return res.status(400).json({ error: bidProblem });
+    }
+    const bidAmount = answers!.reduce((total, answer) => total + answer.bidAmount, 0);
+    if (req.body.powerUp != null) {
+      return res.status(400).json({ error: "Power-ups cannot be played on multi-question rounds" });
     }
 
-    const existing = db.prepare("SELECT id FROM submissions WHERE team_id = ? AND round_id = ?").get(teamId, roundId);
+    placeAnswers(team.id, round.id, answers!);
+
+    const { balance } = db.prepare("SELECT balance FROM teams WHERE id = ?").get(team.id);
+    broadcast(round.game_id, { type: "SUBMISSION_COUNT", roundId: round.id, count: countSubmittedTeams(round.id) });
+    sendToAdmins(round.game_id, {
+      type: "SUBMISSION_RECEIVED",
+      roundId: round.id,
+      teamId: team.id,
+      teamName: team.name,
+      predictedValue: null,
+      intervalLow: null,
+      intervalHigh: null,
+      bidAmount,
+      powerUp: null,
+      answers
+    });
+    sendToTeam(team.id, {
+      type: "SUBMISSION_ACCEPTED",
+      roundId: round.id,
+      predictedValue: null,
+      bidAmount,
+      answers,
+      balance,
+      powerUps: getRemainingPowerUps(round.game_id, team.id)
+    });
+    res.json({ success: true });
+  }
+
+  app.post("/api/submissions", teamAuth, (req, res) => {
+    const { roundId, bidAmount } = req.body;
+    const { team } = res.locals;
+    const teamId = team.id;
+
+    const round = getRound(roundId);
+    if (!round) {
+      return res.status(404).json({ error: "Round not found" });
+    }
+    if (team.game_id !== round.game_id) {
+      return res.status(400).json({ error: "Team is not part of this game" });
+    }
+    // Clients retry queued submissions, so a duplicate (even one retried after the deadline)
+    // answers with what the server already holds.
+    const existing = getOwnSubmission(round.id, teamId);
     if (existing) {
-      return res.status(400).json({ error: "Already submitted for this round" });
+      return res.status(409).json({ error: "Already submitted for this round", submission: existing });
+    }
+    if (round.status !== 'open' || (round.deadline_at && Date.now() > round.deadline_at) || isPartlyRevealed(round)) {
+      return res.status(400).json({ error: "Submissions are closed for this round" });
+    }
+    if (getGame(round.game_id).status !== 'active') {
+      return res.status(400).json({ error: "This game has been archived" });
+    }
+    if (team.eliminated_at) {
+      return res.status(400).json({ error: "Your team has been eliminated" });
+    }
+    if (round.sub_questions.length > 0) {
+      return submitAnswers(req, res, round);
+    }
+    const format = parseRoundFormat(round);
+    const { prediction, error } = normalizePrediction(format, req.body);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    const bidProblem = validateBid(getEconomy(round.game_id), team.balance, bidAmount);
+    if (bidProblem) {
+      return res.status(400).json({ error: bidProblem });
+    }
+
+    const powerUp = req.body.powerUp ?? null;
+    if (powerUp !== null && !isPowerUpKind(powerUp)) {
+      return res.status(400).json({ error: `Unknown power-up: ${powerUp}` });
+    }
+    if (powerUp === 'hedge' && format.type !== 'point') {
+      return res.status(400).json({ error: "Hedge can only be played on point estimate rounds" });
+    }
+    if (powerUp && getRemainingPowerUps(round.game_id, teamId)[powerUp] < 1) {
+      return res.status(400).json({ error: `No ${POWER_UPS[powerUp].name} left to play` });
+    }
+    const hedgeValue = powerUp === 'hedge' ? req.body.hedgeValue : null;
+    if (powerUp === 'hedge' && (typeof hedgeValue !== 'number' || !Number.isFinite(hedgeValue))) {
+      return res.status(400).json({ error: "Hedge needs a second prediction" });
     }
 
-    db.prepare(`
-      INSERT INTO submissions (team_id, round_id, predicted_value, bid_amount)
-      VALUES (?, ?, ?, ?)
-    `).run(teamId, roundId, predictedValue, bidAmount);
+    placeSubmission(teamId, roundId, prediction!, bidAmount, powerUp, hedgeValue);
+    const { predictedValue, intervalLow, intervalHigh } = prediction!;
 
-    broadcast({ type: "SUBMISSION_RECEIVED", teamId });
+    const count = countSubmittedTeams(roundId);
+    const { balance } = db.prepare("SELECT balance FROM teams WHERE id = ?").get(teamId);
+    broadcast(round.game_id, { type: "SUBMISSION_COUNT", roundId, count });
+    sendToAdmins(round.game_id, { type: "SUBMISSION_RECEIVED", roundId, teamId, teamName: team.name, predictedValue, intervalLow, intervalHigh, bidAmount, powerUp });
+    sendToTeam(teamId, {
+      type: "SUBMISSION_ACCEPTED",
+      roundId,
+      predictedValue,
+      intervalLow,
+      intervalHigh,
+      bidAmount,
+      powerUp,
+      hedgeValue,
+      balance,
+      powerUps: getRemainingPowerUps(round.game_id, teamId)
+    });
     res.json({ success: true });
   });
 
-  // 🔥 UPDATED SCORING SYSTEM (20–25% RULE)
-  app.post("/api/admin/rounds/reveal", adminAuth, (req, res) => {
-    const { roundId, actualValue } = req.body;
+  app.post("/api/hints/:id/purchase", teamAuth, (req, res) => {
+    const { team } = res.locals;
+    const hint = db.prepare("SELECT * FROM round_hints WHERE id = ?").get(Number(req.params.id));
+    if (!hint) {
+      return res.status(404).json({ error: "Hint not found" });
+    }
+    const round = getRound(hint.round_id);
+    if (team.game_id !== round.game_id) {
+      return res.status(400).json({ error: "Team is not part of this game" });
+    }
+    const owned = getPurchasedHints(round.id, team.id).find((h) => h.id === hint.id);
+    if (owned) {
+      return res.status(409).json({ error: "You already have this hint", hint: owned });
+    }
+    if (round.status !== 'open' || (round.deadline_at && Date.now() > round.deadline_at)) {
+      return res.status(400).json({ error: "Hints can only be bought while the round is open" });
+    }
+    if (getGame(round.game_id).status !== 'active') {
+      return res.status(400).json({ error: "This game has been archived" });
+    }
+    if (team.eliminated_at) {
+      return res.status(400).json({ error: "Your team has been eliminated" });
+    }
+    if (getOwnSubmission(round.id, team.id)) {
+      return res.status(400).json({ error: "Hints are off the table once you have submitted" });
+    }
+    if (team.balance < hint.price) {
+      return res.status(400).json({ error: "Insufficient balance" });
+    }
+
+    purchaseHint(team.id, hint);
+
+    const purchased: PurchasedHint = { id: hint.id, position: hint.position, price: hint.price, text: hint.text };
+    const { balance } = db.prepare("SELECT balance FROM teams WHERE id = ?").get(team.id);
+    sendToTeam(team.id, { type: "HINT_PURCHASED", roundId: round.id, hint: purchased, balance });
+    sendToAdmins(round.game_id, { type: "HINT_SOLD", roundId: round.id, hintId: hint.id, teamId: team.id, teamName: team.name });
+    res.json({ hint: purchased, balance });
+  });
+
+  app.get("/api/admin/rounds/:id/hints", scorekeeperAuth, (req, res) => {
+    const round = getRound(Number(req.params.id));
+    if (!round) {
+      return res.status(404).json({ error: "Round not found" });
+    }
+    res.json(getHintSales(round.id));
+  });
+
+  // Hints are appended in order; they can be added until the reveal.
+  app.post("/api/admin/rounds/:id/hints", hostAuth, (req, res) => {
+    const round = getRound(Number(req.params.id));
+    if (!round) {
+      return res.status(404).json({ error: "Round not found" });
+    }
+    if (round.status === 'revealed') {
+      return res.status(400).json({ error: "Round has already been revealed" });
+    }
+    const problem = validateHint(req.body);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+    const { position } = db.prepare("SELECT COALESCE(MAX(position), 0) + 1 as position FROM round_hints WHERE round_id = ?").get(round.id);
+    const text = String(req.body.text).trim();
+    db.prepare("INSERT INTO round_hints (round_id, position, text, price, created_at) VALUES (?, ?, ?, ?, ?)")
+      .run(round.id, position, text, req.body.price, Date.now());
+    recordAudit(res.locals.admin, "round.hint_add", round.game_id, { roundId: round.id, position, price: req.body.price });
+    broadcast(round.game_id, { type: "ROUND_UPDATED", round: getRound(round.id), serverTime: Date.now() });
+    res.json(getHintSales(round.id));
+  });
 
-    db.prepare("UPDATE rounds SET actual_value = ?, status = 'revealed' WHERE id = ?")
-      .run(actualValue, roundId);
+  app.delete("/api/admin/hints/:id", hostAuth, (req, res) => {
+    const hint = db.prepare("SELECT * FROM round_hints WHERE id = ?").get(Number(req.params.id));
+    if (!hint) {
+      return res.status(404).json({ error: "Hint not found" });
+    }
+    if (db.prepare("SELECT id FROM hint_purchases WHERE hint_id = ?").get(hint.id)) {
+      return res.status(400).json({ error: "Hint has already been bought and cannot be removed" });
+    }
+    db.prepare("DELETE FROM round_hints WHERE id = ?").run(hint.id);
+    const round = getRound(hint.round_id);
+    recordAudit(res.locals.admin, "round.hint_remove", round.game_id, { roundId: round.id, position: hint.position });
+    broadcast(round.game_id, { type: "ROUND_UPDATED", round, serverTime: Date.now() });
+    res.json(getHintSales(round.id));
+  });
 
-    const submissions = db.prepare("SELECT * FROM submissions WHERE round_id = ?").all(roundId);
+  // Rounds started from the question bank reveal its stored answer unless the host overrides it.
+  const storedAnswer = (roundId: number) => db.prepare(`
+    SELECT q.answer FROM rounds r JOIN questions q ON r.question_id = q.id WHERE r.id = ?
+  `).get(roundId)?.answer;
 
-    for (const sub of submissions) {
+  // Multi-question rounds are revealed a sub-question or more at a time, sent as
+  // answers: [{ subQuestionId, actualValue }]; the round settles with the last one.
+  function revealSubQuestions(req: express.Request, res: express.Response, existing: any) {
+    const { answers } = req.body;
+    if (!Array.isArray(answers) || answers.length === 0) {
+      return res.status(400).json({ error: "Reveal at least one sub-question" });
+    }
+    for (const answer of answers) {
+      if (!existing.sub_questions.some((q: any) => q.id === answer?.subQuestionId)) {
+        return res.status(400).json({ error: "Unknown sub-question" });
+      }
+      const answerProblem = validateAnswer(parseRoundFormat(existing), answer.actualValue);
+      if (answerProblem) {
+        return res.status(400).json({ error: answerProblem });
+      }
+    }
 
-      const error = Math.abs(sub.predicted_value - actualValue);
+    let finished: boolean;
+    try {
+      finished = settleSubQuestions(existing.id, answers.map((a: any) => ({ subQuestionId: a.subQuestionId, actualValue: a.actualValue })));
+    } catch (e) {
+      if (e instanceof SettlementError) {
+        return res.status(e.status).json({ error: e.message });
+      }
+      throw e;
+    }
+    clearTimeout(lockTimers.get(existing.id));
+    lockTimers.delete(existing.id);
 
-      const errorPercent = actualValue === 0
-        ? (sub.predicted_value === 0 ? 0 : 100)
-        : (error / actualValue) * 100;
+    const round = getRound(existing.id);
+    recordAudit(res.locals.admin, "round.reveal", round.game_id, { roundId: round.id, answers });
+    if (!finished) {
+      broadcast(round.game_id, { type: "ROUND_UPDATED", round, serverTime: Date.now() });
+    } else {
+      broadcast(round.game_id, { type: "ROUND_REVEALED", roundId: round.id, actualValue: null, stats: getRoundStats(round) });
+      for (const result of getSettlementResults(round)) {
+        sendToTeam(result.teamId, { type: "SETTLEMENT_RESULT", ...result.result });
+      }
+    }
+    res.json({ success: true, finished });
+  }
 
-      let multiplier = 0;
+  app.post("/api/admin/rounds/reveal", hostAuth, (req, res) => {
+    const { roundId } = req.body;
+    const existing = getRound(roundId);
+    if (!existing) {
+      return res.status(404).json({ error: "Round not found" });
+    }
+    if (existing.sub_questions.length > 0) {
+      return revealSubQuestions(req, res, existing);
+    }
+    // A choice round's answer is an option, which the question bank's number can't stand in for.
+    const format = parseRoundFormat(existing);
+    const actualValue = req.body.actualValue ?? (format.type === 'choice' ? undefined : storedAnswer(roundId));
+    const answerProblem = validateAnswer(format, actualValue);
+    if (answerProblem) {
+      return res.status(400).json({ error: answerProblem });
+    }
 
-      if (errorPercent <= 5) {
-        multiplier = 3;
-      } else if (errorPercent <= 10) {
-        multiplier = 2;
-      } else if (errorPercent <= 20) {
-        multiplier = 1.5;
-      } else if (errorPercent <= 25) {
-        multiplier = 1;
-      } else {
-        multiplier = -1; // Lose full bid
+    try {
+      settleRound(roundId, actualValue);
+    } catch (e) {
+      if (e instanceof SettlementError) {
+        return res.status(e.status).json({ error: e.message });
       }
+      throw e;
+    }
+    clearTimeout(lockTimers.get(roundId));
+    lockTimers.delete(roundId);
+
+    const round = getRound(roundId);
+    recordAudit(res.locals.admin, "round.reveal", round.game_id, { roundId, actualValue });
+    broadcast(round.game_id, { type: "ROUND_REVEALED", roundId, actualValue, stats: getRoundStats(round) });
+    for (const result of getSettlementResults(round)) {
+      sendToTeam(result.teamId, { type: "SETTLEMENT_RESULT", ...result.result });
+    }
+    res.json({ success: true });
+  });
 
-      let finalScore = 0;
+  app.post("/api/admin/rounds/:id/correct", hostAuth, (req, res) => {
+    const roundId = Number(req.params.id);
+    const { actualValue } = req.body;
+    // Multi-question rounds are corrected one sub-question at a time.
+    const subQuestionId = req.body.subQuestionId ?? null;
+    const existing = getRound(roundId);
+    if (!existing) {
+      return res.status(404).json({ error: "Round not found" });
+    }
+    if ((existing.sub_questions.length > 0) !== (subQuestionId !== null)) {
+      return res.status(400).json({ error: subQuestionId === null ? "Choose the sub-question to correct" : "This round has no sub-questions" });
+    }
+    const answerProblem = validateAnswer(parseRoundFormat(existing), actualValue);
+    if (answerProblem) {
+      return res.status(400).json({ error: answerProblem });
+    }
 
-      if (multiplier === -1) {
-        finalScore = 0;
+    try {
+      // Only a correction that will go ahead is worth a snapshot.
+      checkCorrectable(existing, subQuestionId);
+      saveSnapshot(db, existing.game_id, captureGame(db, existing.game_id), "before_correction", {
+        accountId: res.locals.admin.id,
+        label: `Round ${roundId}`
+      });
+      if (subQuestionId !== null) {
+        resettleSubQuestion(roundId, subQuestionId, actualValue);
       } else {
-        finalScore = sub.bid_amount * multiplier;
+        resettleRound(roundId, actualValue);
+      }
+    } catch (e) {
+      if (e instanceof SettlementError) {
+        return res.status(e.status).json({ error: e.message });
       }
+      throw e;
+    }
+
+    const round = getRound(roundId);
+    recordAudit(res.locals.admin, "round.correct", round.game_id, { roundId, subQuestionId, actualValue });
+    broadcast(round.game_id, {
+      type: "ROUND_REVEALED",
+      roundId,
+      actualValue: subQuestionId === null ? actualValue : null,
+      corrected: true,
+      stats: getRoundStats(round)
+    });
+    for (const result of getSettlementResults(round)) {
+      sendToTeam(result.teamId, { type: "SETTLEMENT_RESULT", ...result.result, corrected: true });
+    }
+    res.json({ success: true });
+  });
+
+
+  // Predictions stay private until the answer is out.
+  app.get("/api/rounds/:id/stats", (req, res) => {
+    const round = getRound(Number(req.params.id));
+    if (!round) {
+      return res.status(404).json({ error: "Round not found" });
+    }
+    if (!isRevealed(round)) {
+      return res.status(400).json({ error: "Statistics are available once the round is revealed" });
+    }
+    res.json(getRoundStats(round));
+  });
+
+  function getTeamHistory(teamId: number) {
+    return withRunningBalance(db.prepare(`
+      SELECT l.*, r.theme as round_theme
+      FROM ledger_entries l
+      LEFT JOIN rounds r ON l.round_id = r.id
+      WHERE l.team_id = ?
+      ORDER BY l.created_at, l.id
+    `).all(teamId));
+  }
+
+  // Every revealed round of the team's game with what the team played in it. Balance after a
+  // round is the team's balance as of its last ledger entry for that round, carried forward
+  // across rounds it sat out.
+  function getRoundHistory(team: any): { startingBalance: number, rounds: RoundHistory[] } {
+    const ordinals = db.prepare("SELECT id FROM rounds WHERE game_id = ? ORDER BY id").all(team.game_id).map((r) => r.id);
+    const ledger = withRunningBalance(db.prepare("SELECT * FROM ledger_entries WHERE team_id = ? ORDER BY created_at, id").all(team.id));
+    const startingBalance = ledger.find((e) => e.kind === 'grant')?.amount ?? 0;
+    let balance = startingBalance;
+    const rounds = db.prepare("SELECT * FROM rounds WHERE game_id = ? AND status = 'revealed' ORDER BY id").all(team.game_id);
+    return {
+      startingBalance,
+      rounds: rounds.map((round): RoundHistory => {
+        const format = parseRoundFormat(round);
+        const subQuestions = getSubQuestions(round.id);
+        const rows = db.prepare(`
+          SELECT s.* FROM submissions s LEFT JOIN sub_questions q ON s.sub_question_id = q.id
+          WHERE s.round_id = ? AND s.team_id = ? ORDER BY q.position
+        `).all(round.id, team.id);
+        const entries = rows.map((row): HistoryEntry => {
+          const subQuestion = subQuestions.find((q) => q.id === row.sub_question_id) ?? null;
+          const actualValue = round.voided_at ? null : subQuestion ? subQuestion.actual_value : round.actual_value;
+          return {
+            subQuestion: subQuestion && { position: subQuestion.position, question: subQuestion.question, unit: subQuestion.unit },
+            prediction: describePrediction(format, { predictedValue: row.predicted_value, intervalLow: row.interval_low, intervalHigh: row.interval_high }),
+            predictedValue: row.predicted_value,
+            actualValue,
+            bidAmount: row.bid_amount,
+            payout: actualValue == null ? (round.voided_at ? row.bid_amount : 0) : row.score,
+            errorPercent: actualValue == null ? null : row.error_percent
+          };
+        });
+        const own = ledger.filter((e) => e.round_id === round.id);
+        if (own.length) balance = own[own.length - 1].balance_after;
+        return {
+          roundId: round.id,
+          number: ordinals.indexOf(round.id) + 1,
+          theme: round.theme,
+          question: round.question,
+          unit: round.unit,
+          type: format.type,
+          voided: !!round.voided_at,
+          answer: round.voided_at || round.actual_value == null ? null : describeAnswer(format, round.actual_value),
+          settledAt: round.settled_at,
+          entries,
+          // Loan repayments settle debt rather than cost the team anything in the round.
+          profit: own.filter((e) => e.kind !== 'repayment').reduce((sum, e) => sum + e.amount, 0),
+          balanceAfter: balance
+        };
+      })
+    };
+  }
+
+  app.get("/api/teams/me/rounds", teamAuth, (req, res) => {
+    const { startingBalance, rounds } = getRoundHistory(res.locals.team);
+    const history: TeamRoundHistory = { startingBalance, rounds, performance: computeTeamPerformance(rounds) };
+    res.json(history);
+  });
+
+  // The team's prediction on its game's current round, so a reloaded page can restore it.
+  app.get("/api/teams/me/submission", teamAuth, (req, res) => {
+    const round = getCurrentRound(res.locals.team.game_id);
+    res.json({ submission: round ? getOwnSubmission(round.id, res.locals.team.id) : null });
+  });
+
+  // The team's live balance and bankruptcy state, which the public standings hide while frozen.
+  app.get("/api/teams/me", teamAuth, (req, res) => {
+    const { pin_hash, ...team } = res.locals.team;
+    res.json(team);
+  });
+
+  app.get("/api/teams/me/history", teamAuth, (req, res) => {
+    res.json(getTeamHistory(res.locals.team.id));
+  });
+
+  app.get("/api/admin/teams/:id/history", scorekeeperAuth, (req, res) => {
+    res.json(getTeamHistory(Number(req.params.id)));
+  });
+
+  app.get("/api/admin/ledger/reconcile", scorekeeperAuth, (req, res) => {
+    const mismatches = db.prepare(`
+      SELECT t.id, t.name, t.balance, COALESCE(SUM(l.amount), 0) as ledger_balance
+      FROM teams t
+      LEFT JOIN ledger_entries l ON l.team_id = t.id
+      GROUP BY t.id
+      HAVING ABS(t.balance - ledger_balance) > 0.000001
+    `).all();
+    res.json({ consistent: mismatches.length === 0, mismatches });
+  });
 
-      db.prepare("UPDATE submissions SET score = ?, error_percent = ? WHERE id = ?")
-        .run(finalScore, errorPercent, sub.id);
+  app.get("/api/admin/questions", hostAuth, (req, res) => {
+    res.json(db.prepare("SELECT * FROM questions ORDER BY theme, id").all());
+  });
+
+  app.post("/api/admin/questions", hostAuth, (req, res) => {
+    const problem = validateQuestion(req.body);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+    const [id] = insertQuestions([normalizeQuestion(req.body)]);
+    recordAudit(res.locals.admin, "question.create", null, { id, theme: req.body.theme });
+    res.json(db.prepare("SELECT * FROM questions WHERE id = ?").get(id));
+  });
+
+  app.post("/api/admin/questions/import", hostAuth, (req, res) => {
+    const { format, content } = req.body;
+    if ((format !== 'json' && format !== 'csv') || typeof content !== 'string') {
+      return res.status(400).json({ error: "Upload a .json or .csv file" });
+    }
+    const { questions, errors } = parseQuestionImport(format, content);
+    if (questions.length === 0) {
+      return res.status(400).json({ error: errors[0] ?? "The file contains no questions", errors });
+    }
+    const ids = insertQuestions(questions);
+    recordAudit(res.locals.admin, "question.import", null, { format, imported: ids.length, rejected: errors.length });
+    res.json({ imported: ids.length, errors });
+  });
+
+  // Candidates are only proposed here; the host reviews them and adds the keepers through
+  // the normal question endpoint.
+  app.post("/api/admin/questions/generate", hostAuth, async (req, res) => {
+    const problem = validateGenerationRequest(req.body);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+    const request = { topic: req.body.topic.trim(), count: req.body.count, difficulty: req.body.difficulty ?? null };
+    let candidates: GeneratedQuestion[];
+    try {
+      candidates = await roundGenerator.generate(request);
+    } catch (e) {
+      console.error("Round generation failed:", e);
+      return res.status(502).json({ error: e instanceof GenerationError ? e.message : "Round generation failed" });
+    }
+    if (candidates.length === 0) {
+      return res.status(502).json({ error: `${roundGenerator.name} returned no usable questions` });
+    }
+    recordAudit(res.locals.admin, "question.generate", null, { provider: roundGenerator.name, ...request, returned: candidates.length });
+    res.json({ provider: roundGenerator.name, candidates });
+  });
+
+  app.put("/api/admin/questions/:id", hostAuth, (req, res) => {
+    const problem = validateQuestion(req.body);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+    const q = normalizeQuestion(req.body);
+    const info = db.prepare(`
+      UPDATE questions SET theme = ?, question = ?, unit = ?, description = ?, answer = ?, source = ?, difficulty = ? WHERE id = ?
+    `).run(q.theme, q.question, q.unit, q.description, q.answer, q.source, q.difficulty, req.params.id);
+    if (info.changes === 0) {
+      return res.status(404).json({ error: "Question not found" });
+    }
+    recordAudit(res.locals.admin, "question.update", null, { id: Number(req.params.id), theme: q.theme });
+    res.json(db.prepare("SELECT * FROM questions WHERE id = ?").get(req.params.id));
+  });
+
+  app.delete("/api/admin/questions/:id", hostAuth, (req, res) => {
+    const played = db.prepare("SELECT id FROM rounds WHERE question_id = ? LIMIT 1").get(req.params.id);
+    if (played) {
+      return res.status(400).json({ error: "Question has already been played in a round" });
+    }
+    db.transaction(() => {
+      db.prepare("DELETE FROM game_queue WHERE question_id = ?").run(req.params.id);
+      db.prepare("DELETE FROM questions WHERE id = ?").run(req.params.id);
+    })();
+    recordAudit(res.locals.admin, "question.delete", null, { id: Number(req.params.id) });
+    res.json({ success: true });
+  });
+
+  app.get("/api/admin/games/:gameId/queue", hostAuth, withGame, (req, res) => {
+    const queue = db.prepare(`
+      SELECT g.id, g.question_id, g.position, g.round_id, q.theme, q.question, q.unit, q.answer
+      FROM game_queue g JOIN questions q ON g.question_id = q.id
+      WHERE g.game_id = ?
+      ORDER BY g.position, g.id
+    `).all(res.locals.game.id);
+    res.json(queue);
+  });
+
+  app.post("/api/admin/games/:gameId/queue", hostAuth, withGame, (req, res) => {
+    const { game } = res.locals;
+    const question = db.prepare("SELECT * FROM questions WHERE id = ?").get(req.body.questionId);
+    if (!question) {
+      return res.status(404).json({ error: "Question not found" });
+    }
+    const { next } = db.prepare("SELECT COALESCE(MAX(position) + 1, 0) as next FROM game_queue WHERE game_id = ?").get(game.id);
+    const info = db.prepare("INSERT INTO game_queue (game_id, question_id, position) VALUES (?, ?, ?)")
+      .run(game.id, question.id, next);
+    recordAudit(res.locals.admin, "queue.add", game.id, { entryId: info.lastInsertRowid, questionId: question.id });
+    res.json({ id: info.lastInsertRowid });
+  });
 
-      db.prepare("UPDATE teams SET balance = balance - ? + ? WHERE id = ?")
-        .run(sub.bid_amount, finalScore, sub.team_id);
+  app.put("/api/admin/games/:gameId/queue", hostAuth, withGame, (req, res) => {
+    const { entryIds } = req.body;
+    if (!Array.isArray(entryIds) || !entryIds.every(Number.isInteger)) {
+      return res.status(400).json({ error: "entryIds must be a list of queue entry ids" });
     }
+    reorderQueue(res.locals.game.id, entryIds);
+    recordAudit(res.locals.admin, "queue.reorder", res.locals.game.id, { entryIds });
+    res.json({ success: true });
+  });
 
-    broadcast({ type: "ROUND_REVEALED", roundId, actualValue });
+  app.delete("/api/admin/games/:gameId/queue/:entryId", hostAuth, withGame, (req, res) => {
+    const info = db.prepare("DELETE FROM game_queue WHERE id = ? AND game_id = ? AND round_id IS NULL")
+      .run(req.params.entryId, res.locals.game.id);
+    if (info.changes === 0) {
+      return res.status(400).json({ error: "Only unplayed queue entries can be removed" });
+    }
+    recordAudit(res.locals.admin, "queue.remove", res.locals.game.id, { entryId: Number(req.params.entryId) });
     res.json({ success: true });
   });
 
-  app.get("/api/admin/submissions/:roundId", adminAuth, (req, res) => {
+  app.get("/api/admin/games/:gameId/audit", adminAuth, withGame, (req, res) => {
+    const entries = db.prepare(`
+      SELECT l.*, a.username
+      FROM admin_audit_log l
+      LEFT JOIN admin_accounts a ON l.account_id = a.id
+      WHERE l.game_id = ?
+      ORDER BY l.id DESC
+      LIMIT 100
+    `).all(res.locals.game.id);
+    res.json(entries.map((e) => ({ ...e, details: e.details ? JSON.parse(e.details) : {} })));
+  });
+
+  app.get("/api/admin/submissions/:roundId", scorekeeperAuth, (req, res) => {
     const subs = db.prepare(`
-      SELECT s.*, t.name as team_name 
+      SELECT s.*, t.name as team_name, q.position as sub_question_position,
+        (SELECT GROUP_CONCAT(h.position) FROM hint_purchases p JOIN round_hints h ON p.hint_id = h.id
+          WHERE p.team_id = s.team_id AND h.round_id = s.round_id) as hints_bought
       FROM submissions s 
       JOIN teams t ON s.team_id = t.id 
+      LEFT JOIN sub_questions q ON s.sub_question_id = q.id
       WHERE s.round_id = ?
     `).all(req.params.roundId);
     res.json(subs);
   });
 
-  app.post("/api/admin/reset", adminAuth, (req, res) => {
+  app.post("/api/admin/games/:gameId/reset", ownerAuth, withGame, (req, res) => {
+    const { game } = res.locals;
     try {
-      db.exec(`
-        DELETE FROM submissions;
-        DELETE FROM rounds;
-        DELETE FROM teams;
-        DELETE FROM sqlite_sequence WHERE name IN ('submissions', 'rounds', 'teams');
-      `);
-
-      broadcast({ type: "GAME_RESET" });
+      for (const round of db.prepare("SELECT id FROM rounds WHERE game_id = ?").all(game.id)) {
+        clearTimeout(lockTimers.get(round.id));
+        lockTimers.delete(round.id);
+      }
+      const teamIds = new Set(db.prepare("SELECT id FROM teams WHERE game_id = ?").all(game.id).map((t) => t.id));
+      saveSnapshot(db, game.id, captureGame(db, game.id), "before_reset", { accountId: res.locals.admin.id });
+      resetGame(game.id);
+      forgetTeamSockets((teamId) => teamIds.has(teamId));
+      recordAudit(res.locals.admin, "game.reset", game.id);
+
+      broadcast(game.id, { type: "GAME_RESET" });
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: "Database reset failed" });
     }
   });
 
+  // Snapshots are taken automatically before resets, restores and corrections, and on demand.
+  app.get("/api/admin/games/:gameId/snapshots", ownerAuth, withGame, (req, res) => {
+    res.json(listSnapshots(db, res.locals.game.id));
+  });
+
+  app.post("/api/admin/games/:gameId/snapshots", ownerAuth, withGame, (req, res) => {
+    const { game, admin } = res.locals;
+    const label = typeof req.body?.label === "string" && req.body.label.trim() ? req.body.label.trim() : null;
+    const id = saveSnapshot(db, game.id, captureGame(db, game.id), "manual", { accountId: admin.id, label });
+    recordAudit(admin, "game.snapshot", game.id, { snapshotId: id, label });
+    res.json({ id });
+  });
+
+  // Stores an uploaded snapshot file against this game; restoring it is a separate step.
+  app.post("/api/admin/games/:gameId/snapshots/upload", ownerAuth, withGame, (req, res) => {
+    const { game, admin } = res.locals;
+    const problem = validateSnapshotFile(req.body?.snapshot);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+    const label = typeof req.body.filename === "string" ? req.body.filename : null;
+    const id = saveSnapshot(db, game.id, req.body.snapshot, "upload", { accountId: admin.id, label });
+    recordAudit(admin, "game.snapshot_upload", game.id, { snapshotId: id, label });
+    res.json({ id });
+  });
+
+  const findGameSnapshot = (req: express.Request, res: express.Response) => {
+    const stored = loadSnapshot(db, Number(req.params.snapshotId));
+    if (!stored || stored.gameId !== res.locals.game.id) {
+      res.status(404).json({ error: "Snapshot not found" });
+      return null;
+    }
+    return stored.snapshot;
+  };
+
+  app.get("/api/admin/games/:gameId/snapshots/:snapshotId/download", ownerAuth, withGame, (req, res) => {
+    const snapshot = findGameSnapshot(req, res);
+    if (!snapshot) return;
+    const filename = `${res.locals.game.join_code}-snapshot-${req.params.snapshotId}.json`;
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.json(snapshot);
+  });
+
+  app.post("/api/admin/games/:gameId/snapshots/:snapshotId/restore", ownerAuth, withGame, (req, res) => {
+    const { game, admin } = res.locals;
+    const snapshot = findGameSnapshot(req, res);
+    if (!snapshot) return;
+    const problem = validateSnapshotFile(snapshot);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+
+    for (const round of db.prepare("SELECT id FROM rounds WHERE game_id = ?").all(game.id)) {
+      clearTimeout(lockTimers.get(round.id));
+      lockTimers.delete(round.id);
+    }
+    const teamIds = new Set(db.prepare("SELECT id FROM teams WHERE game_id = ?").all(game.id).map((t) => t.id));
+    // The state being replaced is itself kept, so a restore can be undone the same way.
+    const undoId = saveSnapshot(db, game.id, captureGame(db, game.id), "before_restore", {
+      accountId: admin.id,
+      label: `Before restoring snapshot ${req.params.snapshotId}`
+    });
+    const warnings = restoreGame(db, game.id, snapshot);
+    // A frozen board refers to the teams being replaced.
+    db.prepare("DELETE FROM game_settings WHERE game_id = ? AND key = 'leaderboard_freeze'").run(game.id);
+    forgetTeamSockets((teamId) => teamIds.has(teamId));
+    for (const round of db.prepare("SELECT * FROM rounds WHERE game_id = ? AND status = 'open' AND deadline_at IS NOT NULL").all(game.id)) {
+      scheduleAutoLock(round);
+    }
+    recordAudit(admin, "game.restore", game.id, { snapshotId: Number(req.params.snapshotId), undoSnapshotId: undoId, warnings });
+
+    broadcast(game.id, { type: "GAME_RESTORED" });
+    res.json({ success: true, undoSnapshotId: undoId, warnings });
+  });
+
+  // Results downloads. Any dataset comes as CSV or JSON; the report is a printable HTML page.
+  app.get("/api/admin/games/:gameId/export/:dataset", adminAuth, withGame, (req, res) => {
+    const { game } = res.locals;
+    const dataset = req.params.dataset;
+    const format = req.query.format ?? "csv";
+    if (!isExportDataset(dataset)) {
+      return res.status(404).json({ error: `Unknown export: ${dataset}` });
+    }
+    if (format !== "csv" && format !== "json") {
+      return res.status(400).json({ error: "Format must be csv or json" });
+    }
+    const body = exportDataset(loadGameResults(db, game.id), dataset, format);
+    res.setHeader("Content-Disposition", `attachment; filename="${game.join_code}-${dataset}.${format}"`);
+    res.type(format === "csv" ? "text/csv" : "application/json").send(body);
+  });
+
+  app.get("/api/admin/games/:gameId/report", adminAuth, withGame, (req, res) => {
+    res.type("html").send(renderGameReport(loadGameResults(db, res.locals.game.id)));
+  });
+
   if (process.env.NODE_ENV !== "production") {
     const vite = await createViteServer({
       server: { middlewareMode: true },
@@ -233,18 +2295,146 @@ async function startServer() {
   });
 
   const wss = new WebSocketServer({ server });
-  const clients = new Set<WebSocket>();
+  // Each socket subscribes to one game; it only hears that game's events plus global ones,
+  // and team or admin events only if it presented a matching session token.
+  // alive is cleared on every heartbeat and set again by the client's pong.
+  interface SocketClient {
+    gameId: number | null;
+    alive: boolean;
+    teamId: number | null;
+    admin: { id: number, expiresAt: number } | null;
+  }
+  const clients = new Map<WebSocket, SocketClient>();
+  // Per-game event counters; they restart with the server, which clients treat as a gap.
+  const gameSeq = new Map<number, number>();
+
+  const send = (ws: WebSocket, message: ServerMessage) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+  };
+
+  function getSnapshot(gameId: number): GameSnapshot | null {
+    if (!getGame(gameId)) return null;
+    const round = getCurrentRound(gameId);
+    return {
+      round,
+      teams: getPublicStandings(gameId),
+      settings: getGameSettings(gameId),
+      stats: isRevealed(round) ? getRoundStats(round) : null
+    };
+  }
+
+  // The signed-in team's own view of the current round.
+  function getOwnRoundState(gameId: number, teamId: number) {
+    const round = getCurrentRound(gameId);
+    const submitted = !!round && !!getOwnSubmission(round.id, teamId);
+    const [settled] = submitted && isRevealed(round) ? getSettlementResults(round, teamId) : [];
+    return {
+      submitted,
+      result: settled?.result ?? null,
+      powerUps: getRemainingPowerUps(gameId, teamId),
+      hints: round ? getPurchasedHints(round.id, teamId) : []
+    };
+  }
+
+  const isAdminSocket = (client: SocketClient) => !!client.admin && client.admin.expiresAt > Date.now();
+
+  function forgetAdminSockets(accountId: number) {
+    clients.forEach((client) => {
+      if (client.admin?.id === accountId) client.admin = null;
+    });
+  }
+
+  function forgetTeamSockets(matches: (teamId: number) => boolean) {
+    clients.forEach((client) => {
+      if (client.teamId !== null && matches(client.teamId)) client.teamId = null;
+    });
+  }
 
   wss.on("connection", (ws) => {
-    clients.add(ws);
+    clients.set(ws, { gameId: null, alive: true, teamId: null, admin: null });
+    send(ws, { v: PROTOCOL_VERSION, type: "WELCOME", serverTime: Date.now() });
+
+    ws.on("pong", () => {
+      const client = clients.get(ws);
+      if (client) client.alive = true;
+    });
+    ws.on("message", (raw) => {
+      const message = parseClientMessage(raw.toString());
+      const client = clients.get(ws);
+      if (!message || !client) {
+        console.error("Invalid WebSocket message:", raw.toString().slice(0, 200));
+        return;
+      }
+      client.alive = true;
+      if (message.type === "PING") {
+        send(ws, { v: PROTOCOL_VERSION, type: "PONG", serverTime: Date.now() });
+      } else if (message.type === "SUBSCRIBE") {
+        const team = findTeamSession(message.teamToken);
+        const admin = findAdminSession(message.adminToken);
+        client.gameId = message.gameId;
+        client.teamId = team && team.game_id === message.gameId ? team.id : null;
+        client.admin = admin ? { id: admin.id, expiresAt: admin.expires_at } : null;
+        send(ws, {
+          v: PROTOCOL_VERSION,
+          type: "SNAPSHOT",
+          gameId: message.gameId,
+          seq: message.gameId === null ? 0 : gameSeq.get(message.gameId) ?? 0,
+          serverTime: Date.now(),
+          scoringRules: db.prepare("SELECT * FROM scoring_rules ORDER BY id").all().map(parseScoringRule),
+          game: message.gameId === null ? null : getSnapshot(message.gameId),
+          identity: { teamId: client.teamId, admin: !!client.admin },
+          own: message.gameId !== null && client.teamId !== null ? getOwnRoundState(message.gameId, client.teamId) : null
+        });
+      }
+    });
     ws.on("close", () => clients.delete(ws));
   });
 
-  function broadcast(data: any) {
-    const message = JSON.stringify(data);
-    clients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(message);
+  // Drops sockets that missed a whole heartbeat, e.g. a phone that left the venue Wi-Fi.
+  const heartbeat = setInterval(() => {
+    clients.forEach((client, ws) => {
+      if (!client.alive) {
+        ws.terminate();
+        clients.delete(ws);
+        return;
+      }
+      client.alive = false;
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  wss.on("close", () => clearInterval(heartbeat));
+
+  // gameId null reaches every client, e.g. for the shared scoring rule library.
+  function broadcast(gameId: number, event: GameEvent): void;
+  function broadcast(gameId: null, event: GlobalEvent): void;
+  function broadcast(gameId: number | null, event: GameEvent | GlobalEvent) {
+    let message: ServerMessage;
+    if (gameId === null) {
+      message = { ...(event as GlobalEvent), v: PROTOCOL_VERSION };
+    } else {
+      const seq = (gameSeq.get(gameId) ?? 0) + 1;
+      gameSeq.set(gameId, seq);
+      message = { ...(event as GameEvent), v: PROTOCOL_VERSION, gameId, seq };
+    }
+    clients.forEach((subscription, client) => {
+      if (gameId === null || subscription.gameId === gameId) {
+        send(client, message);
+      }
+    });
+  }
+
+  function sendToTeam(teamId: number, event: TeamEvent) {
+    clients.forEach((subscription, client) => {
+      if (subscription.teamId === teamId && subscription.gameId !== null) {
+        send(client, { ...event, v: PROTOCOL_VERSION, gameId: subscription.gameId });
+      }
+    });
+  }
+
+  function sendToAdmins(gameId: number, event: AdminEvent) {
+    clients.forEach((subscription, client) => {
+      if (subscription.gameId === gameId && isAdminSocket(subscription)) {
+        send(client, { ...event, v: PROTOCOL_VERSION, gameId });
       }
     });
   }
@@ -13,21 +13,127 @@ import {
   Play,
   Eye,
   CheckCircle2,
-  Trash2
+  Trash2,
+  Plus,
+  Save,
+  Lock,
+  Unlock,
+  Timer,
+  RotateCcw,
+  Layers,
+  Archive,
+  KeyRound,
+  ShieldCheck,
+  Activity,
+  ListOrdered,
+  Upload,
+  ChevronUp,
+  ChevronDown,
+  SkipForward,
+  Monitor,
+  ArrowUp,
+  ArrowDown,
+  WifiOff,
+  CloudOff,
+  History,
+  Download,
+  Sparkles,
+  Zap,
+  FileText,
+  Snowflake,
+  UserCog,
+  UserMinus,
+  UserCheck,
+  Ban,
+  Merge,
+  PenLine
 } from 'lucide-react';
+import {
+  DEFAULT_SCORING,
+  DEFAULT_TIERS,
+  ScoringDefinition,
+  ScoringRuleSet,
+  describeLoss,
+  describeScoring
+} from './shared/scoring';
+import { DIFFICULTIES, Difficulty, Question, QuestionInput, QUESTION_CSV_COLUMNS } from './shared/questions';
+import { GeneratedQuestion, GenerationRequest, MAX_GENERATED_QUESTIONS } from './shared/generation';
+import {
+  DEFAULT_INVENTORY,
+  POWER_UPS,
+  POWER_UP_KINDS,
+  PowerUpInventory,
+  PowerUpKind,
+  parseInventory
+} from './shared/powerups';
+import { HintInput, PurchasedHint } from './shared/hints';
+import { HintSales, RoundStats } from './shared/stats';
+import { RoundHistory, TeamRoundHistory } from './shared/performance';
+import {
+  DEFAULT_LEADERBOARD,
+  LEADERBOARD_MODES,
+  LeaderboardFreeze,
+  LeaderboardMode,
+  LeaderboardSettings,
+  TIE_BREAKERS,
+  TieBreaker,
+  parseFreeze,
+  parseLeaderboard
+} from './shared/leaderboard';
+import {
+  MAX_SUB_QUESTIONS,
+  ROUND_TYPES,
+  RoundFormat,
+  RoundType,
+  SubQuestionAnswer,
+  SubQuestionResult,
+  describeAnswer,
+  describePrediction,
+  overUnderOptions
+} from './shared/rounds';
+import {
+  BankruptcyRule,
+  BidLimit,
+  DEFAULT_ECONOMY,
+  EconomySettings,
+  bidRange,
+  describeBankruptcy,
+  describeEconomy,
+  parseEconomy,
+  validateBid,
+  validateStake
+} from './shared/economy';
+import {
+  ClientMessage,
+  HEARTBEAT_INTERVAL_MS,
+  HEARTBEAT_TIMEOUT_MS,
+  OwnSubmission,
+  PROTOCOL_VERSION,
+  Round,
+  ServerMessage,
+  SettlementResult,
+  Team,
+  parseServerMessage
+} from './shared/protocol';
 
 // --- Types ---
-interface Team {
+interface Game {
   id: number;
   name: string;
-  balance: number;
+  join_code: string;
+  status: 'active' | 'archived';
+  team_count?: number;
 }
 
-interface Round {
+interface QueueEntry {
   id: number;
+  question_id: number;
+  position: number;
+  round_id: number | null;
   theme: string;
-  actual_value: number | null;
-  status: 'open' | 'closed' | 'revealed';
+  question: string;
+  unit: string | null;
+  answer: number;
 }
 
 interface Submission {
@@ -35,9 +141,95 @@ interface Submission {
   team_id: number;
   team_name: string;
   predicted_value: number;
+  interval_low: number | null;
+  interval_high: number | null;
   bid_amount: number;
+  // Set on the answers to a multi-question round, one row per sub-question.
+  sub_question_id: number | null;
+  sub_question_position: number | null;
   score: number;
   error_percent: number;
+  power_up: PowerUpKind | null;
+  hedge_value: number | null;
+  // Comma-separated positions of the hints the team bought this round.
+  hints_bought: string | null;
+}
+
+type AdminRole = 'owner' | 'host' | 'scorekeeper';
+
+interface AdminAccount {
+  id: number;
+  username: string;
+  role: AdminRole;
+  disabled?: number;
+  active_sessions?: number;
+}
+
+interface AuditEntry {
+  id: number;
+  username: string | null;
+  action: string;
+  details: Record<string, unknown>;
+  created_at: number;
+}
+
+interface LedgerEntry {
+  id: number;
+  kind: 'grant' | 'escrow' | 'payout' | 'adjustment' | 'refund' | 'forfeit' | 'rebuy' | 'loan' | 'repayment' | 'hint' | 'notice';
+  amount: number;
+  balance_after: number;
+  round_id: number | null;
+  round_theme: string | null;
+  note: string | null;
+  created_at: number;
+}
+
+interface SnapshotEntry {
+  id: number;
+  reason: 'manual' | 'upload' | 'before_reset' | 'before_restore' | 'before_correction';
+  label: string | null;
+  team_count: number;
+  round_count: number;
+  created_at: number;
+  username: string | null;
+}
+
+// A prediction made while offline, kept until the server accepts or rejects it.
+interface PendingSubmission extends OwnSubmission {
+  teamId: number;
+  queuedAt: number;
+}
+
+interface TeamSession {
+  team: Team;
+  token: string;
+}
+
+// --- Browser Storage ---
+// The participant's session and any queued prediction survive a page reload.
+const TEAM_SESSION_KEY = 'data-paradox.team-session';
+const PENDING_SUBMISSION_KEY = 'data-paradox.pending-submission';
+
+function readStored<T>(key: string): T | null {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeStored(key: string, value: unknown) {
+  try {
+    if (value === null) {
+      window.localStorage.removeItem(key);
+    } else {
+      window.localStorage.setItem(key, JSON.stringify(value));
+    }
+  } catch (e) {
+    // Storage can be unavailable (private browsing, full quota); the session just won't survive a reload.
+    console.warn(`Could not save ${key}:`, e);
+  }
 }
 
 // --- Components ---
@@ -118,314 +310,3613 @@ const Input = ({
   </div>
 );
 
-// --- Main App ---
-
-export default function App() {
-  const [view, setView] = useState<'landing' | 'participant' | 'admin'>('landing');
-  const [isAdminAuthenticated, setIsAdminAuthenticated] = useState(false);
-  const isAdminAuthenticatedRef = useRef(false);
-  useEffect(() => { isAdminAuthenticatedRef.current = isAdminAuthenticated; }, [isAdminAuthenticated]);
-  const [adminPasswordInput, setAdminPasswordInput] = useState('');
-  const [adminPassword, setAdminPassword] = useState('');
-  const [showAdminLogin, setShowAdminLogin] = useState(false);
-  const [team, setTeam] = useState<Team | null>(null);
-  const [currentRound, setCurrentRound] = useState<Round | null>(null);
-  const currentRoundRef = useRef<Round | null>(null);
-  useEffect(() => { currentRoundRef.current = currentRound; }, [currentRound]);
-  const [teams, setTeams] = useState<Team[]>([]);
-  const [submissions, setSubmissions] = useState<Submission[]>([]);
-  const [gameTitle, setGameTitle] = useState('DATA PARADOX');
-  const [ws, setWs] = useState<WebSocket | null>(null);
+const Select = ({
+  label,
+  value,
+  onChange,
+  options,
+  className = "",
+  disabled = false
+}: {
+  label: string,
+  value: string | number,
+  onChange: (val: string) => void,
+  options: { value: string | number, label: string }[],
+  className?: string,
+  disabled?: boolean
+}) => (
+  <div className={`space-y-2 ${className}`}>
+    <label className="text-xs font-mono uppercase tracking-widest text-white/40">{label}</label>
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-emerald-500/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed [&>option]:bg-[#151619]"
+    >
+      {options.map((o) => (
+        <option key={o.value} value={o.value}>{o.label}</option>
+      ))}
+    </select>
+  </div>
+);
 
-  // Participant State
-  const [teamNameInput, setTeamNameInput] = useState('');
-  const [predictionInput, setPredictionInput] = useState('');
-  const [bidInput, setBidInput] = useState('');
-  const [hasSubmitted, setHasSubmitted] = useState(false);
+// Form state keeps raw input strings; numbers are parsed only on save.
+interface ScoringDraft {
+  name: string;
+  kind: ScoringDefinition['kind'];
+  tiers: { label: string, maxErrorPercent: string, multiplier: string }[];
+  maxMultiplier: string;
+  minMultiplier: string;
+  cutoffPercent: string;
+  partialLoss: boolean;
+  partialMaxErrorPercent: string;
+  partialMultiplier: string;
+}
 
-  // Admin State
-  const [newRoundTheme, setNewRoundTheme] = useState('');
-  const [actualValueInput, setActualValueInput] = useState('');
-  const [showResetConfirm, setShowResetConfirm] = useState(false);
+const toDraft = (name: string, def: ScoringDefinition): ScoringDraft => ({
+  name,
+  kind: def.kind,
+  tiers: (def.kind === 'tiers' ? def.tiers : DEFAULT_TIERS).map(t => ({
+    label: t.label ?? '',
+    maxErrorPercent: String(t.maxErrorPercent),
+    multiplier: String(t.multiplier)
+  })),
+  maxMultiplier: def.kind === 'tiers' ? '3' : String(def.maxMultiplier),
+  minMultiplier: def.kind === 'tiers' ? '1' : String(def.minMultiplier),
+  cutoffPercent: def.kind === 'tiers' ? '25' : String(def.cutoffPercent),
+  partialLoss: !!def.partialLoss,
+  partialMaxErrorPercent: def.partialLoss ? String(def.partialLoss.maxErrorPercent) : '50',
+  partialMultiplier: def.partialLoss ? String(def.partialLoss.multiplier) : '0.5'
+});
 
-  useEffect(() => {
-    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const socket = new WebSocket(`${protocol}//${window.location.host}`);
-    
-    socket.onopen = () => {
-      console.log('WebSocket connected');
+const fromDraft = (draft: ScoringDraft): ScoringDefinition => {
+  const partialLoss = draft.partialLoss
+    ? { maxErrorPercent: parseFloat(draft.partialMaxErrorPercent), multiplier: parseFloat(draft.partialMultiplier) }
+    : null;
+  if (draft.kind === 'tiers') {
+    return {
+      kind: 'tiers',
+      tiers: draft.tiers.map(t => ({
+        label: t.label || undefined,
+        maxErrorPercent: parseFloat(t.maxErrorPercent),
+        multiplier: parseFloat(t.multiplier)
+      })),
+      partialLoss
     };
+  }
+  return {
+    kind: draft.kind,
+    maxMultiplier: parseFloat(draft.maxMultiplier),
+    minMultiplier: parseFloat(draft.minMultiplier),
+    cutoffPercent: parseFloat(draft.cutoffPercent),
+    partialLoss
+  };
+};
 
-    socket.onerror = (error) => {
-      console.error('WebSocket error:', error);
-    };
+const ScoringRuleEditor = ({
+  rules,
+  defaultRuleId,
+  onSave,
+  onDelete,
+  onMakeDefault
+}: {
+  rules: ScoringRuleSet[],
+  defaultRuleId: number | null,
+  onSave: (id: number | null, name: string, definition: ScoringDefinition) => Promise<boolean>,
+  onDelete: (id: number) => void,
+  onMakeDefault: (id: number) => void
+}) => {
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<ScoringDraft>(toDraft('', DEFAULT_SCORING));
 
-    socket.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        console.log('WS Message:', data.type);
-        if (data.type === 'ROUND_STARTED') {
-          setCurrentRound(data.round);
-          setHasSubmitted(false);
-          setPredictionInput('');
-          setBidInput('');
-          setSubmissions([]);
-        } else if (data.type === 'ROUND_REVEALED') {
-          fetchCurrentRound();
-          fetchTeams();
-          if (currentRoundRef.current?.id && isAdminAuthenticatedRef.current) {
-            fetchSubmissions(currentRoundRef.current.id);
-          }
-        } else if (data.type === 'SUBMISSION_RECEIVED') {
-          if (currentRoundRef.current?.id && isAdminAuthenticatedRef.current) {
-            fetchSubmissions(currentRoundRef.current.id);
-          }
-        } else if (data.type === 'GAME_RESET') {
-          console.log('Resetting game state...');
-          setTeam(null);
-          setCurrentRound(null);
-          setTeams([]);
-          setSubmissions([]);
-          setHasSubmitted(false);
-          setPredictionInput('');
-          setBidInput('');
-          if (!isAdminAuthenticatedRef.current) {
-            setView('landing');
-          }
-        } else if (data.type === 'SETTINGS_UPDATED') {
-          if (data.key === 'game_title') {
-            setGameTitle(data.value);
-          }
-        }
-      } catch (e) {
-        console.error('Error parsing WebSocket message:', e);
-      }
-    };
-    setWs(socket);
-    return () => {
-      if (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING) {
-        socket.close();
-      }
-    };
-  }, []); // Stable WebSocket connection
+  const selectRule = (val: string) => {
+    const rule = rules.find(r => r.id === Number(val));
+    setEditingId(rule ? rule.id : null);
+    setDraft(rule ? toDraft(rule.name, rule.definition) : toDraft('', DEFAULT_SCORING));
+  };
 
-  useEffect(() => {
-    fetchCurrentRound();
-    fetchTeams();
-    fetchSettings();
-  }, []);
+  const update = (patch: Partial<ScoringDraft>) => setDraft(d => ({ ...d, ...patch }));
+  const updateTier = (index: number, patch: Partial<ScoringDraft['tiers'][number]>) =>
+    setDraft(d => ({ ...d, tiers: d.tiers.map((t, i) => i === index ? { ...t, ...patch } : t) }));
 
-  const fetchSettings = async () => {
-    try {
-      const res = await fetch('/api/settings');
-      const data = await res.json();
-      if (data.game_title) setGameTitle(data.game_title);
-    } catch (e) {
-      console.error('Error fetching settings:', e);
-    }
+  const handleSave = async () => {
+    const saved = await onSave(editingId, draft.name, fromDraft(draft));
+    if (saved && editingId === null) setDraft(toDraft('', DEFAULT_SCORING));
   };
 
-  const fetchCurrentRound = async () => {
-    try {
-      const res = await fetch('/api/rounds/current');
-      if (!res.ok) throw new Error('Failed to fetch current round');
-      const data = await res.json();
-      setCurrentRound(data);
-      if (data?.id && isAdminAuthenticatedRef.current) {
-        fetchSubmissions(data.id);
-      }
-    } catch (error) {
-      console.error('Error fetching current round:', error);
-    }
-  };
+  return (
+    <div className="space-y-4">
+      <Select
+        label="Rule Set"
+        value={editingId ?? ''}
+        onChange={selectRule}
+        options={[
+          { value: '', label: '+ New rule set' },
+          ...rules.map(r => ({ value: r.id, label: r.id === defaultRuleId ? `${r.name} (default)` : r.name }))
+        ]}
+      />
+      <Input label="Name" value={draft.name} onChange={(val) => update({ name: val })} placeholder="e.g. Sudden Death" />
+      <Select
+        label="Curve"
+        value={draft.kind}
+        onChange={(val) => update({ kind: val as ScoringDraft['kind'] })}
+        options={[
+          { value: 'tiers', label: 'Step tiers' },
+          { value: 'linear', label: 'Linear decay' },
+          { value: 'log', label: 'Log scoring' }
+        ]}
+      />
 
-  const fetchTeams = async () => {
-    try {
-      const res = await fetch('/api/teams');
-      if (!res.ok) throw new Error('Failed to fetch teams');
-      const data = await res.json();
-      setTeams(data);
-    } catch (error) {
-      console.error('Error fetching teams:', error);
-    }
-  };
+      {draft.kind === 'tiers' ? (
+        <div className="space-y-2">
+          {draft.tiers.map((tier, i) => (
+            <div key={i} className="grid grid-cols-[1fr_4rem_4rem_auto] gap-2 items-end">
+              <Input label={i === 0 ? 'Label' : ''} value={tier.label} onChange={(val) => updateTier(i, { label: val })} />
+              <Input label={i === 0 ? 'Err %' : ''} type="number" value={tier.maxErrorPercent} onChange={(val) => updateTier(i, { maxErrorPercent: val })} />
+              <Input label={i === 0 ? 'Mult' : ''} type="number" value={tier.multiplier} onChange={(val) => updateTier(i, { multiplier: val })} />
+              <button
+                onClick={() => update({ tiers: draft.tiers.filter((_, j) => j !== i) })}
+                className="p-3 text-white/40 hover:text-rose-500 transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            onClick={() => update({ tiers: [...draft.tiers, { label: '', maxErrorPercent: '', multiplier: '' }] })}
+            className="w-full py-2 text-xs"
+          >
+            Add Tier <Plus className="w-3 h-3" />
+          </Button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-3 gap-2">
+          <Input label="Max x" type="number" value={draft.maxMultiplier} onChange={(val) => update({ maxMultiplier: val })} />
+          <Input label="Min x" type="number" value={draft.minMultiplier} onChange={(val) => update({ minMultiplier: val })} />
+          <Input label="Cutoff %" type="number" value={draft.cutoffPercent} onChange={(val) => update({ cutoffPercent: val })} />
+        </div>
+      )}
 
-  const fetchSubmissions = async (roundId: number) => {
-    if (!adminPassword) return;
-    try {
-      const res = await fetch(`/api/admin/submissions/${roundId}`, {
-        headers: { 'x-admin-password': adminPassword }
-      });
-      if (!res.ok) throw new Error('Failed to fetch submissions');
-      const data = await res.json();
-      setSubmissions(data);
-    } catch (error) {
-      console.error('Error fetching submissions:', error);
-    }
-  };
+      <label className="flex items-center gap-2 text-xs font-mono uppercase tracking-widest text-white/40">
+        <input type="checkbox" checked={draft.partialLoss} onChange={(e) => update({ partialLoss: e.target.checked })} />
+        Partial loss band
+      </label>
+      {draft.partialLoss && (
+        <div className="grid grid-cols-2 gap-2">
+          <Input label="Up to err %" type="number" value={draft.partialMaxErrorPercent} onChange={(val) => update({ partialMaxErrorPercent: val })} />
+          <Input label="Keep x" type="number" value={draft.partialMultiplier} onChange={(val) => update({ partialMultiplier: val })} />
+        </div>
+      )}
 
-  const handleAdminAccess = () => {
-    if (isAdminAuthenticated) {
-      setView('admin');
-    } else {
-      setShowAdminLogin(true);
-    }
-  };
+      <div className="flex gap-2">
+        <Button onClick={handleSave} variant="secondary" className="flex-1 py-2 text-xs" disabled={!draft.name}>
+          Save <Save className="w-3 h-3" />
+        </Button>
+        {editingId !== null && editingId !== defaultRuleId && (
+          <>
+            <Button onClick={() => onMakeDefault(editingId)} variant="outline" className="py-2 text-xs">
+              Make Default
+            </Button>
+            <Button onClick={() => { onDelete(editingId); selectRule(''); }} variant="outline" className="py-2 px-3 text-xs text-rose-500 border-rose-500/20">
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
 
-  const handleAdminLogin = async () => {
-    try {
-      const res = await fetch('/api/admin/login', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ password: adminPasswordInput })
-      });
-      
-      if (res.ok) {
-        setIsAdminAuthenticated(true);
-        setAdminPassword(adminPasswordInput);
-        setShowAdminLogin(false);
-        setView('admin');
-        setAdminPasswordInput('');
-      } else {
-        alert('Incorrect Password');
-      }
-    } catch (error) {
-      console.error('Login error:', error);
-      alert('Failed to connect to server');
-    }
-  };
-  const handleJoin = async () => {
-    if (!teamNameInput) return;
-    const res = await fetch('/api/teams/join', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ name: teamNameInput })
-    });
-    const data = await res.json();
-    setTeam(data);
-    setView('participant');
-  };
+interface EconomyDraft {
+  startingBalance: string;
+  minBidKind: BidLimit['kind'];
+  minBid: string;
+  maxBidKind: BidLimit['kind'] | 'none';
+  maxBid: string;
+  mandatoryBid: string;
+  rule: BankruptcyRule['rule'];
+  amount: string;
+  maxRebuys: string;
+  repayPercent: string;
+}
 
-  const handleSubmitPrediction = async () => {
-    if (!team || !currentRound) {
-      alert("Session error. Please rejoin.");
-      return;
-    }
-    
-    const pred = parseFloat(predictionInput);
-    const bid = parseFloat(bidInput);
-    
-    if (isNaN(pred)) {
-      alert("Please enter a valid prediction value.");
-      return;
-    }
-    
-    if (isNaN(bid) || bid <= 0) {
-      alert("Please enter a valid bid amount greater than 0.");
-      return;
-    }
+const toEconomyDraft = (economy: EconomySettings): EconomyDraft => ({
+  startingBalance: String(economy.startingBalance),
+  minBidKind: economy.minBid.kind,
+  minBid: String(economy.minBid.value),
+  maxBidKind: economy.maxBid?.kind ?? 'none',
+  maxBid: economy.maxBid ? String(economy.maxBid.value) : '',
+  mandatoryBid: String(economy.mandatoryBid),
+  rule: economy.bankruptcy.rule,
+  amount: 'amount' in economy.bankruptcy ? String(economy.bankruptcy.amount) : '500',
+  maxRebuys: economy.bankruptcy.rule === 'rebuy' ? String(economy.bankruptcy.maxRebuys) : '1',
+  repayPercent: economy.bankruptcy.rule === 'loan' ? String(economy.bankruptcy.repayPercent) : '50'
+});
 
-    try {
-      const res = await fetch('/api/submissions', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          teamId: Number(team.id),
-          roundId: Number(currentRound.id),
-          predictedValue: pred,
-          bidAmount: bid
-        })
-      });
-      
-      if (res.ok) {
-        setHasSubmitted(true);
-      } else {
-        const err = await res.json();
-        alert(err.error || "Submission failed");
-      }
-    } catch (e) {
-      console.error("Submission error:", e);
-      alert("Network error. Please try again.");
-    }
+const fromEconomyDraft = (draft: EconomyDraft): EconomySettings => {
+  const bankruptcy: BankruptcyRule =
+    draft.rule === 'rebuy' ? { rule: 'rebuy', amount: parseFloat(draft.amount), maxRebuys: parseFloat(draft.maxRebuys) } :
+    draft.rule === 'loan' ? { rule: 'loan', amount: parseFloat(draft.amount), repayPercent: parseFloat(draft.repayPercent) } :
+    { rule: draft.rule };
+  return {
+    startingBalance: parseFloat(draft.startingBalance),
+    minBid: { kind: draft.minBidKind, value: parseFloat(draft.minBid) },
+    maxBid: draft.maxBidKind === 'none' ? null : { kind: draft.maxBidKind, value: parseFloat(draft.maxBid) },
+    mandatoryBid: parseFloat(draft.mandatoryBid || '0'),
+    bankruptcy
   };
+};
 
-  const handleStartRound = async () => {
-    if (!newRoundTheme) return;
-    await fetch('/api/admin/rounds', {
-      method: 'POST',
-      headers: { 
-        'Content-Type': 'application/json',
-        'x-admin-password': adminPassword
-      },
-      body: JSON.stringify({ theme: newRoundTheme })
-    });
-    setNewRoundTheme('');
-  };
+const BID_LIMIT_KINDS = [
+  { value: 'absolute', label: 'Coins' },
+  { value: 'percent', label: '% of balance' }
+];
 
-  const handleReveal = async () => {
-    if (!actualValueInput || !currentRound) return;
-    await fetch('/api/admin/rounds/reveal', {
-      method: 'POST',
-      headers: { 
-        'Content-Type': 'application/json',
-        'x-admin-password': adminPassword
-      },
-      body: JSON.stringify({
-        roundId: currentRound.id,
-        actualValue: parseFloat(actualValueInput)
-      })
-    });
-    setActualValueInput('');
+const EconomyEditor = ({
+  economy,
+  onSave
+}: {
+  economy: EconomySettings,
+  onSave: (economy: EconomySettings) => void
+}) => {
+  const [draft, setDraft] = useState<EconomyDraft>(toEconomyDraft(economy));
+
+  useEffect(() => {
+    setDraft(toEconomyDraft(economy));
+  }, [economy]);
+
+  const update = (patch: Partial<EconomyDraft>) => setDraft(d => ({ ...d, ...patch }));
+
+  return (
+    <div className="space-y-4">
+      <Input label="Starting Balance" type="number" value={draft.startingBalance} onChange={(val) => update({ startingBalance: val })} suffix="COINS" />
+      <div className="grid grid-cols-2 gap-2">
+        <Select label="Min Bid" value={draft.minBidKind} onChange={(val) => update({ minBidKind: val as BidLimit['kind'] })} options={BID_LIMIT_KINDS} />
+        <Input label="Value" type="number" value={draft.minBid} onChange={(val) => update({ minBid: val })} />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <Select
+          label="Max Bid"
+          value={draft.maxBidKind}
+          onChange={(val) => update({ maxBidKind: val as EconomyDraft['maxBidKind'] })}
+          options={[{ value: 'none', label: 'Whole balance' }, ...BID_LIMIT_KINDS]}
+        />
+        <Input label="Value" type="number" value={draft.maxBid} onChange={(val) => update({ maxBid: val })} disabled={draft.maxBidKind === 'none'} />
+      </div>
+      <Input label="Mandatory Bid" type="number" value={draft.mandatoryBid} onChange={(val) => update({ mandatoryBid: val })} suffix="COINS" />
+      <Select
+        label="When a Team Goes Broke"
+        value={draft.rule}
+        onChange={(val) => update({ rule: val as BankruptcyRule['rule'] })}
+        options={[
+          { value: 'none', label: 'Sit out' },
+          { value: 'eliminate', label: 'Eliminate' },
+          { value: 'rebuy', label: 'Re-buy' },
+          { value: 'loan', label: 'Loan' }
+        ]}
+      />
+      {draft.rule === 'rebuy' && (
+        <div className="grid grid-cols-2 gap-2">
+          <Input label="Re-buy Stake" type="number" value={draft.amount} onChange={(val) => update({ amount: val })} />
+          <Input label="Max Re-buys" type="number" value={draft.maxRebuys} onChange={(val) => update({ maxRebuys: val })} />
+        </div>
+      )}
+      {draft.rule === 'loan' && (
+        <div className="grid grid-cols-2 gap-2">
+          <Input label="Loan Amount" type="number" value={draft.amount} onChange={(val) => update({ amount: val })} />
+          <Input label="Repay %" type="number" value={draft.repayPercent} onChange={(val) => update({ repayPercent: val })} />
+        </div>
+      )}
+      <p className="text-[10px] font-mono text-white/40">
+        The starting balance applies to teams that join after saving.
+      </p>
+      <Button onClick={() => onSave(fromEconomyDraft(draft))} variant="secondary" className="w-full py-2 text-xs">
+        Save Economy <Save className="w-3 h-3" />
+      </Button>
+    </div>
+  );
+};
+
+const PowerUpInventoryEditor = ({
+  inventory,
+  onSave
+}: {
+  inventory: PowerUpInventory,
+  onSave: (inventory: PowerUpInventory) => void
+}) => {
+  const toDraft = (inv: PowerUpInventory) =>
+    Object.fromEntries(POWER_UP_KINDS.map(kind => [kind, String(inv[kind])])) as Record<PowerUpKind, string>;
+  const [draft, setDraft] = useState(toDraft(inventory));
+
+  useEffect(() => {
+    setDraft(toDraft(inventory));
+  }, [inventory]);
+
+  const handleSave = () => {
+    onSave(Object.fromEntries(POWER_UP_KINDS.map(kind => [kind, parseFloat(draft[kind] || '0')])) as PowerUpInventory);
   };
 
-  const handleReset = async () => {
-    console.log("Executing game reset...");
-    try {
-      const res = await fetch('/api/admin/reset', {
-        method: 'POST',
-        headers: { 
-          'x-admin-password': adminPassword
-        }
-      });
-      
-      if (res.ok) {
-        console.log("Reset successful, clearing local state");
-        setTeam(null);
-        setCurrentRound(null);
-        setTeams([]);
-        setSubmissions([]);
-        setHasSubmitted(false);
-        setPredictionInput('');
-        setBidInput('');
-        setShowResetConfirm(false);
-      } else {
-        const err = await res.json();
-        console.error("Reset failed:", err);
-        alert(`Failed to reset game: ${err.error || 'Unknown error'}`);
-        setShowResetConfirm(false);
+  return (
+    <div className="space-y-4">
+      {POWER_UP_KINDS.map(kind => (
+        <div key={kind} className="space-y-1">
+          <Input
+            label={`${POWER_UPS[kind].name} uses`}
+            type="number"
+            value={draft[kind]}
+            onChange={(val) => setDraft(d => ({ ...d, [kind]: val }))}
+          />
+          <p className="text-[10px] font-mono text-white/40">{POWER_UPS[kind].description}</p>
+        </div>
+      ))}
+      <p className="text-[10px] font-mono text-white/40">Uses are per team for the whole game; 0 takes a power-up out of play.</p>
+      <Button onClick={handleSave} variant="secondary" className="w-full py-2 text-xs">
+        Save Power-ups <Save className="w-3 h-3" />
+      </Button>
+    </div>
+  );
+};
+
+const LeaderboardEditor = ({
+  settings,
+  onSave
+}: {
+  settings: LeaderboardSettings,
+  onSave: (settings: LeaderboardSettings) => void
+}) => {
+  const [mode, setMode] = useState<LeaderboardMode>(settings.mode);
+  const [tieBreakers, setTieBreakers] = useState<TieBreaker[]>(settings.tieBreakers);
+
+  useEffect(() => {
+    setMode(settings.mode);
+    setTieBreakers(settings.tieBreakers);
+  }, [settings]);
+
+  const toggle = (key: TieBreaker) =>
+    setTieBreakers(list => list.includes(key) ? list.filter(k => k !== key) : [...list, key]);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <Select
+          label="Rank Teams By"
+          value={mode}
+          onChange={(val) => setMode(val as LeaderboardMode)}
+          options={(Object.keys(LEADERBOARD_MODES) as LeaderboardMode[]).map(m => ({ value: m, label: LEADERBOARD_MODES[m].name }))}
+        />
+        <p className="text-[10px] font-mono text-white/40">{LEADERBOARD_MODES[mode].description}</p>
+      </div>
+      <div className="space-y-2">
+        <p className="text-xs font-mono uppercase tracking-widest text-white/40">Tie-breakers</p>
+        {(Object.keys(TIE_BREAKERS) as TieBreaker[]).filter(k => k !== mode).map(key => {
+          const position = tieBreakers.indexOf(key);
+          return (
+            <button
+              key={key}
+              onClick={() => toggle(key)}
+              className={`w-full flex items-center justify-between p-2 rounded-lg border text-xs transition-colors ${
+                position >= 0 ? 'bg-emerald-500/10 border-emerald-500/20 text-white' : 'bg-white/5 border-white/5 text-white/40'
+              }`}
+            >
+              <span>{TIE_BREAKERS[key]}</span>
+              <span className="font-mono">{position >= 0 ? position + 1 : '—'}</span>
+            </button>
+          );
+        })}
+      </div>
+      <p className="text-[10px] font-mono text-white/40">Click tie-breakers in the order they apply. Teams still level share a rank.</p>
+      <Button onClick={() => onSave({ mode, tieBreakers: tieBreakers.filter(k => k !== mode) })} variant="secondary" className="w-full py-2 text-xs">
+        Save Leaderboard <Save className="w-3 h-3" />
+      </Button>
+    </div>
+  );
+};
+
+const LeaderboardFreezeControls = ({
+  freeze,
+  onFreeze,
+  onUnfreeze
+}: {
+  freeze: Pick<LeaderboardFreeze, 'rounds' | 'frozenAt'> | null,
+  onFreeze: (rounds: number) => void,
+  onUnfreeze: () => void
+}) => {
+  const [rounds, setRounds] = useState('3');
+
+  return freeze ? (
+    <div className="space-y-3">
+      <p className="text-xs text-sky-400">
+        Frozen at {new Date(freeze.frozenAt).toLocaleTimeString()} for the final {freeze.rounds} round{freeze.rounds === 1 ? '' : 's'}.
+        Players and the projector still see the standings from then; the table here is live.
+        Starting a round after those lifts the freeze.
+      </p>
+      <Button onClick={onUnfreeze} className="w-full py-3 text-xs">
+        Unfreeze & Reveal <Unlock className="w-3 h-3" />
+      </Button>
+    </div>
+  ) : (
+    <div className="space-y-2">
+      <div className="flex gap-2 items-end">
+        <Input label="Final Rounds" type="number" value={rounds} onChange={setRounds} className="flex-1" />
+        <Button onClick={() => onFreeze(parseInt(rounds, 10))} variant="secondary" className="py-3 text-xs">
+          Freeze <Snowflake className="w-3 h-3" />
+        </Button>
+      </div>
+      <p className="text-[10px] font-mono text-white/40">Hides the real standings from players until you unfreeze them or those rounds are over.</p>
+    </div>
+  );
+};
+
+// The figure a team is ranked on, for modes other than balance.
+const formatModeValue = (mode: LeaderboardMode, t: Team) => {
+  switch (mode) {
+    case 'accuracy': return t.average_error != null ? `${t.average_error.toFixed(1)}% avg error` : 'No answers yet';
+    case 'precision': return `${t.precision_hits ?? 0} ultra precision`;
+    case 'roi': return t.roi != null ? `${t.roi > 0 ? '+' : ''}${t.roi.toFixed(1)}% ROI` : 'No bids yet';
+    default: return null;
+  }
+};
+
+// Admin actions on one team at a time, plus the list of removed teams that can be let back in.
+// Hosts manage teams; scorekeepers only adjust balances.
+const TeamManager = ({
+  teams,
+  canManage,
+  canAdjust,
+  onRename,
+  onAdjust,
+  onMerge,
+  onRemove,
+  onReinstate
+}: {
+  teams: Team[],
+  canManage: boolean,
+  canAdjust: boolean,
+  onRename: (team: Team, name: string) => void,
+  onAdjust: (team: Team, amount: number, reason: string) => Promise<boolean>,
+  onMerge: (team: Team, into: Team) => void,
+  onRemove: (team: Team, ban: boolean, reason: string) => void,
+  onReinstate: (team: Team) => void
+}) => {
+  const active = teams.filter(t => !t.removed_at);
+  const removed = teams.filter(t => t.removed_at);
+  const [teamId, setTeamId] = useState('');
+  const [name, setName] = useState('');
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [mergeInto, setMergeInto] = useState('');
+  const [removeReason, setRemoveReason] = useState('');
+  const selected = active.find(t => t.id === Number(teamId)) ?? null;
+
+  useEffect(() => {
+    setName(selected?.name ?? '');
+    setAmount('');
+    setReason('');
+    setMergeInto('');
+    setRemoveReason('');
+  }, [selected?.id]);
+
+  const mergeTarget = active.find(t => t.id === Number(mergeInto));
+
+  return (
+    <div className="space-y-6">
+      <Select
+        label="Team"
+        value={teamId}
+        onChange={setTeamId}
+        options={[
+          { value: '', label: active.length ? 'Choose a team…' : 'No teams yet' },
+          ...active.map(t => ({ value: t.id, label: `${t.name} · ${t.balance.toFixed(0)} coins` }))
+        ]}
+      />
+      {selected && canManage && (
+        <div className="flex gap-2 items-end">
+          <Input label="Name" value={name} onChange={setName} className="flex-1" />
+          <Button
+            onClick={() => onRename(selected, name.trim())}
+            variant="secondary"
+            disabled={!name.trim() || name.trim() === selected.name}
+            className="py-3 text-xs"
+          >
+            Rename <PenLine className="w-3 h-3" />
+          </Button>
+        </div>
+      )}
+
+      {selected && canAdjust && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            <Input label="Coins" type="number" value={amount} onChange={setAmount} placeholder="-100" />
+            <Input label="Reason" value={reason} onChange={setReason} placeholder="Required" className="col-span-2" />
+          </div>
+          <Button
+            onClick={async () => {
+              if (await onAdjust(selected, parseFloat(amount), reason.trim())) {
+                setAmount('');
+                setReason('');
+              }
+            }}
+            variant="secondary"
+            disabled={!parseFloat(amount) || !reason.trim()}
+            className="w-full py-2 text-xs"
+          >
+            Adjust Balance <Coins className="w-3 h-3" />
+          </Button>
+        </div>
+      )}
+
+      {selected && canManage && (
+        <>
+          <div className="flex gap-2 items-end">
+            <Select
+              label="Merge Into"
+              value={mergeInto}
+              onChange={setMergeInto}
+              options={[
+                { value: '', label: 'Choose the team to keep…' },
+                ...active.filter(t => t.id !== selected.id).map(t => ({ value: t.id, label: t.name }))
+              ]}
+              className="flex-1"
+            />
+            <Button
+              onClick={() => mergeTarget && onMerge(selected, mergeTarget)}
+              variant="secondary"
+              disabled={!mergeTarget}
+              className="py-3 text-xs"
+            >
+              Merge <Merge className="w-3 h-3" />
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Input label="Removal Reason" value={removeReason} onChange={setRemoveReason} placeholder="Optional, shown to the team" />
+            <div className="grid grid-cols-2 gap-2">
+              <Button onClick={() => onRemove(selected, false, removeReason.trim())} variant="outline" className="py-2 text-xs">
+                Remove <UserMinus className="w-3 h-3" />
+              </Button>
+              <Button onClick={() => onRemove(selected, true, removeReason.trim())} variant="danger" className="py-2 text-xs">
+                Ban <Ban className="w-3 h-3" />
+              </Button>
+            </div>
+            <p className="text-[10px] font-mono text-white/40">Removed teams can rejoin with their PIN; banned teams cannot.</p>
+          </div>
+        </>
+      )}
+
+      {canManage && removed.length > 0 && (
+        <div className="pt-6 border-t border-white/5 space-y-2">
+          <p className="text-[10px] font-mono text-white/40 uppercase tracking-widest">Removed Teams</p>
+          {removed.map(t => (
+            <div key={t.id} className="flex items-center justify-between p-3 rounded-lg bg-white/5 border border-white/5">
+              <div>
+                <p className="text-sm font-semibold text-white/60">{t.name}</p>
+                <p className={`text-[10px] font-mono uppercase ${t.banned_at ? 'text-rose-500' : 'text-white/40'}`}>
+                  {t.banned_at ? 'Banned' : 'Removed'} · {t.balance.toFixed(0)} coins
+                </p>
+              </div>
+              <button
+                onClick={() => onReinstate(t)}
+                title="Reinstate team"
+                className="p-2 text-white/40 hover:text-emerald-400 transition-colors"
+              >
+                <UserCheck className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const RoundHintEditor = ({
+  hints,
+  editable,
+  onAdd,
+  onRemove
+}: {
+  hints: HintSales[],
+  editable: boolean,
+  onAdd: (input: HintInput) => Promise<boolean>,
+  onRemove: (id: number) => void
+}) => {
+  const [text, setText] = useState('');
+  const [price, setPrice] = useState('50');
+
+  const handleAdd = async () => {
+    if (await onAdd({ text, price: parseFloat(price) })) setText('');
+  };
+
+  return (
+    <div className="space-y-4">
+      {hints.length === 0 ? (
+        <p className="text-xs text-white/20 italic">No hints on this round.</p>
+      ) : (
+        <div className="space-y-2">
+          {hints.map(hint => (
+            <div key={hint.id} className="flex items-start justify-between gap-3 p-3 rounded-lg bg-white/5 border border-white/5">
+              <div className="space-y-1">
+                <p className="text-sm">{hint.position}. {hint.text}</p>
+                <p className="text-[10px] font-mono text-white/40">
+                  {hint.price} COINS · {hint.buyers.length ? `Bought by ${hint.buyers.map(b => b.teamName).join(', ')}` : 'Not bought yet'}
+                </p>
+              </div>
+              {editable && hint.buyers.length === 0 && (
+                <button onClick={() => onRemove(hint.id)} className="p-1 text-white/40 hover:text-rose-500 transition-colors">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      {editable && (
+        <div className="space-y-2">
+          <Input label="New Hint" placeholder="e.g. Last year's value was 412" value={text} onChange={setText} />
+          <div className="flex gap-2 items-end">
+            <Input label="Price" type="number" value={price} onChange={setPrice} suffix="COINS" className="flex-1" />
+            <Button onClick={handleAdd} variant="secondary" className="py-3 px-4" disabled={!text.trim()}>
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface RoundFormatDraft {
+  type: RoundType;
+  options: { label: string, odds: string }[];
+  line: string;
+  overOdds: string;
+  underOdds: string;
+}
+
+const EMPTY_FORMAT_DRAFT: RoundFormatDraft = {
+  type: 'point',
+  options: [{ label: '', odds: '2' }, { label: '', odds: '2' }],
+  line: '',
+  overOdds: '2',
+  underOdds: '2'
+};
+
+// Only the fields the round type uses are sent; the server validates the rest.
+const fromFormatDraft = (draft: RoundFormatDraft): Partial<RoundFormat> => {
+  switch (draft.type) {
+    case 'choice':
+      return { type: draft.type, options: draft.options.map(o => ({ label: o.label, odds: Number(o.odds) })) };
+    case 'over_under':
+      return {
+        type: draft.type,
+        line: draft.line === '' ? undefined : Number(draft.line),
+        options: overUnderOptions(Number(draft.overOdds), Number(draft.underOdds))
+      };
+    default:
+      return { type: draft.type };
+  }
+};
+
+const RoundFormatEditor = ({
+  draft,
+  onChange,
+  disabled
+}: {
+  draft: RoundFormatDraft,
+  onChange: (draft: RoundFormatDraft) => void,
+  disabled?: boolean
+}) => {
+  const setOption = (index: number, patch: Partial<{ label: string, odds: string }>) =>
+    onChange({ ...draft, options: draft.options.map((o, i) => i === index ? { ...o, ...patch } : o) });
+
+  return (
+    <div className="space-y-4">
+      <Select
+        label="Round Type"
+        value={draft.type}
+        onChange={(type) => onChange({ ...draft, type: type as RoundType })}
+        options={(Object.keys(ROUND_TYPES) as RoundType[]).map(type => ({ value: type, label: ROUND_TYPES[type].name }))}
+        disabled={disabled}
+      />
+      <p className="text-[10px] text-white/40">{ROUND_TYPES[draft.type].description}</p>
+      {draft.type === 'choice' && (
+        <div className="space-y-2">
+          {draft.options.map((option, i) => (
+            <div key={i} className="flex items-end gap-2">
+              <Input
+                label={`Option ${i + 1}`}
+                value={option.label}
+                onChange={(label) => setOption(i, { label })}
+                className="flex-1"
+                disabled={disabled}
+              />
+              <Input
+                label="Odds"
+                type="number"
+                suffix="X"
+                value={option.odds}
+                onChange={(odds) => setOption(i, { odds })}
+                className="w-28"
+                disabled={disabled}
+              />
+              <button
+                onClick={() => onChange({ ...draft, options: draft.options.filter((_, j) => j !== i) })}
+                disabled={disabled || draft.options.length <= 2}
+                className="p-3 text-white/20 hover:text-rose-500 disabled:opacity-30"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            onClick={() => onChange({ ...draft, options: [...draft.options, { label: '', odds: '2' }] })}
+            className="w-full py-2 text-xs"
+            disabled={disabled}
+          >
+            Add Option <Plus className="w-3 h-3" />
+          </Button>
+        </div>
+      )}
+      {draft.type === 'over_under' && (
+        <div className="grid grid-cols-3 gap-2">
+          <Input label="Line" type="number" value={draft.line} onChange={(line) => onChange({ ...draft, line })} disabled={disabled} />
+          <Input label="Over" type="number" suffix="X" value={draft.overOdds} onChange={(overOdds) => onChange({ ...draft, overOdds })} disabled={disabled} />
+          <Input label="Under" type="number" suffix="X" value={draft.underOdds} onChange={(underOdds) => onChange({ ...draft, underOdds })} disabled={disabled} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface SubQuestionDraft {
+  question: string;
+  unit: string;
+}
+
+// An empty list starts an ordinary single-question round.
+const SubQuestionsEditor = ({
+  drafts,
+  onChange,
+  disabled
+}: {
+  drafts: SubQuestionDraft[],
+  onChange: (drafts: SubQuestionDraft[]) => void,
+  disabled?: boolean
+}) => {
+  const setDraft = (index: number, patch: Partial<SubQuestionDraft>) =>
+    onChange(drafts.map((d, i) => i === index ? { ...d, ...patch } : d));
+
+  return (
+    <div className="space-y-2">
+      {drafts.length > 0 && (
+        <label className="text-xs font-mono uppercase tracking-widest text-white/40">Sub-questions</label>
+      )}
+      {drafts.map((draft, i) => (
+        <div key={i} className="flex items-end gap-2">
+          <Input
+            label={`Q${i + 1}`}
+            placeholder="e.g. Total runs scored"
+            value={draft.question}
+            onChange={(question) => setDraft(i, { question })}
+            className="flex-1"
+            disabled={disabled}
+          />
+          <Input
+            label="Unit"
+            value={draft.unit}
+            onChange={(unit) => setDraft(i, { unit })}
+            className="w-24"
+            disabled={disabled}
+          />
+          <button
+            onClick={() => onChange(drafts.filter((_, j) => j !== i))}
+            disabled={disabled}
+            className="p-3 text-white/20 hover:text-rose-500 disabled:opacity-30"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        onClick={() => onChange([
+          ...drafts,
+          // A multi-question round needs at least two, so the first click adds both.
+          ...Array.from({ length: drafts.length ? 1 : 2 }, () => ({ question: '', unit: '' }))
+        ])}
+        className="w-full py-2 text-xs"
+        disabled={disabled || drafts.length >= MAX_SUB_QUESTIONS}
+      >
+        {drafts.length ? 'Add Sub-question' : 'Make Multi-question'} <Plus className="w-3 h-3" />
+      </Button>
+    </div>
+  );
+};
+
+// Sub-questions are revealed one at a time or together; once the whole round is
+// revealed each one can still be corrected on its own.
+const SubQuestionRevealPanel = ({
+  round,
+  onReveal,
+  onCorrect
+}: {
+  round: Round,
+  onReveal: (answers: { subQuestionId: number, actualValue: number }[]) => Promise<boolean>,
+  onCorrect: (subQuestionId: number, actualValue: number) => Promise<boolean>
+}) => {
+  const [values, setValues] = useState<Record<number, string>>({});
+  const subQuestions = round.sub_questions ?? [];
+  const revealed = round.status === 'revealed';
+  const ready = subQuestions.filter(q => q.settled_at == null && values[q.id]);
+
+  const clear = (ids: number[]) =>
+    setValues(current => Object.fromEntries(Object.entries(current).filter(([id]) => !ids.includes(Number(id)))));
+
+  const submit = async (ids: number[]) => {
+    const answers = ids.map(id => ({ subQuestionId: id, actualValue: parseFloat(values[id]) }));
+    if (await onReveal(answers)) clear(ids);
+  };
+
+  return (
+    <div className="space-y-3">
+      {subQuestions.map(q => (
+        <div key={q.id} className="flex items-end gap-2">
+          <Input
+            label={`Q${q.position} · ${q.question}`}
+            type="number"
+            placeholder={
+              q.actual_value == null ? 'Enter revealed value'
+                : revealed ? `Correct value (was ${q.actual_value})`
+                : `Revealed: ${q.actual_value}`
+            }
+            suffix={q.unit ?? undefined}
+            value={values[q.id] ?? ''}
+            onChange={(value) => setValues({ ...values, [q.id]: value })}
+            className="flex-1"
+            disabled={q.settled_at != null && !revealed}
+          />
+          {revealed ? (
+            <Button
+              variant="outline"
+              onClick={async () => {
+                if (await onCorrect(q.id, parseFloat(values[q.id]))) clear([q.id]);
+              }}
+              className="py-3 px-4 text-xs"
+              disabled={!values[q.id]}
+            >
+              <RotateCcw className="w-4 h-4" />
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              onClick={() => submit([q.id])}
+              className="py-3 px-4 text-xs"
+              disabled={q.settled_at != null || !values[q.id]}
+            >
+              <Eye className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      ))}
+      {!revealed && (
+        <Button
+          onClick={() => submit(ready.map(q => q.id))}
+          variant="danger"
+          className="w-full"
+          disabled={ready.length === 0}
+        >
+          Reveal {ready.length > 1 ? `${ready.length} Answers` : 'Answer'} <Eye className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  );
+};
+
+// A team's answers to a multi-question round, with the actual values and payouts as they come in.
+const SubQuestionAnswerList = ({
+  round,
+  answers
+}: {
+  round: Round,
+  answers: (SubQuestionAnswer & Partial<SubQuestionResult>)[]
+}) => (
+  <div className="space-y-2 text-left">
+    {(round.sub_questions ?? []).map(q => {
+      const answer = answers.find(a => a.subQuestionId === q.id);
+      if (!answer) return null;
+      return (
+        <div key={q.id} className="flex items-center justify-between gap-4 p-3 rounded-2xl bg-white/5 border border-white/5">
+          <div className="min-w-0">
+            <p className="text-sm truncate">
+              <span className="font-mono text-white/40 mr-2">Q{q.position}</span>{q.question}
+            </p>
+            <p className="text-[10px] font-mono text-white/40 uppercase">
+              Predicted {answer.predictedValue}{q.unit && ` ${q.unit}`} · bid {answer.bidAmount}
+              {q.actual_value != null && ` · actual ${q.actual_value}`}
+            </p>
+          </div>
+          {answer.payout != null && q.actual_value != null && (
+            <span className={`font-mono font-bold text-sm ${answer.payout >= answer.bidAmount ? 'text-emerald-400' : 'text-rose-500'}`}>
+              {answer.payout >= answer.bidAmount ? '+' : '-'}{Math.abs(answer.payout - answer.bidAmount).toFixed(0)}
+            </span>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
+
+// The sub-questions of a multi-question round with whichever answers are out so far.
+const SubQuestionBoard = ({ round, className = '' }: { round: Round, className?: string }) => (
+  <div className={`space-y-2 text-left ${className}`}>
+    {(round.sub_questions ?? []).map(q => (
+      <div key={q.id} className="flex items-center justify-between gap-6 p-4 rounded-2xl bg-white/5 border border-white/5">
+        <span><span className="font-mono text-white/40 mr-3">Q{q.position}</span>{q.question}</span>
+        <span className="font-mono font-bold text-emerald-400 shrink-0">
+          {q.actual_value ?? '—'}
+          {q.unit && <span className="ml-2 text-white/40 font-normal">{q.unit}</span>}
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+interface QuestionDraft {
+  theme: string;
+  question: string;
+  unit: string;
+  description: string;
+  answer: string;
+  source: string;
+  difficulty: Difficulty | '';
+}
+
+const EMPTY_QUESTION: QuestionDraft = { theme: '', question: '', unit: '', description: '', answer: '', source: '', difficulty: '' };
+
+const DIFFICULTY_OPTIONS = DIFFICULTIES.map(d => ({ value: d, label: d[0].toUpperCase() + d.slice(1) }));
+
+const QuestionBankEditor = ({
+  questions,
+  queuedIds,
+  onSave,
+  onDelete,
+  onQueue,
+  onImport
+}: {
+  questions: Question[],
+  queuedIds: Set<number>,
+  onSave: (id: number | null, input: QuestionInput) => Promise<boolean>,
+  onDelete: (id: number) => void,
+  onQueue: (id: number) => void,
+  onImport: (file: File) => void
+}) => {
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<QuestionDraft>(EMPTY_QUESTION);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (patch: Partial<QuestionDraft>) => setDraft(d => ({ ...d, ...patch }));
+
+  const edit = (q: Question) => {
+    setEditingId(q.id);
+    setDraft({
+      theme: q.theme,
+      question: q.question,
+      unit: q.unit ?? '',
+      description: q.description ?? '',
+      answer: String(q.answer),
+      source: q.source ?? '',
+      difficulty: q.difficulty ?? ''
+    });
+  };
+
+  const handleSave = async () => {
+    const saved = await onSave(editingId, {
+      theme: draft.theme,
+      question: draft.question,
+      unit: draft.unit,
+      description: draft.description,
+      answer: parseFloat(draft.answer),
+      source: draft.source,
+      difficulty: draft.difficulty || null
+    });
+    if (saved) {
+      setEditingId(null);
+      setDraft(EMPTY_QUESTION);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid md:grid-cols-2 gap-2">
+        <Input label="Theme" placeholder="e.g. IPL Match Metrics" value={draft.theme} onChange={(val) => update({ theme: val })} />
+        <Input label="Unit" placeholder="e.g. runs" value={draft.unit} onChange={(val) => update({ unit: val })} />
+      </div>
+      <Input label="Question" placeholder="e.g. Total sixes hit in IPL 2024?" value={draft.question} onChange={(val) => update({ question: val })} />
+      <Input label="Description (optional)" value={draft.description} onChange={(val) => update({ description: val })} />
+      <div className="grid md:grid-cols-3 gap-2">
+        <Input label="Source (hosts only)" placeholder="e.g. ESPNcricinfo" value={draft.source} onChange={(val) => update({ source: val })} className="md:col-span-2" />
+        <Select
+          label="Difficulty"
+          value={draft.difficulty}
+          onChange={(val) => update({ difficulty: val as Difficulty | '' })}
+          options={[{ value: '', label: 'Not set' }, ...DIFFICULTY_OPTIONS]}
+        />
+      </div>
+      <div className="flex gap-2 items-end">
+        <Input label="Answer" type="number" value={draft.answer} onChange={(val) => update({ answer: val })} className="flex-1" />
+        <Button onClick={handleSave} variant="secondary" className="py-3 text-xs" disabled={!draft.theme || !draft.question || !draft.answer}>
+          {editingId === null ? 'Add' : 'Save'} <Save className="w-3 h-3" />
+        </Button>
+        {editingId !== null && (
+          <Button onClick={() => { setEditingId(null); setDraft(EMPTY_QUESTION); }} variant="outline" className="py-3 text-xs">
+            Cancel
+          </Button>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between pt-4 border-t border-white/5">
+        <p className="text-[10px] font-mono text-white/40 uppercase tracking-widest">
+          Import .json or .csv ({QUESTION_CSV_COLUMNS.join(', ')})
+        </p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+        <Button onClick={() => fileInputRef.current?.click()} variant="outline" className="py-2 px-3 text-xs">
+          Import <Upload className="w-3 h-3" />
+        </Button>
+      </div>
+
+      <div className="space-y-2 max-h-[360px] overflow-y-auto pr-2 custom-scrollbar">
+        {questions.length === 0 ? (
+          <p className="text-sm text-white/20 italic">The question bank is empty.</p>
+        ) : questions.map(q => (
+          <div key={q.id} className="flex items-center justify-between gap-4 p-3 rounded-lg bg-white/5 border border-white/5">
+            <div className="min-w-0">
+              <p className="text-[10px] font-mono text-emerald-500 uppercase tracking-widest">{q.theme}</p>
+              <p className="text-sm truncate">{q.question}</p>
+              <p className="text-[10px] font-mono text-white/40">
+                ANSWER: {q.answer}{q.unit ? ` ${q.unit}` : ''}
+                {q.difficulty && ` · ${q.difficulty.toUpperCase()}`}
+              </p>
+              {q.source && <p className="text-[10px] text-white/30 truncate">Source: {q.source}</p>}
+            </div>
+            <div className="flex gap-1 shrink-0">
+              <Button onClick={() => onQueue(q.id)} variant="outline" className="py-1 px-3 text-xs" disabled={queuedIds.has(q.id)}>
+                {queuedIds.has(q.id) ? 'Queued' : 'Queue'}
+              </Button>
+              <Button onClick={() => edit(q)} variant="outline" className="py-1 px-3 text-xs">
+                Edit
+              </Button>
+              <Button onClick={() => onDelete(q.id)} variant="outline" className="py-1 px-2 text-xs text-rose-500 border-rose-500/20">
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Generated candidates stay editable drafts until the host adds them to the bank.
+interface CandidateDraft extends Omit<GeneratedQuestion, 'unit' | 'answer'> {
+  key: number;
+  unit: string;
+  answer: string;
+}
+
+const QuestionGenerator = ({
+  onGenerate,
+  onAccept
+}: {
+  onGenerate: (request: GenerationRequest) => Promise<{ provider: string, candidates: GeneratedQuestion[] } | null>,
+  onAccept: (input: QuestionInput) => Promise<boolean>
+}) => {
+  const [topic, setTopic] = useState('');
+  const [count, setCount] = useState('5');
+  const [difficulty, setDifficulty] = useState<Difficulty | ''>('');
+  const [generating, setGenerating] = useState(false);
+  const [provider, setProvider] = useState<string | null>(null);
+  const [candidates, setCandidates] = useState<CandidateDraft[]>([]);
+  const nextKey = useRef(0);
+
+  const update = (key: number, patch: Partial<CandidateDraft>) =>
+    setCandidates(list => list.map(c => c.key === key ? { ...c, ...patch } : c));
+  const discard = (key: number) => setCandidates(list => list.filter(c => c.key !== key));
+
+  const generate = async () => {
+    setGenerating(true);
+    const result = await onGenerate({ topic, count: Number(count), difficulty: difficulty || null });
+    setGenerating(false);
+    if (!result) return;
+    setProvider(result.provider);
+    setCandidates(result.candidates.map(c => ({ ...c, key: nextKey.current++, unit: c.unit ?? '', answer: String(c.answer) })));
+  };
+
+  const accept = async (candidate: CandidateDraft) => {
+    const added = await onAccept({
+      theme: candidate.theme,
+      question: candidate.question,
+      unit: candidate.unit,
+      answer: parseFloat(candidate.answer),
+      source: candidate.source,
+      difficulty: candidate.difficulty
+    });
+    if (added) discard(candidate.key);
+    return added;
+  };
+
+  const acceptAll = async () => {
+    for (const candidate of candidates) {
+      if (!(await accept(candidate))) return;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-2 items-end">
+        <Input label="Topic" placeholder="e.g. IPL records" value={topic} onChange={setTopic} className="flex-1" />
+        <Input label="How many" type="number" value={count} onChange={setCount} className="w-24" />
+        <Select
+          label="Difficulty"
+          value={difficulty}
+          onChange={(val) => setDifficulty(val as Difficulty | '')}
+          options={[{ value: '', label: 'Mixed' }, ...DIFFICULTY_OPTIONS]}
+          className="w-32"
+        />
+      </div>
+      <Button
+        onClick={generate}
+        variant="secondary"
+        className="w-full"
+        disabled={generating || !topic.trim() || !(Number(count) >= 1 && Number(count) <= MAX_GENERATED_QUESTIONS)}
+      >
+        {generating ? 'Generating…' : 'Generate Questions'} <Sparkles className="w-4 h-4" />
+      </Button>
+
+      {candidates.length > 0 && (
+        <div className="space-y-3 pt-4 border-t border-white/5">
+          <div className="flex items-center justify-between">
+            <p className="text-[10px] font-mono text-white/40 uppercase tracking-widest">
+              {candidates.length} to review · {provider}
+            </p>
+            <Button onClick={acceptAll} variant="outline" className="py-1 px-3 text-xs">
+              Add All <Plus className="w-3 h-3" />
+            </Button>
+          </div>
+          <p className="text-[10px] text-white/40">Check each answer against its source before adding it; generated facts can be wrong.</p>
+          {candidates.map(candidate => (
+            <div key={candidate.key} className="p-4 rounded-2xl bg-white/5 border border-white/5 space-y-2">
+              <div className="grid md:grid-cols-3 gap-2">
+                <Input label="Theme" value={candidate.theme} onChange={(theme) => update(candidate.key, { theme })} className="md:col-span-2" />
+                <Select
+                  label="Difficulty"
+                  value={candidate.difficulty}
+                  onChange={(val) => update(candidate.key, { difficulty: val as Difficulty })}
+                  options={DIFFICULTY_OPTIONS}
+                />
+              </div>
+              <Input label="Question" value={candidate.question} onChange={(question) => update(candidate.key, { question })} />
+              <div className="grid grid-cols-2 gap-2">
+                <Input label="Answer" type="number" value={candidate.answer} onChange={(answer) => update(candidate.key, { answer })} />
+                <Input label="Unit" value={candidate.unit} onChange={(unit) => update(candidate.key, { unit })} />
+              </div>
+              <Input label="Source" value={candidate.source} onChange={(source) => update(candidate.key, { source })} />
+              <div className="flex justify-end gap-2 pt-2">
+                <Button onClick={() => discard(candidate.key)} variant="outline" className="py-1 px-3 text-xs">
+                  Discard
+                </Button>
+                <Button
+                  onClick={() => accept(candidate)}
+                  variant="secondary"
+                  className="py-1 px-3 text-xs"
+                  disabled={!candidate.theme || !candidate.question || !candidate.answer}
+                >
+                  Add to Bank <Save className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const SNAPSHOT_REASONS: Record<SnapshotEntry['reason'], string> = {
+  manual: 'Manual',
+  upload: 'Uploaded',
+  before_reset: 'Before reset',
+  before_restore: 'Before restore',
+  before_correction: 'Before correction'
+};
+
+const SnapshotList = ({
+  snapshots,
+  onCreate,
+  onRestore,
+  onDownload,
+  onUpload
+}: {
+  snapshots: SnapshotEntry[],
+  onCreate: (label: string) => void,
+  onRestore: (snapshot: SnapshotEntry) => void,
+  onDownload: (snapshot: SnapshotEntry) => void,
+  onUpload: (file: File) => void
+}) => {
+  const [label, setLabel] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-2 items-end">
+        <Input label="Label (optional)" placeholder="e.g. After round 5" value={label} onChange={setLabel} className="flex-1" />
+        <Button onClick={() => { onCreate(label); setLabel(''); }} variant="secondary" className="py-3 text-xs">
+          Take Snapshot <Save className="w-3 h-3" />
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onUpload(file);
+            e.target.value = '';
+          }}
+        />
+        <Button onClick={() => fileInputRef.current?.click()} variant="outline" className="py-3 text-xs">
+          Upload <Upload className="w-3 h-3" />
+        </Button>
+      </div>
+
+      <div className="space-y-2 max-h-[360px] overflow-y-auto pr-2 custom-scrollbar">
+        {snapshots.length === 0 ? (
+          <p className="text-sm text-white/20 italic">No snapshots yet. One is taken automatically before every reset.</p>
+        ) : snapshots.map(snapshot => (
+          <div key={snapshot.id} className="flex items-center justify-between gap-4 p-3 rounded-lg bg-white/5 border border-white/5">
+            <div className="min-w-0">
+              <p className="text-[10px] font-mono text-emerald-500 uppercase tracking-widest">
+                #{snapshot.id} · {SNAPSHOT_REASONS[snapshot.reason] ?? snapshot.reason}
+              </p>
+              {snapshot.label && <p className="text-sm truncate">{snapshot.label}</p>}
+              <p className="text-[10px] font-mono text-white/40">
+                {new Date(snapshot.created_at).toLocaleString()} · {snapshot.team_count} teams · {snapshot.round_count} rounds
+                {snapshot.username ? ` · ${snapshot.username}` : ''}
+              </p>
+            </div>
+            <div className="flex gap-1 shrink-0">
+              <Button onClick={() => onDownload(snapshot)} variant="outline" className="py-1 px-2 text-xs">
+                <Download className="w-3 h-3" />
+              </Button>
+              <Button onClick={() => onRestore(snapshot)} variant="outline" className="py-1 px-3 text-xs text-amber-500 border-amber-500/20">
+                Restore
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Balance after each revealed round, starting from the opening grant.
+const BalanceChart = ({ startingBalance, rounds }: { startingBalance: number, rounds: RoundHistory[] }) => {
+  const points = [{ label: 'Start', balance: startingBalance }, ...rounds.map(r => ({ label: `R${r.number}`, balance: r.balanceAfter }))];
+  const width = 300;
+  const height = 100;
+  const low = Math.min(...points.map(p => p.balance));
+  const high = Math.max(...points.map(p => p.balance));
+  const span = high - low || 1;
+  const x = (i: number) => points.length > 1 ? (i / (points.length - 1)) * width : width / 2;
+  const y = (balance: number) => height - ((balance - low) / span) * height;
+  const line = points.map((p, i) => `${x(i).toFixed(1)},${y(p.balance).toFixed(1)}`).join(' ');
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-[10px] font-mono text-white/40 uppercase tracking-widest">Balance</p>
+        <p className="text-[10px] font-mono text-white/40">{low.toFixed(0)} – {high.toFixed(0)}</p>
+      </div>
+      <svg viewBox={`-4 -4 ${width + 8} ${height + 8}`} className="w-full h-28 overflow-visible">
+        <line x1={0} x2={width} y1={y(startingBalance)} y2={y(startingBalance)} className="stroke-white/10" strokeDasharray="4 4" />
+        <polyline points={line} fill="none" className="stroke-emerald-500" strokeWidth={2} strokeLinejoin="round" />
+        {points.map((p, i) => (
+          <circle key={p.label} cx={x(i)} cy={y(p.balance)} r={3} className={p.balance >= startingBalance ? 'fill-emerald-400' : 'fill-rose-500'}>
+            <title>{p.label}: {p.balance.toFixed(0)}</title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+const formatSigned = (n: number, digits = 0) => `${n > 0 ? '+' : ''}${n.toFixed(digits)}`;
+
+const PerformancePanel = ({ history }: { history: TeamRoundHistory }) => {
+  const { performance, rounds } = history;
+  const { calibration } = performance;
+  if (rounds.length === 0) {
+    return <p className="text-xs text-white/20 italic">Your results show up here once the first round is revealed.</p>;
+  }
+  const tiles = [
+    { label: 'Rounds played', value: String(performance.roundsPlayed) },
+    { label: 'Avg error', value: performance.averageErrorPercent != null ? `${performance.averageErrorPercent.toFixed(1)}%` : '—' },
+    { label: 'ROI', value: performance.roi != null ? `${formatSigned(performance.roi, 1)}%` : '—' }
+  ];
+  const bias = calibration.biasPercent;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-3 gap-3">
+        {tiles.map(tile => (
+          <div key={tile.label} className="p-3 bg-white/5 rounded-2xl border border-white/5">
+            <p className="text-[10px] font-mono text-white/40 uppercase tracking-widest">{tile.label}</p>
+            <p className="text-lg font-mono font-bold">{tile.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-[10px] font-mono text-white/40 uppercase tracking-widest">Calibration</p>
+        {calibration.estimates === 0 ? (
+          <p className="text-xs text-white/20 italic">No revealed point estimates yet.</p>
+        ) : (
+          <p className="text-xs text-white/60">
+            {Math.abs(bias!) < 1 ? 'No clear lean' : bias! > 0 ? 'You tend to guess high' : 'You tend to guess low'}
+            <span className="font-mono text-white/40"> · bias {formatSigned(bias!, 1)}% · {calibration.over} over, {calibration.under} under</span>
+          </p>
+        )}
+      </div>
+
+      <BalanceChart startingBalance={history.startingBalance} rounds={rounds} />
+
+      <div className="space-y-2 max-h-[400px] overflow-y-auto pr-2 custom-scrollbar">
+        {[...rounds].reverse().map(round => (
+          <div key={round.roundId} className="p-3 rounded-lg bg-white/5 border border-white/5 space-y-2">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-[10px] font-mono text-emerald-500 uppercase tracking-widest">Round {round.number}</p>
+                <p className="text-sm truncate">{round.theme}</p>
+              </div>
+              <div className="text-right shrink-0">
+                <p className={`text-sm font-mono font-bold ${round.profit > 0 ? 'text-emerald-400' : round.profit < 0 ? 'text-rose-500' : 'text-white/40'}`}>
+                  {formatSigned(round.profit)}
+                </p>
+                <p className="text-[10px] font-mono text-white/20">{round.balanceAfter.toFixed(0)}</p>
+              </div>
+            </div>
+            {round.voided ? (
+              <p className="text-xs text-white/40 italic">Voided, bids refunded.</p>
+            ) : round.entries.length === 0 ? (
+              <p className="text-xs text-white/20 italic">Sat out{round.answer != null ? ` · answer ${round.answer}` : ''}</p>
+            ) : round.entries.map((entry, i) => (
+              <div key={i} className="grid grid-cols-4 gap-2 text-[10px] font-mono">
+                <span className="text-white/60 truncate">
+                  {entry.subQuestion && <span className="text-white/40">Q{entry.subQuestion.position} </span>}
+                  {entry.prediction}
+                </span>
+                <span className="text-white/40 truncate">ans {entry.actualValue != null ? (entry.subQuestion ? formatStat(entry.actualValue) : round.answer) : '—'}</span>
+                <span className="text-white/40">bid {entry.bidAmount.toFixed(0)} → {entry.payout.toFixed(0)}</span>
+                <span className="text-white/40 text-right">{entry.errorPercent != null ? `${entry.errorPercent.toFixed(1)}% off` : '—'}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+type ExportDataset = 'teams' | 'rounds' | 'submissions' | 'standings';
+type ExportFormat = 'csv' | 'json';
+
+const EXPORT_DATASETS: { id: ExportDataset, name: string, description: string }[] = [
+  { id: 'standings', name: 'Standings', description: 'Rank, balance, profit and average error per team' },
+  { id: 'submissions', name: 'Submissions', description: 'Every prediction with its bid, error and score' },
+  { id: 'rounds', name: 'Rounds', description: 'Questions, answers and totals per round' },
+  { id: 'teams', name: 'Teams', description: 'Balances, debt, rebuys and eliminations' }
+];
+
+const ResultsExport = ({
+  onDownload,
+  onOpenReport,
+  onDownloadReport
+}: {
+  onDownload: (dataset: ExportDataset, format: ExportFormat) => void,
+  onOpenReport: () => void,
+  onDownloadReport: () => void
+}) => (
+  <div className="space-y-6">
+    <div className="space-y-2">
+      {EXPORT_DATASETS.map(dataset => (
+        <div key={dataset.id} className="flex items-center justify-between gap-4 p-3 rounded-lg bg-white/5 border border-white/5">
+          <div className="min-w-0">
+            <p className="text-sm font-bold">{dataset.name}</p>
+            <p className="text-[10px] font-mono text-white/40">{dataset.description}</p>
+          </div>
+          <div className="flex gap-1 shrink-0">
+            <Button onClick={() => onDownload(dataset.id, 'csv')} variant="outline" className="py-1 px-3 text-xs">
+              CSV <Download className="w-3 h-3" />
+            </Button>
+            <Button onClick={() => onDownload(dataset.id, 'json')} variant="outline" className="py-1 px-3 text-xs">
+              JSON <Download className="w-3 h-3" />
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+    <div className="pt-6 border-t border-white/5 space-y-3">
+      <p className="text-xs text-white/40">
+        The report has the final ranking, every round's answers, each team's profit and accuracy per round, and the game's highlights. Print it or save it as PDF from the browser.
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        <Button onClick={onOpenReport} variant="secondary" className="py-3 text-xs">
+          Open Report <FileText className="w-3 h-3" />
+        </Button>
+        <Button onClick={onDownloadReport} variant="outline" className="py-3 text-xs">
+          Download HTML <Download className="w-3 h-3" />
+        </Button>
+      </div>
+    </div>
+  </div>
+);
+
+const formatStat = (n: number) => Math.abs(n) >= 1000 ? n.toFixed(0) : n.toFixed(n % 1 === 0 ? 0 : 2);
+
+const RoundStatsPanel = ({ stats, unit, highlightTeamId }: { stats: RoundStats, unit?: string | null, highlightTeamId?: number }) => {
+  if (stats.count === 0) {
+    return <p className="text-sm text-white/20 italic text-center">No predictions were submitted this round.</p>;
+  }
+  const peak = Math.max(...stats.histogram.map(b => b.count));
+  const choicePeak = stats.choices ? Math.max(...stats.choices.map(c => c.count)) : 0;
+  const estimates = [
+    { label: 'Crowd (trimmed)', estimate: stats.trimmedMean },
+    { label: 'Median', estimate: stats.median },
+    { label: 'Mean', estimate: stats.mean }
+  ];
+
+  return (
+    <div className="space-y-6 text-left">
+      {stats.subQuestions ? (
+        <div className="space-y-8">
+          {stats.subQuestions.map(q => (
+            <div key={q.id} className="space-y-3">
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-sm"><span className="font-mono text-white/40 mr-2">Q{q.position}</span>{q.question}</p>
+                <span className="text-xs font-mono text-emerald-400 shrink-0">
+                  {q.stats.actualValue != null && formatStat(q.stats.actualValue)}{q.unit && ` ${q.unit}`}
+                </span>
+              </div>
+              <RoundStatsPanel stats={q.stats} unit={q.unit} highlightTeamId={highlightTeamId} />
+            </div>
+          ))}
+        </div>
+      ) : stats.choices ? (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-[10px] font-mono text-white/40 uppercase tracking-widest">Picks</p>
+            <p className="text-[10px] font-mono text-white/40">{stats.count} teams</p>
+          </div>
+          {stats.choices.map(choice => (
+            <div key={choice.label} className="space-y-1">
+              <div className="flex items-center justify-between text-xs">
+                <span className={choice.correct ? 'text-emerald-400 font-bold' : 'text-white/60'}>
+                  {choice.label} <span className="font-mono text-white/40">{choice.odds}x</span>
+                </span>
+                <span className="font-mono text-white/40">{choice.count}</span>
+              </div>
+              <div className="h-2 rounded-full bg-white/5 overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${choice.correct ? 'bg-emerald-500' : 'bg-indigo-500/60'}`}
+                  style={{ width: `${choicePeak ? (choice.count / choicePeak) * 100 : 0}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-3">
+            {estimates.map(({ label, estimate }) => estimate && (
+              <div key={label} className="p-4 bg-white/5 rounded-2xl border border-white/5">
+                <p className="text-[10px] font-mono text-white/40 uppercase tracking-widest">{label}</p>
+                <p className="text-xl font-mono font-bold">{formatStat(estimate.value)}{unit ? <span className="text-xs ml-1 text-white/40">{unit}</span> : null}</p>
+                <p className="text-[10px] font-mono text-white/40">{estimate.errorPercent.toFixed(1)}% off</p>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-[10px] font-mono text-white/40 uppercase tracking-widest">Predictions vs answer</p>
+              {stats.stdDev != null && (
+                <p className="text-[10px] font-mono text-white/40">σ {formatStat(stats.stdDev)} · {stats.count} teams</p>
+              )}
+            </div>
+            <div className="flex items-end gap-1 h-28">
+              {stats.histogram.map(bin => (
+                <div key={bin.label} className="flex-1 flex flex-col items-center justify-end h-full gap-1">
+                  <span className="text-[10px] font-mono text-white/40">{bin.count || ''}</span>
+                  <div
+                    className={`w-full rounded-t ${bin.min === -5 ? 'bg-emerald-500' : 'bg-indigo-500/60'}`}
+                    style={{ height: `${peak ? (bin.count / peak) * 100 : 0}%`, minHeight: bin.count ? 4 : 0 }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-1 mt-1">
+              {stats.histogram.map(bin => (
+                <span key={bin.label} className="flex-1 text-center text-[9px] font-mono text-white/30">{bin.label}</span>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        {stats.closest && (
+          <div className={`p-4 rounded-2xl border ${stats.closest.teamId === highlightTeamId ? 'bg-emerald-500/10 border-emerald-500/30' : 'bg-white/5 border-white/5'}`}>
+            <p className="text-[10px] font-mono text-white/40 uppercase tracking-widest">Closest</p>
+            <p className="font-semibold">{stats.closest.teamName}</p>
+            <p className="text-[10px] font-mono text-white/40">{formatStat(stats.closest.predictedValue)} · {stats.closest.errorPercent.toFixed(1)}% off</p>
+          </div>
+        )}
+        {stats.riskTaker && (
+          <div className={`p-4 rounded-2xl border ${stats.riskTaker.teamId === highlightTeamId ? 'bg-amber-500/10 border-amber-500/30' : 'bg-white/5 border-white/5'}`}>
+            <p className="text-[10px] font-mono text-white/40 uppercase tracking-widest">Biggest Risk-Taker</p>
+            <p className="font-semibold">{stats.riskTaker.teamName}</p>
+            <p className="text-[10px] font-mono text-white/40">Bid {stats.riskTaker.bidAmount} · {stats.riskTaker.stakePercent.toFixed(0)}% of balance</p>
+          </div>
+        )}
+      </div>
+
+      {stats.hints.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-[10px] font-mono text-white/40 uppercase tracking-widest">Hints Bought</p>
+          {stats.hints.map(hint => (
+            <div key={hint.id} className="p-3 rounded-xl bg-white/5 border border-white/5">
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-xs">{hint.position}. {hint.text}</p>
+                <span className="text-[10px] font-mono text-white/40 shrink-0">{hint.price} COINS</span>
+              </div>
+              <p className="text-[10px] font-mono text-white/40 mt-1">
+                {hint.buyers.length === 0 ? 'Nobody bought this hint' : hint.buyers.map((b, i) => (
+                  <span key={b.teamId} className={b.teamId === highlightTeamId ? 'text-emerald-400' : ''}>{i > 0 && ', '}{b.teamName}</span>
+                ))}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+type RevealPhase = 'suspense' | 'answer' | 'distribution' | 'leaderboard';
+
+// Delay before moving on from each phase of the big-screen reveal.
+const REVEAL_PHASE_MS: Record<Exclude<RevealPhase, 'leaderboard'>, number> = {
+  suspense: 2000,
+  answer: 3000,
+  distribution: 5000
+};
+
+// After an unfreeze: a pause, then one more team every step, last place first.
+const UNFREEZE_SUSPENSE_MS = 3000;
+const UNFREEZE_STEP_MS = 1500;
+
+// Read-only projector display. Everything comes from App's WebSocket-driven state;
+// it never sees submission values before the reveal.
+const SpectatorView = ({
+  round,
+  teams,
+  stats,
+  submittedCount,
+  clockOffset,
+  joinCode,
+  mode,
+  freeze,
+  unfrozenAt
+}: {
+  round: Round | null,
+  teams: Team[],
+  stats: RoundStats | null,
+  submittedCount: number,
+  clockOffset: number,
+  joinCode: string,
+  mode: LeaderboardMode,
+  freeze: Pick<LeaderboardFreeze, 'rounds'> | null,
+  unfrozenAt: number | null
+}) => {
+  const [phase, setPhase] = useState<RevealPhase>('leaderboard');
+  // How many teams from the bottom of the board are shown again after an unfreeze; null when not unfreezing.
+  const [unveiled, setUnveiled] = useState<number | null>(null);
+  const shown = Math.min(teams.length, 10);
+  // Ranks as they stood when the current round started, to show movement after the reveal.
+  const baselineRanks = useRef(new Map<number, number>());
+
+  useEffect(() => {
+    baselineRanks.current = new Map(teams.map((t, i) => [t.id, i]));
+  }, [round?.id]);
+
+  useEffect(() => {
+    if (!stats || round?.status !== 'revealed' || stats.roundId !== round.id) return;
+    setPhase('suspense');
+    const timers = [
+      setTimeout(() => setPhase('answer'), REVEAL_PHASE_MS.suspense),
+      setTimeout(() => setPhase('distribution'), REVEAL_PHASE_MS.suspense + REVEAL_PHASE_MS.answer),
+      setTimeout(() => setPhase('leaderboard'), REVEAL_PHASE_MS.suspense + REVEAL_PHASE_MS.answer + REVEAL_PHASE_MS.distribution)
+    ];
+    return () => timers.forEach(clearTimeout);
+  }, [stats?.roundId, stats?.actualValue]);
+
+  useEffect(() => {
+    if (!unfrozenAt) return;
+    setUnveiled(0);
+    const timers = Array.from({ length: shown + 1 }, (_, i) =>
+      setTimeout(() => setUnveiled(i + 1 > shown ? null : i + 1), UNFREEZE_SUSPENSE_MS + i * UNFREEZE_STEP_MS)
+    );
+    return () => timers.forEach(clearTimeout);
+  }, [unfrozenAt]);
+
+  const revealing = round?.status === 'revealed' && stats?.roundId === round.id && phase !== 'leaderboard';
+
+  return (
+    <div className="grid lg:grid-cols-5 gap-10 min-h-[70vh]">
+      <div className="lg:col-span-3 flex flex-col justify-center">
+        <AnimatePresence mode="wait">
+          {unveiled !== null ? (
+            <motion.div key="unfreeze" initial={{ opacity: 0, scale: 0.95 }} animate={{ opacity: 1, scale: 1 }} exit={{ opacity: 0 }} className="space-y-6 text-center">
+              <p className="text-sm font-mono text-sky-400 uppercase tracking-widest">The leaderboard is unfrozen</p>
+              <h2 className="text-7xl font-bold tracking-tighter animate-pulse">The real standings…</h2>
+            </motion.div>
+          ) : !round ? (
+            <motion.div key="waiting" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="space-y-6">
+              <p className="text-sm font-mono text-emerald-500 uppercase tracking-widest">Join now</p>
+              <h2 className="text-7xl font-bold tracking-tighter">Code <span className="font-mono text-emerald-400">{joinCode}</span></h2>
+              <p className="text-2xl text-white/40">Waiting for the first round…</p>
+            </motion.div>
+          ) : revealing ? (
+            <motion.div key={`reveal-${phase}`} initial={{ opacity: 0, scale: 0.95 }} animate={{ opacity: 1, scale: 1 }} exit={{ opacity: 0 }} className="space-y-8 text-center">
+              <p className="text-sm font-mono text-emerald-500 uppercase tracking-widest">{round.theme}</p>
+              {phase === 'suspense' ? (
+                <h2 className="text-7xl font-bold tracking-tighter animate-pulse">The answer is…</h2>
+              ) : round.sub_questions?.length ? (
+                <SubQuestionBoard round={round} className="text-3xl" />
+              ) : (
+                <h2 className="text-8xl font-mono font-bold text-emerald-400">
+                  {round.actual_value != null && describeAnswer(round, round.actual_value)}
+                  {round.unit && <span className="text-3xl ml-3 text-white/40">{round.unit}</span>}
+                </h2>
+              )}
+              {phase === 'distribution' && stats && (
+                <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+                  <RoundStatsPanel stats={stats} unit={round.unit} />
+                </motion.div>
+              )}
+            </motion.div>
+          ) : (
+            <motion.div key={`round-${round.id}-${round.status}`} initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0 }} className="space-y-8">
+              <div className="space-y-3">
+                <p className="text-sm font-mono text-emerald-500 uppercase tracking-widest">
+                  {round.status === 'revealed' ? 'Last round' : round.status === 'open' ? 'Predictions open' : 'Predictions locked'}
+                </p>
+                <h2 className="text-6xl font-bold tracking-tighter leading-none">{round.theme}</h2>
+                {round.question && <p className="text-3xl text-white/80">{round.question}</p>}
+                {round.description && <p className="text-xl text-white/40">{round.description}</p>}
+              </div>
+              {!!round.sub_questions?.length && <SubQuestionBoard round={round} className="text-2xl" />}
+              {round.status === 'revealed' ? (
+                !round.sub_questions?.length && (
+                  <p className="text-5xl font-mono font-bold text-emerald-400">
+                    {round.actual_value != null && describeAnswer(round, round.actual_value)}
+                    {round.unit && <span className="text-2xl ml-3 text-white/40">{round.unit}</span>}
+                  </p>
+                )
+              ) : (
+                <div className="flex items-center gap-10">
+                  <div>
+                    <p className="text-[10px] font-mono text-white/40 uppercase tracking-widest">Submitted</p>
+                    <p className="text-6xl font-mono font-bold">
+                      {submittedCount}<span className="text-2xl text-white/40">/{teams.length}</span>
+                    </p>
+                  </div>
+                  {round.status === 'open' && round.deadline_at && (
+                    <Countdown deadline={round.deadline_at} clockOffset={clockOffset} className="text-5xl" />
+                  )}
+                  {round.status === 'closed' && (
+                    <div className="flex items-center gap-3 text-amber-500 text-3xl font-bold">
+                      <Lock className="w-8 h-8" /> LOCKED
+                    </div>
+                  )}
+                </div>
+              )}
+              <p className="text-lg font-mono text-white/30">Join code {joinCode}</p>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+
+      <Card className="lg:col-span-2 p-8 space-y-4 self-start">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Trophy className="w-6 h-6 text-yellow-500" />
+            <h3 className="text-2xl font-bold tracking-tight">Leaderboard</h3>
+          </div>
+          {freeze && (
+            <span className="flex items-center gap-1 text-sm font-mono font-bold uppercase text-sky-400">
+              <Snowflake className="w-4 h-4" /> Frozen
+            </span>
+          )}
+        </div>
+        {freeze && (
+          <p className="text-sm text-white/40">Standings are hidden for the final {freeze.rounds} round{freeze.rounds === 1 ? '' : 's'}.</p>
+        )}
+        {teams.length === 0 ? (
+          <p className="text-white/20 italic py-10 text-center">No teams joined yet.</p>
+        ) : teams.slice(0, 10).map((t, i) => {
+          if (unveiled !== null && i < shown - unveiled) {
+            return (
+              <div key={t.id} className="flex items-center justify-between p-4 rounded-xl bg-white/5 border border-white/5">
+                <span className="w-8 font-mono text-lg font-bold text-white/40">{t.rank ?? i + 1}</span>
+                <span className="flex-1 text-xl font-mono text-white/20">? ? ?</span>
+              </div>
+            );
+          }
+          const before = baselineRanks.current.get(t.id);
+          const moved = round?.status === 'revealed' && !revealing && unveiled === null && before !== undefined ? before - i : 0;
+          return (
+            <motion.div
+              key={t.id}
+              layout
+              transition={{ type: 'spring', stiffness: 200, damping: 25 }}
+              className={`flex items-center justify-between p-4 rounded-xl bg-white/5 border border-white/5 ${t.eliminated_at ? 'opacity-40' : ''}`}
+            >
+              <div className="flex items-center gap-4">
+                <span className="w-8 font-mono text-lg font-bold text-white/40">{t.rank ?? i + 1}</span>
+                <span className={`text-xl font-semibold ${t.eliminated_at ? 'line-through' : ''}`}>{t.name}</span>
+                {moved > 0 && <span className="flex items-center text-emerald-400 text-sm font-bold"><ArrowUp className="w-4 h-4" />{moved}</span>}
+                {moved < 0 && <span className="flex items-center text-rose-500 text-sm font-bold"><ArrowDown className="w-4 h-4" />{-moved}</span>}
+              </div>
+              <span className="font-mono font-bold text-emerald-400 text-xl">{formatModeValue(mode, t) ?? t.balance.toFixed(0)}</span>
+            </motion.div>
+          );
+        })}
+      </Card>
+    </div>
+  );
+};
+
+// Ticks down to a server-side deadline; clockOffset is serverTime - Date.now() as last observed.
+const Countdown = ({ deadline, clockOffset, className = "" }: { deadline: number, clockOffset: number, className?: string }) => {
+  const [now, setNow] = useState(() => Date.now() + clockOffset);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now() + clockOffset), 250);
+    return () => clearInterval(interval);
+  }, [clockOffset]);
+
+  const remaining = Math.max(0, Math.ceil((deadline - now) / 1000));
+  const minutes = Math.floor(remaining / 60);
+  const seconds = remaining % 60;
+
+  return (
+    <div className={`flex items-center gap-2 font-mono font-bold ${remaining <= 10 ? 'text-rose-500 animate-pulse' : 'text-amber-400'} ${className}`}>
+      <Timer className="w-4 h-4" />
+      {minutes}:{seconds.toString().padStart(2, '0')}
+    </div>
+  );
+};
+
+const LEDGER_LABELS: Record<LedgerEntry['kind'], string> = {
+  grant: 'Starting Grant',
+  escrow: 'Bid Escrow',
+  payout: 'Payout',
+  adjustment: 'Adjustment',
+  refund: 'Refund',
+  forfeit: 'Mandatory Bid',
+  rebuy: 'Re-buy',
+  loan: 'Loan',
+  repayment: 'Loan Repayment',
+  hint: 'Hint',
+  notice: 'Notice'
+};
+
+const TIER_COLORS = ['text-emerald-400', 'text-blue-400', 'text-purple-400', 'text-amber-400', 'text-slate-400'];
+
+// --- Main App ---
+
+export default function App() {
+  // A team session saved by an earlier visit; the first snapshot tells us if the server still honours it.
+  const [storedSession] = useState(() => readStored<TeamSession>(TEAM_SESSION_KEY));
+  const [view, setView] = useState<'landing' | 'participant' | 'admin' | 'spectator'>(storedSession ? 'participant' : 'landing');
+  const [isAdminAuthenticated, setIsAdminAuthenticated] = useState(false);
+  const isAdminAuthenticatedRef = useRef(false);
+  useEffect(() => { isAdminAuthenticatedRef.current = isAdminAuthenticated; }, [isAdminAuthenticated]);
+  const [adminUsernameInput, setAdminUsernameInput] = useState('');
+  const [adminPasswordInput, setAdminPasswordInput] = useState('');
+  const [adminAccount, setAdminAccount] = useState<AdminAccount | null>(null);
+  const adminTokenRef = useRef('');
+  const [showAdminLogin, setShowAdminLogin] = useState(false);
+  const [gameId, setGameId] = useState<number | null>(storedSession?.team.game_id ?? null);
+  const gameIdRef = useRef<number | null>(storedSession?.team.game_id ?? null);
+  useEffect(() => { gameIdRef.current = gameId; }, [gameId]);
+  const [games, setGames] = useState<Game[]>([]);
+  const [team, setTeam] = useState<Team | null>(storedSession?.team ?? null);
+  const [teamToken, setTeamToken] = useState(storedSession?.token ?? '');
+  const teamTokenRef = useRef(storedSession?.token ?? '');
+  useEffect(() => { teamTokenRef.current = teamToken; }, [teamToken]);
+  const [currentRound, setCurrentRound] = useState<Round | null>(null);
+  const currentRoundRef = useRef<Round | null>(null);
+  useEffect(() => { currentRoundRef.current = currentRound; }, [currentRound]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  // The real standings for admins; teams is what the public sees, which differs while frozen.
+  const [standings, setStandings] = useState<Team[]>([]);
+  // Every team of the game for the team management panel, removed ones included.
+  const [adminTeams, setAdminTeams] = useState<Team[]>([]);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardSettings>(DEFAULT_LEADERBOARD);
+  const [leaderboardFreeze, setLeaderboardFreeze] = useState<Pick<LeaderboardFreeze, 'rounds' | 'frozenAt'> | null>(null);
+  const [unfrozenAt, setUnfrozenAt] = useState<number | null>(null);
+  // The signed-in team's own row, read live so its balance stays current while the board is frozen.
+  const [ownTeam, setOwnTeam] = useState<Team | null>(null);
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [roundHints, setRoundHints] = useState<HintSales[]>([]);
+  const [gameTitle, setGameTitle] = useState('DATA PARADOX');
+  const [scoringRules, setScoringRules] = useState<ScoringRuleSet[]>([]);
+  const [defaultScoringRuleId, setDefaultScoringRuleId] = useState<number | null>(null);
+  const [economy, setEconomy] = useState<EconomySettings>(DEFAULT_ECONOMY);
+  const [powerUpInventory, setPowerUpInventory] = useState<PowerUpInventory>(DEFAULT_INVENTORY);
+  const socketRef = useRef<WebSocket | null>(null);
+  // Last per-game event sequence number applied; a gap means we missed something.
+  const lastSeqRef = useRef(0);
+  const [connectionState, setConnectionState] = useState<'connecting' | 'open' | 'reconnecting'>('connecting');
+  const [clockOffset, setClockOffset] = useState(0);
+  const [roundStats, setRoundStats] = useState<RoundStats | null>(null);
+  const [lastResult, setLastResult] = useState<SettlementResult | null>(null);
+  const [submittedCount, setSubmittedCount] = useState(0);
+  // ?screen=<join code> opens the read-only projector display for that game.
+  const [spectatorCode] = useState(() => new URLSearchParams(window.location.search).get('screen')?.toUpperCase() ?? '');
+
+  // Participant State
+  const [teamNameInput, setTeamNameInput] = useState('');
+  const [joinCodeInput, setJoinCodeInput] = useState('');
+  const [pinInput, setPinInput] = useState('');
+  // Holds the picked option's index on choice and over/under rounds.
+  const [predictionInput, setPredictionInput] = useState('');
+  const [intervalLowInput, setIntervalLowInput] = useState('');
+  const [intervalHighInput, setIntervalHighInput] = useState('');
+  // Prediction and bid per sub-question of a multi-question round, keyed by sub-question id.
+  const [answerInputs, setAnswerInputs] = useState<Record<number, { prediction: string, bid: string }>>({});
+  const [bidInput, setBidInput] = useState('');
+  const [powerUpInput, setPowerUpInput] = useState<PowerUpKind | null>(null);
+  const [hedgeInput, setHedgeInput] = useState('');
+  // How many of each power-up this team has left; null until the server says.
+  const [powerUps, setPowerUps] = useState<PowerUpInventory | null>(null);
+  // Hints this team has bought for the current round.
+  const [purchasedHints, setPurchasedHints] = useState<PurchasedHint[]>([]);
+  const [ownSubmission, setOwnSubmission] = useState<OwnSubmission | null>(null);
+  const [pendingSubmission, setPendingSubmission] = useState<PendingSubmission | null>(() =>
+    storedSession ? readStored<PendingSubmission>(PENDING_SUBMISSION_KEY) : null
+  );
+  const pendingSubmissionRef = useRef<PendingSubmission | null>(null);
+  const flushingRef = useRef(false);
+  const [history, setHistory] = useState<LedgerEntry[]>([]);
+  const [roundHistory, setRoundHistory] = useState<TeamRoundHistory | null>(null);
+  const teamRef = useRef<Team | null>(storedSession?.team ?? null);
+  useEffect(() => { teamRef.current = team; }, [team]);
+  useEffect(() => {
+    writeStored(TEAM_SESSION_KEY, team && teamToken ? { team, token: teamToken } : null);
+    if (!team) setPendingSubmission(null);
+  }, [team, teamToken]);
+  useEffect(() => {
+    pendingSubmissionRef.current = pendingSubmission;
+    writeStored(PENDING_SUBMISSION_KEY, pendingSubmission);
+  }, [pendingSubmission]);
+
+  // Admin State
+  const [newGameName, setNewGameName] = useState('');
+  const [newRoundTheme, setNewRoundTheme] = useState('');
+  const [newRoundRuleId, setNewRoundRuleId] = useState('');
+  const [roundDurationInput, setRoundDurationInput] = useState('');
+  const [roundFormatDraft, setRoundFormatDraft] = useState<RoundFormatDraft>(EMPTY_FORMAT_DRAFT);
+  const [subQuestionDrafts, setSubQuestionDrafts] = useState<SubQuestionDraft[]>([]);
+  const [actualValueInput, setActualValueInput] = useState('');
+  const [showResetConfirm, setShowResetConfirm] = useState(false);
+  const [accounts, setAccounts] = useState<AdminAccount[]>([]);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [queue, setQueue] = useState<QueueEntry[]>([]);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [snapshots, setSnapshots] = useState<SnapshotEntry[]>([]);
+  const [newAccountUsername, setNewAccountUsername] = useState('');
+  const [newAccountPassword, setNewAccountPassword] = useState('');
+  const [newAccountRole, setNewAccountRole] = useState<AdminRole>('host');
+
+  const sendMessage = (message: ClientMessage) => {
+    if (socketRef.current?.readyState === WebSocket.OPEN) {
+      socketRef.current.send(JSON.stringify(message));
+    }
+  };
+
+  // Credentials sent with each SUBSCRIBE still waiting for its SNAPSHOT, oldest first, so a
+  // snapshot is only read as "session expired" when it answers a request that carried the token.
+  const pendingSubscribesRef = useRef<{ teamToken?: string, adminToken?: string }[]>([]);
+
+  // The server answers every SUBSCRIBE with a SNAPSHOT of the game, so this doubles as a resync.
+  // Sending our session tokens lets it route team-private and admin-only events to this socket.
+  const subscribe = () => {
+    if (socketRef.current?.readyState !== WebSocket.OPEN) return;
+    const credentials = {
+      teamToken: teamTokenRef.current || undefined,
+      adminToken: adminTokenRef.current || undefined
+    };
+    pendingSubscribesRef.current.push(credentials);
+    sendMessage({ v: PROTOCOL_VERSION, type: 'SUBSCRIBE', gameId: gameIdRef.current, ...credentials });
+  };
+
+  useEffect(() => {
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    let socket: WebSocket;
+    let attempt = 0;
+    let lastHeard = Date.now();
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let unmounted = false;
+
+    const applySnapshot = (data: Extract<ServerMessage, { type: 'SNAPSHOT' }>) => {
+      const sent = pendingSubscribesRef.current.shift();
+      setScoringRules(data.scoringRules);
+      setClockOffset(data.serverTime - Date.now());
+      if (sent?.adminToken && sent.adminToken === adminTokenRef.current && !data.identity.admin) {
+        clearAdminSession();
+        alert('Your admin session has expired. Please log in again.');
+      }
+      if (
+        sent?.teamToken && sent.teamToken === teamTokenRef.current &&
+        data.gameId === teamRef.current?.game_id && data.identity.teamId === null
+      ) {
+        endTeamSession('Your team session has expired. Please rejoin.');
+      }
+      if (data.gameId !== gameIdRef.current || !data.game) return;
+      lastSeqRef.current = data.seq;
+      const { round, teams, settings, stats } = data.game;
+      if (round?.id !== currentRoundRef.current?.id) {
+        setPredictionInput('');
+        setIntervalLowInput('');
+        setIntervalHighInput('');
+        setAnswerInputs({});
+        setBidInput('');
+        setSubmissions([]);
+      }
+      setCurrentRound(round);
+      setTeams(teams);
+      setRoundStats(stats);
+      setSubmittedCount(round?.submission_count ?? 0);
+      setLastResult(data.own?.result ?? null);
+      setPowerUps(data.own?.powerUps ?? null);
+      setPurchasedHints(data.own?.hints ?? []);
+      if (data.own?.submitted) {
+        fetchOwnSubmission();
+      } else {
+        setOwnSubmission(null);
+      }
+      if (settings.game_title) setGameTitle(settings.game_title);
+      if (settings.default_scoring_rule_id) setDefaultScoringRuleId(Number(settings.default_scoring_rule_id));
+      setEconomy(parseEconomy(settings.economy));
+      setPowerUpInventory(parseInventory(settings.power_ups));
+      setLeaderboard(parseLeaderboard(settings.leaderboard));
+      const freeze = parseFreeze(settings.leaderboard_freeze);
+      setLeaderboardFreeze(freeze && { rounds: freeze.rounds, frozenAt: freeze.frozenAt });
+      if (teamRef.current) {
+        fetchHistory();
+        flushPendingSubmission();
+      }
+      if (isAdminAuthenticatedRef.current) {
+        if (round) {
+          fetchSubmissions(round.id);
+          fetchRoundHints(round.id);
+        }
+        fetchAuditLog();
+        fetchQueue();
+        fetchStandings();
+        fetchAdminTeams();
+      }
+    };
+
+    const handleMessage = (data: ServerMessage) => {
+      if (data.type === 'WELCOME') {
+        if (data.v !== PROTOCOL_VERSION) {
+          console.warn(`Server speaks protocol v${data.v}, this page v${PROTOCOL_VERSION}; reloading`);
+          window.location.reload();
+        }
+        return;
+      }
+      if (data.type === 'PONG') return;
+      if (data.type === 'SNAPSHOT') {
+        applySnapshot(data);
+        return;
+      }
+      if ('gameId' in data && data.gameId !== gameIdRef.current) return;
+      if ('seq' in data) {
+        // Still apply the event below; the snapshot we ask for settles anything we missed.
+        if (data.seq !== lastSeqRef.current + 1) subscribe();
+        lastSeqRef.current = data.seq;
+      }
+      if ('serverTime' in data) {
+        setClockOffset(data.serverTime - Date.now());
+      }
+      if (data.type === 'ROUND_STARTED') {
+        setCurrentRound(data.round);
+        setRoundStats(null);
+        setLastResult(null);
+        setSubmittedCount(0);
+        setOwnSubmission(null);
+        setPredictionInput('');
+        setIntervalLowInput('');
+        setIntervalHighInput('');
+        setAnswerInputs({});
+        setBidInput('');
+        setPurchasedHints([]);
+        setSubmissions([]);
+        setRoundHints([]);
+        fetchTeams();
+        if (teamRef.current) fetchHistory();
+        if (isAdminAuthenticatedRef.current) {
+          fetchAuditLog();
+          fetchQueue();
+        }
+      } else if (data.type === 'ROUND_UPDATED') {
+        if (!currentRoundRef.current || currentRoundRef.current.id === data.round.id) {
+          setCurrentRound(data.round);
+        }
+        if (isAdminAuthenticatedRef.current) {
+          fetchAuditLog();
+          fetchRoundHints(data.round.id);
+        }
+      } else if (data.type === 'ROUND_REVEALED') {
+        if (data.stats) setRoundStats(data.stats);
+        fetchCurrentRound();
+        fetchTeams();
+        if (currentRoundRef.current?.id && isAdminAuthenticatedRef.current) {
+          fetchSubmissions(currentRoundRef.current.id);
+          fetchRoundHints(currentRoundRef.current.id);
+        }
+        if (isAdminAuthenticatedRef.current) fetchAuditLog();
+      } else if (data.type === 'SUBMISSION_COUNT') {
+        if (currentRoundRef.current?.id === data.roundId) setSubmittedCount(data.count);
+        fetchTeams();
+      } else if (data.type === 'SUBMISSION_RECEIVED') {
+        fetchSubmissions(data.roundId);
+      } else if (data.type === 'HINT_SOLD') {
+        fetchRoundHints(data.roundId);
+        fetchTeams();
+      } else if (data.type === 'HINT_PURCHASED') {
+        if (currentRoundRef.current?.id === data.roundId) {
+          setPurchasedHints(hints => hints.some(h => h.id === data.hint.id) ? hints : [...hints, data.hint]);
+        }
+        fetchHistory();
+      } else if (data.type === 'SUBMISSION_ACCEPTED') {
+        const { roundId, predictedValue, intervalLow, intervalHigh, bidAmount, powerUp, hedgeValue, answers } = data;
+        if (currentRoundRef.current?.id === roundId) {
+          setOwnSubmission({ roundId, predictedValue, intervalLow, intervalHigh, bidAmount, powerUp, hedgeValue, answers });
+        }
+        setPowerUps(data.powerUps);
+        setPendingSubmission(pending => pending?.roundId === roundId ? null : pending);
+        fetchHistory();
+      } else if (data.type === 'SETTLEMENT_RESULT') {
+        setLastResult(data);
+        fetchHistory();
+      } else if (data.type === 'GAME_RESET') {
+        console.log('Resetting game state...');
+        setTeam(null);
+        setTeamToken('');
+        setCurrentRound(null);
+        setRoundStats(null);
+        setTeams([]);
+        setStandings([]);
+        setAdminTeams([]);
+        setSubmissions([]);
+        setRoundHints([]);
+        setHistory([]);
+        setRoundHistory(null);
+        setOwnTeam(null);
+        setOwnSubmission(null);
+        setPurchasedHints([]);
+        setPredictionInput('');
+        setIntervalLowInput('');
+        setIntervalHighInput('');
+        setAnswerInputs({});
+        setBidInput('');
+        if (!isAdminAuthenticatedRef.current && !spectatorCode) {
+          setView('landing');
+        }
+      } else if (data.type === 'GAME_RESTORED') {
+        // Restored teams have no sessions yet; everyone else just resyncs from the snapshot.
+        setSubmissions([]);
+        if (teamRef.current) {
+          endTeamSession('The host restored this game from a snapshot. Please rejoin with your team PIN.');
+        } else {
+          subscribe();
+        }
+      } else if (data.type === 'TEAM_CREDENTIALS_RESET') {
+        if (teamRef.current?.id === data.teamId) {
+          endTeamSession('The host has reset your team PIN. Please rejoin with the new PIN.');
+        }
+      } else if (data.type === 'TEAM_UPDATED') {
+        // After a merge this arrives on the merged team's devices too, which carry on as the team kept.
+        if (teamRef.current) {
+          teamRef.current = data.team;
+          setTeam(data.team);
+          fetchHistory();
+        }
+      } else if (data.type === 'TEAM_REMOVED') {
+        if (teamRef.current?.id === data.teamId) {
+          const why = data.reason ? ` Reason: ${data.reason}` : '';
+          endTeamSession(data.banned
+            ? `Your team has been banned from this game.${why}`
+            : `Your team has been removed from this game. You can rejoin with your PIN.${why}`);
+        }
+      } else if (data.type === 'TEAMS_UPDATED') {
+        fetchTeams();
+        if (isAdminAuthenticatedRef.current) fetchAuditLog();
+      } else if (data.type === 'GAME_ARCHIVED') {
+        if (!isAdminAuthenticatedRef.current && !spectatorCode) {
+          alert('This game has ended and been archived.');
+          setTeam(null);
+          setTeamToken('');
+          setGameId(null);
+          setView('landing');
+        }
+      } else if (data.type === 'SETTINGS_UPDATED') {
+        if (data.key === 'game_title') {
+          setGameTitle(data.value);
+        } else if (data.key === 'default_scoring_rule_id') {
+          setDefaultScoringRuleId(Number(data.value));
+        } else if (data.key === 'economy') {
+          setEconomy(parseEconomy(data.value));
+        } else if (data.key === 'power_ups') {
+          setPowerUpInventory(parseInventory(data.value));
+          // What a team has left depends on the inventory, so fetch it again.
+          if (teamRef.current) subscribe();
+        } else if (data.key === 'leaderboard') {
+          setLeaderboard(parseLeaderboard(data.value));
+          fetchTeams();
+        }
+      } else if (data.type === 'LEADERBOARD_FROZEN') {
+        setLeaderboardFreeze({ rounds: data.rounds, frozenAt: data.frozenAt });
+        setUnfrozenAt(null);
+      } else if (data.type === 'LEADERBOARD_UNFROZEN') {
+        setLeaderboardFreeze(null);
+        setTeams(data.teams);
+        setUnfrozenAt(Date.now());
+        if (isAdminAuthenticatedRef.current) fetchStandings();
+      } else if (data.type === 'SCORING_RULES_UPDATED') {
+        fetchScoringRules();
+      }
+    };
+
+    const scheduleReconnect = () => {
+      if (unmounted) return;
+      setConnectionState('reconnecting');
+      // Exponential backoff with jitter so a whole room doesn't reconnect in lockstep.
+      const delay = Math.min(30000, 1000 * 2 ** attempt) * (0.5 + Math.random() / 2);
+      attempt++;
+      clearTimeout(reconnectTimer);
+      reconnectTimer = setTimeout(connect, delay);
+    };
+
+    const connect = () => {
+      socket = new WebSocket(`${protocol}//${window.location.host}`);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        console.log('WebSocket connected');
+        pendingSubscribesRef.current = [];
+        attempt = 0;
+        lastHeard = Date.now();
+        setConnectionState('open');
+        subscribe();
+      };
+
+      socket.onerror = (error) => {
+        console.error('WebSocket error:', error);
+      };
+
+      socket.onclose = scheduleReconnect;
+
+      socket.onmessage = (event) => {
+        lastHeard = Date.now();
+        const data = parseServerMessage(event.data);
+        if (!data) {
+          console.error('Unrecognised WebSocket message:', event.data);
+          return;
+        }
+        console.log('WS Message:', data.type);
+        handleMessage(data);
+      };
+    };
+
+    // Browsers hide protocol-level pings, so the client runs its own heartbeat to notice dead links.
+    const heartbeat = setInterval(() => {
+      if (socket.readyState !== WebSocket.OPEN) return;
+      if (Date.now() - lastHeard > HEARTBEAT_TIMEOUT_MS) {
+        socket.onclose = null;
+        socket.close();
+        scheduleReconnect();
+        return;
+      }
+      sendMessage({ v: PROTOCOL_VERSION, type: 'PING' });
+    }, HEARTBEAT_INTERVAL_MS);
+
+    connect();
+    return () => {
+      unmounted = true;
+      clearInterval(heartbeat);
+      clearTimeout(reconnectTimer);
+      socket.onclose = null;
+      socket.close();
+    };
+  }, []); // One connection for the page's lifetime, re-established as needed
+
+  useEffect(() => {
+    if (!spectatorCode) return;
+    fetch(`/api/games/code/${encodeURIComponent(spectatorCode)}`)
+      .then(res => res.ok ? res.json() : Promise.reject(new Error('Unknown join code')))
+      .then((game: Game) => {
+        setGameId(game.id);
+        setView('spectator');
+      })
+      .catch(e => console.error('Error opening spectator view:', e));
+  }, [spectatorCode]);
+
+  // The socket may still be backing off when the browser regains its network, so retry right away too.
+  useEffect(() => {
+    const handleOnline = () => { flushPendingSubmission(); };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, []);
+
+  // Everything except the scoring rule library is scoped to the selected game.
+  useEffect(() => {
+    setCurrentRound(null);
+    setRoundStats(null);
+    setTeams([]);
+    setStandings([]);
+    setAdminTeams([]);
+    setSubmissions([]);
+    setAuditLog([]);
+    setQueue([]);
+    setSnapshots([]);
+    lastSeqRef.current = 0;
+    // The snapshot that answers this brings the round, standings and settings.
+    subscribe();
+  }, [gameId]);
+
+  // Saved game snapshots are owner-only, so they load outside the socket snapshot.
+  useEffect(() => {
+    if (adminAccount?.role === 'owner' && gameId) fetchSnapshots();
+  }, [adminAccount, gameId]);
+
+  const fetchGames = async () => {
+    try {
+      const res = await adminFetch('/api/admin/games');
+      if (!res.ok) throw new Error('Failed to fetch games');
+      const data: Game[] = await res.json();
+      setGames(data);
+      if (!gameIdRef.current) {
+        setGameId(data.find(g => g.status === 'active')?.id ?? null);
+      }
+    } catch (error) {
+      console.error('Error fetching games:', error);
+    }
+  };
+
+  const fetchCurrentRound = async () => {
+    try {
+      if (!gameIdRef.current) return;
+      const res = await fetch(`/api/games/${gameIdRef.current}/rounds/current`);
+      if (!res.ok) throw new Error('Failed to fetch current round');
+      const data = await res.json();
+      setCurrentRound(data);
+      if (data?.server_time) setClockOffset(data.server_time - Date.now());
+      setSubmittedCount(data?.submission_count ?? 0);
+      if (data?.status === 'revealed' && !data.voided_at) {
+        fetchRoundStats(data.id);
+      } else {
+        setRoundStats(null);
+      }
+      if (data?.id && isAdminAuthenticatedRef.current) {
+        fetchSubmissions(data.id);
+        fetchRoundHints(data.id);
+      }
+    } catch (error) {
+      console.error('Error fetching current round:', error);
+    }
+  };
+
+  const fetchRoundStats = async (roundId: number) => {
+    try {
+      const res = await fetch(`/api/rounds/${roundId}/stats`);
+      if (!res.ok) throw new Error('Failed to fetch round statistics');
+      setRoundStats(await res.json());
+    } catch (error) {
+      console.error('Error fetching round statistics:', error);
+    }
+  };
+
+  const fetchScoringRules = async () => {
+    try {
+      const res = await fetch('/api/scoring-rules');
+      if (!res.ok) throw new Error('Failed to fetch scoring rules');
+      const data = await res.json();
+      setScoringRules(data);
+    } catch (error) {
+      console.error('Error fetching scoring rules:', error);
+    }
+  };
+
+  const fetchTeams = async () => {
+    try {
+      if (!gameIdRef.current) return;
+      const res = await fetch(`/api/games/${gameIdRef.current}/teams`);
+      if (!res.ok) throw new Error('Failed to fetch teams');
+      const data = await res.json();
+      setTeams(data);
+      if (isAdminAuthenticatedRef.current) {
+        fetchStandings();
+        fetchAdminTeams();
+      }
+    } catch (error) {
+      console.error('Error fetching teams:', error);
+    }
+  };
+
+  const fetchStandings = async () => {
+    try {
+      if (!gameIdRef.current) return;
+      const res = await adminFetch(`/api/admin/games/${gameIdRef.current}/standings`);
+      if (!res.ok) throw new Error('Failed to fetch standings');
+      setStandings(await res.json());
+    } catch (error) {
+      console.error('Error fetching standings:', error);
+    }
+  };
+
+  const fetchAdminTeams = async () => {
+    try {
+      if (!gameIdRef.current) return;
+      const res = await adminFetch(`/api/admin/games/${gameIdRef.current}/teams`);
+      if (!res.ok) throw new Error('Failed to fetch teams');
+      setAdminTeams(await res.json());
+    } catch (error) {
+      console.error('Error fetching admin teams:', error);
+    }
+  };
+
+  const endTeamSession = (message: string) => {
+    alert(message);
+    teamRef.current = null;
+    teamTokenRef.current = '';
+    setTeam(null);
+    setTeamToken('');
+    setHistory([]);
+    setRoundHistory(null);
+    setOwnTeam(null);
+    setLastResult(null);
+    subscribe();
+    if (!isAdminAuthenticatedRef.current) {
+      setView('landing');
+    }
+  };
+
+  const fetchHistory = async () => {
+    if (!teamTokenRef.current) return;
+    try {
+      const res = await fetch('/api/teams/me/history', {
+        headers: { 'x-team-token': teamTokenRef.current }
+      });
+      if (res.status === 401) {
+        endTeamSession('Your team session has expired. Please rejoin.');
+        return;
+      }
+      if (!res.ok) throw new Error('Failed to fetch history');
+      const data = await res.json();
+      setHistory(data);
+      fetchRoundHistory();
+      fetchOwnTeam();
+    } catch (error) {
+      console.error('Error fetching history:', error);
+    }
+  };
+
+  const fetchOwnTeam = async () => {
+    if (!teamTokenRef.current) return;
+    try {
+      const res = await fetch('/api/teams/me', {
+        headers: { 'x-team-token': teamTokenRef.current }
+      });
+      if (!res.ok) throw new Error('Failed to fetch team');
+      setOwnTeam(await res.json());
+    } catch (error) {
+      console.error('Error fetching team:', error);
+    }
+  };
+
+  // Rounds only settle with a ledger entry, so this is refreshed along with the transaction history.
+  const fetchRoundHistory = async () => {
+    if (!teamTokenRef.current) return;
+    try {
+      const res = await fetch('/api/teams/me/rounds', {
+        headers: { 'x-team-token': teamTokenRef.current }
+      });
+      if (!res.ok) throw new Error('Failed to fetch round history');
+      setRoundHistory(await res.json());
+    } catch (error) {
+      console.error('Error fetching round history:', error);
+    }
+  };
+
+  const fetchOwnSubmission = async () => {
+    if (!teamTokenRef.current) return;
+    try {
+      const res = await fetch('/api/teams/me/submission', {
+        headers: { 'x-team-token': teamTokenRef.current }
+      });
+      if (res.status === 401) {
+        endTeamSession('Your team session has expired. Please rejoin.');
+        return;
+      }
+      if (!res.ok) throw new Error('Failed to fetch submission');
+      const data: { submission: OwnSubmission | null } = await res.json();
+      setOwnSubmission(data.submission);
+      if (data.submission) {
+        setPendingSubmission(pending => pending?.roundId === data.submission!.roundId ? null : pending);
+      }
+    } catch (error) {
+      console.error('Error fetching submission:', error);
+    }
+  };
+
+  const fetchRoundHints = async (roundId: number) => {
+    if (!adminTokenRef.current) return;
+    try {
+      const res = await adminFetch(`/api/admin/rounds/${roundId}/hints`);
+      if (!res.ok) throw new Error('Failed to fetch round hints');
+      setRoundHints(await res.json());
+    } catch (error) {
+      console.error('Error fetching round hints:', error);
+    }
+  };
+
+  const fetchSubmissions = async (roundId: number) => {
+    if (!adminTokenRef.current) return;
+    try {
+      const res = await adminFetch(`/api/admin/submissions/${roundId}`);
+      if (!res.ok) throw new Error('Failed to fetch submissions');
+      const data = await res.json();
+      setSubmissions(data);
+    } catch (error) {
+      console.error('Error fetching submissions:', error);
+    }
+  };
+
+  const handleAdminAccess = () => {
+    if (isAdminAuthenticated) {
+      setView('admin');
+    } else {
+      setShowAdminLogin(true);
+    }
+  };
+
+  // Adds the admin session token and drops back to the login screen once it has expired.
+  const adminFetch = async (url: string, init: RequestInit = {}) => {
+    const res = await fetch(url, {
+      ...init,
+      headers: { ...init.headers, 'x-admin-token': adminTokenRef.current }
+    });
+    if (res.status === 401 && isAdminAuthenticatedRef.current) {
+      clearAdminSession();
+      alert('Your admin session has expired. Please log in again.');
+    }
+    return res;
+  };
+
+  const clearAdminSession = () => {
+    adminTokenRef.current = '';
+    setAdminAccount(null);
+    setIsAdminAuthenticated(false);
+    setSubmissions([]);
+    setAccounts([]);
+    setAuditLog([]);
+    setQuestions([]);
+    setQueue([]);
+    setView(teamRef.current ? 'participant' : 'landing');
+    subscribe();
+  };
+
+  const handleAdminLogin = async () => {
+    try {
+      const res = await fetch('/api/admin/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: adminUsernameInput, password: adminPasswordInput })
+      });
+      
+      if (res.ok) {
+        const data = await res.json();
+        adminTokenRef.current = data.token;
+        isAdminAuthenticatedRef.current = true;
+        setAdminAccount(data.account);
+        setIsAdminAuthenticated(true);
+        subscribe();
+        fetchGames();
+        fetchAuditLog();
+        if (data.account.role === 'owner') fetchAccounts();
+        if (data.account.role === 'owner' || data.account.role === 'host') {
+          fetchQuestions();
+          fetchQueue();
+        }
+        setShowAdminLogin(false);
+        setView('admin');
+        setAdminPasswordInput('');
+      } else {
+        alert('Incorrect username or password');
+      }
+    } catch (error) {
+      console.error('Login error:', error);
+      alert('Failed to connect to server');
+    }
+  };
+  const handleAdminLogout = async () => {
+    try {
+      await adminFetch('/api/admin/logout', { method: 'POST' });
+    } catch (e) {
+      console.error('Logout error:', e);
+    }
+    clearAdminSession();
+    setView('landing');
+  };
+
+  const handleJoin = async () => {
+    if (!teamNameInput || !joinCodeInput || !pinInput) return;
+    try {
+      const res = await fetch('/api/teams/join', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: teamNameInput, joinCode: joinCodeInput.trim(), pin: pinInput })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || 'Failed to join');
+        return;
+      }
+      const { token, ...joinedTeam } = data;
+      setTeam(joinedTeam);
+      setTeamToken(token);
+      teamRef.current = joinedTeam;
+      teamTokenRef.current = token;
+      gameIdRef.current = joinedTeam.game_id;
+      setPinInput('');
+      setGameId(joinedTeam.game_id);
+      subscribe();
+      fetchHistory();
+      setView('participant');
+    } catch (e) {
+      console.error('Join error:', e);
+      alert('Failed to connect to server');
+    }
+  };
+
+  // Queues the submission on this device when it cannot be delivered; false if the server turned it down.
+  const sendSubmission = async (submission: OwnSubmission) => {
+    const outcome = navigator.onLine ? await deliverSubmission(submission) : 'offline';
+    if (outcome === 'offline') {
+      setPendingSubmission({ ...submission, teamId: team!.id, queuedAt: Date.now() });
+    } else if (outcome !== 'confirmed' && outcome !== 'expired') {
+      alert(outcome.error);
+      return false;
+    }
+    return true;
+  };
+
+  const setAnswerInput = (subQuestionId: number, patch: Partial<{ prediction: string, bid: string }>) =>
+    setAnswerInputs(inputs => ({ ...inputs, [subQuestionId]: { prediction: '', bid: '', ...inputs[subQuestionId], ...patch } }));
+
+  const handleSubmitAnswers = async () => {
+    if (!team || !currentRound?.sub_questions) return;
+    const answers: SubQuestionAnswer[] = currentRound.sub_questions.map(q => ({
+      subQuestionId: q.id,
+      predictedValue: parseFloat(answerInputs[q.id]?.prediction ?? ''),
+      bidAmount: parseFloat(answerInputs[q.id]?.bid ?? '')
+    }));
+    if (answers.some(a => isNaN(a.predictedValue))) {
+      alert("Please enter a prediction for every sub-question.");
+      return;
+    }
+    // The bid limits apply to the bids together.
+    const bidProblem = validateStake(economy, ownBalance, answers.map(a => a.bidAmount));
+    if (bidProblem) {
+      alert(bidProblem);
+      return;
+    }
+    const total = answers.reduce((sum, a) => sum + a.bidAmount, 0);
+    await sendSubmission({ roundId: currentRound.id, predictedValue: null, bidAmount: total, answers });
+  };
+
+  const handleSubmitPrediction = async () => {
+    if (!team || !currentRound) {
+      alert("Session error. Please rejoin.");
+      return;
+    }
+    if (currentRound.sub_questions?.length) {
+      await handleSubmitAnswers();
+      return;
+    }
+    
+    const low = parseFloat(intervalLowInput);
+    const high = parseFloat(intervalHighInput);
+    const pred = currentRound.type === 'interval' ? (low + high) / 2 : parseFloat(predictionInput);
+    const bid = parseFloat(bidInput);
+
+    if (currentRound.type === 'interval' && (isNaN(low) || isNaN(high) || low > high)) {
+      alert("Please enter a low bound that is not above the high bound.");
+      return;
+    }
+    if (isNaN(pred)) {
+      alert(currentRound.options ? "Please pick one of the options." : "Please enter a valid prediction value.");
+      return;
+    }
+    
+    if (isNaN(bid) || bid <= 0) {
+      alert("Please enter a valid bid amount greater than 0.");
+      return;
+    }
+
+    const bidProblem = validateBid(economy, ownBalance, bid);
+    if (bidProblem) {
+      alert(bidProblem);
+      return;
+    }
+
+    const hedge = parseFloat(hedgeInput);
+    if (powerUpInput === 'hedge' && isNaN(hedge)) {
+      alert("Please enter a second prediction to hedge with.");
+      return;
+    }
+
+    const submission: OwnSubmission = {
+      roundId: currentRound.id,
+      predictedValue: pred,
+      intervalLow: currentRound.type === 'interval' ? low : null,
+      intervalHigh: currentRound.type === 'interval' ? high : null,
+      bidAmount: bid,
+      powerUp: powerUpInput,
+      hedgeValue: powerUpInput === 'hedge' ? hedge : null
+    };
+    if (!(await sendSubmission(submission))) return;
+    setPowerUpInput(null);
+    setHedgeInput('');
+  };
+
+  // 'offline' means the request never got a usable answer and is worth retrying later.
+  const deliverSubmission = async (submission: OwnSubmission): Promise<'confirmed' | 'offline' | 'expired' | { error: string }> => {
+    let res: Response;
+    try {
+      res = await fetch('/api/submissions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-team-token': teamTokenRef.current
+        },
+        body: JSON.stringify(submission)
+      });
+    } catch (e) {
+      console.error('Submission error:', e);
+      return 'offline';
+    }
+    if (res.status >= 500) return 'offline';
+    if (res.status === 401) {
+      endTeamSession('Your team session has expired. Please rejoin.');
+      return 'expired';
+    }
+    const data = await res.json().catch(() => ({}));
+    // 409 means an earlier attempt already landed; the server echoes what it holds.
+    if (res.ok || res.status === 409) {
+      const confirmed: OwnSubmission = data.submission ?? submission;
+      if (currentRoundRef.current?.id === confirmed.roundId) setOwnSubmission(confirmed);
+      return 'confirmed';
+    }
+    return { error: data.error || 'Submission failed' };
+  };
+
+  // Retries the queued prediction whenever the connection may be back. Only network
+  // failures keep it queued; any answer from the server settles it.
+  const flushPendingSubmission = async () => {
+    const pending = pendingSubmissionRef.current;
+    if (!pending || flushingRef.current) return;
+    if (pending.teamId !== teamRef.current?.id) {
+      setPendingSubmission(null);
+      return;
+    }
+    flushingRef.current = true;
+    const { teamId, queuedAt, ...submission } = pending;
+    const outcome = await deliverSubmission(submission);
+    flushingRef.current = false;
+    if (outcome === 'offline') return;
+    setPendingSubmission(null);
+    if (typeof outcome === 'object') {
+      alert(`Your queued prediction was not accepted: ${outcome.error}`);
+    }
+  };
+
+  const handleStartRound = async () => {
+    if (!newRoundTheme) return;
+    try {
+      const res = await adminFetch(`/api/admin/games/${gameId}/rounds`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          theme: newRoundTheme,
+          scoringRuleId: newRoundRuleId ? Number(newRoundRuleId) : undefined,
+          durationSeconds: roundDurationInput ? Number(roundDurationInput) : undefined,
+          ...fromFormatDraft(roundFormatDraft),
+          subQuestions: roundFormatDraft.type === 'point' && subQuestionDrafts.length ? subQuestionDrafts : undefined
+        })
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        alert(err.error || 'Failed to start the round');
+        return;
+      }
+      setNewRoundTheme('');
+      setSubQuestionDrafts([]);
+    } catch (e) {
+      console.error('Error starting round:', e);
+    }
+  };
+
+  const handleAddHint = async (input: HintInput) => {
+    if (!currentRound) return false;
+    try {
+      const res = await adminFetch(`/api/admin/rounds/${currentRound.id}/hints`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input)
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || 'Failed to add hint');
+        return false;
+      }
+      setRoundHints(data);
+      return true;
+    } catch (e) {
+      console.error('Error adding hint:', e);
+      return false;
+    }
+  };
+
+  const handleRemoveHint = async (id: number) => {
+    try {
+      const res = await adminFetch(`/api/admin/hints/${id}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || 'Failed to remove hint');
+        return;
+      }
+      setRoundHints(data);
+    } catch (e) {
+      console.error('Error removing hint:', e);
+    }
+  };
+
+  const handleBuyHint = async (hintId: number) => {
+    try {
+      const res = await fetch(`/api/hints/${hintId}/purchase`, {
+        method: 'POST',
+        headers: { 'x-team-token': teamTokenRef.current }
+      });
+      if (res.status === 401) {
+        endTeamSession('Your team session has expired. Please rejoin.');
+        return;
+      }
+      const data = await res.json();
+      // 409 means the hint is already ours; the server sends it again.
+      if (!res.ok && res.status !== 409) {
+        alert(data.error || 'Failed to buy hint');
+        return;
+      }
+      setPurchasedHints(hints => hints.some(h => h.id === data.hint.id) ? hints : [...hints, data.hint]);
+      fetchTeams();
+    } catch (e) {
+      console.error('Error buying hint:', e);
+    }
+  };
+
+  const handleStartNextRound = async () => {
+    try {
+      const res = await adminFetch(`/api/admin/games/${gameId}/rounds/next`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          scoringRuleId: newRoundRuleId ? Number(newRoundRuleId) : undefined,
+          durationSeconds: roundDurationInput ? Number(roundDurationInput) : undefined,
+          ...fromFormatDraft(roundFormatDraft)
+        })
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        alert(err.error || 'Failed to start the next question');
+      }
+    } catch (e) {
+      console.error('Error starting next question:', e);
+    }
+  };
+
+  const handleRoundTransition = async (action: 'lock' | 'reopen') => {
+    if (!currentRound) return;
+    try {
+      const res = await adminFetch(`/api/admin/rounds/${currentRound.id}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ durationSeconds: roundDurationInput ? Number(roundDurationInput) : undefined })
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        alert(err.error || `Failed to ${action} round`);
+      }
+    } catch (e) {
+      console.error(`Error trying to ${action} round:`, e);
+    }
+  };
+
+  const handleReveal = async () => {
+    if (!currentRound) return;
+    const isCorrection = currentRound.status === 'revealed';
+    // Without an override the server reveals the question bank's stored answer.
+    if (!actualValueInput && (isCorrection || storedAnswer == null)) return;
+    const res = await adminFetch(isCorrection ? `/api/admin/rounds/${currentRound.id}/correct` : '/api/admin/rounds/reveal', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        roundId: currentRound.id,
+        actualValue: actualValueInput ? parseFloat(actualValueInput) : undefined
+      })
+    });
+    if (!res.ok) {
+      const err = await res.json();
+      alert(err.error || (isCorrection ? 'Correction failed' : 'Reveal failed'));
+      return;
+    }
+    setActualValueInput('');
+    if (isCorrection && can('owner')) fetchSnapshots();
+  };
+
+  const handleRevealSubQuestions = async (answers: { subQuestionId: number, actualValue: number }[]) => {
+    if (!currentRound) return false;
+    try {
+      const res = await adminFetch('/api/admin/rounds/reveal', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ roundId: currentRound.id, answers })
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        alert(err.error || 'Reveal failed');
+        return false;
+      }
+      return true;
+    } catch (e) {
+      console.error('Error revealing sub-questions:', e);
+      return false;
+    }
+  };
+
+  const handleCorrectSubQuestion = async (subQuestionId: number, actualValue: number) => {
+    if (!currentRound) return false;
+    try {
+      const res = await adminFetch(`/api/admin/rounds/${currentRound.id}/correct`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ subQuestionId, actualValue })
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        alert(err.error || 'Correction failed');
+        return false;
+      }
+      if (can('owner')) fetchSnapshots();
+      return true;
+    } catch (e) {
+      console.error('Error correcting sub-question:', e);
+      return false;
+    }
+  };
+
+  const handleReset = async () => {
+    console.log("Executing game reset...");
+    try {
+      const res = await adminFetch(`/api/admin/games/${gameId}/reset`, {
+        method: 'POST'
+      });
+      
+      if (res.ok) {
+        console.log("Reset successful, clearing local state");
+        setTeam(null);
+        setTeamToken('');
+        setCurrentRound(null);
+        setTeams([]);
+        setStandings([]);
+        setAdminTeams([]);
+        setSubmissions([]);
+        setRoundHints([]);
+        setHistory([]);
+        setRoundHistory(null);
+        setOwnTeam(null);
+        setOwnSubmission(null);
+        setPurchasedHints([]);
+        setPredictionInput('');
+        setIntervalLowInput('');
+        setIntervalHighInput('');
+        setAnswerInputs({});
+        setBidInput('');
+        setShowResetConfirm(false);
+        fetchSnapshots();
+      } else {
+        const err = await res.json();
+        console.error("Reset failed:", err);
+        alert(`Failed to reset game: ${err.error || 'Unknown error'}`);
+        setShowResetConfirm(false);
+      }
+    } catch (error) {
+      console.error('Reset error:', error);
+      alert('Error connecting to server during reset');
+      setShowResetConfirm(false);
+    }
+  };
+
+  const fetchSnapshots = async () => {
+    try {
+      if (!gameIdRef.current) return;
+      const res = await adminFetch(`/api/admin/games/${gameIdRef.current}/snapshots`);
+      if (!res.ok) throw new Error('Failed to fetch snapshots');
+      setSnapshots(await res.json());
+    } catch (e) {
+      console.error('Error fetching snapshots:', e);
+    }
+  };
+
+  const handleCreateSnapshot = async (label: string) => {
+    try {
+      const res = await adminFetch(`/api/admin/games/${gameId}/snapshots`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label })
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        alert(err.error || 'Failed to take snapshot');
+        return;
+      }
+      fetchSnapshots();
+    } catch (e) {
+      console.error('Error taking snapshot:', e);
+    }
+  };
+
+  const handleRestoreSnapshot = async (snapshot: SnapshotEntry) => {
+    if (!confirm(
+      `Replace everything in this game with snapshot #${snapshot.id}? ` +
+      'The current state is saved as a new snapshot first, and every team will need to rejoin with its PIN.'
+    )) return;
+    try {
+      const res = await adminFetch(`/api/admin/games/${gameId}/snapshots/${snapshot.id}/restore`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || 'Failed to restore snapshot');
+        return;
+      }
+      if (data.warnings.length) {
+        alert(`Restored with ${data.warnings.length} note(s):\n${data.warnings.join('\n')}`);
+      }
+      fetchSnapshots();
+    } catch (e) {
+      console.error('Error restoring snapshot:', e);
+      alert('Error connecting to server during restore');
+    }
+  };
+
+  const saveDownload = async (res: Response, filename: string) => {
+    const url = URL.createObjectURL(await res.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownloadSnapshot = async (snapshot: SnapshotEntry) => {
+    try {
+      const res = await adminFetch(`/api/admin/games/${gameId}/snapshots/${snapshot.id}/download`);
+      if (!res.ok) throw new Error('Failed to download snapshot');
+      await saveDownload(res, `${selectedGame?.join_code ?? 'game'}-snapshot-${snapshot.id}.json`);
+    } catch (e) {
+      console.error('Error downloading snapshot:', e);
+    }
+  };
+
+  const handleDownloadExport = async (dataset: ExportDataset, format: ExportFormat) => {
+    try {
+      const res = await adminFetch(`/api/admin/games/${gameId}/export/${dataset}?format=${format}`);
+      if (!res.ok) {
+        const data = await res.json();
+        alert(data.error || 'Export failed');
+        return;
+      }
+      await saveDownload(res, `${selectedGame?.join_code ?? 'game'}-${dataset}.${format}`);
+    } catch (e) {
+      console.error('Error exporting results:', e);
+    }
+  };
+
+  const handleDownloadReport = async () => {
+    try {
+      const res = await adminFetch(`/api/admin/games/${gameId}/report`);
+      if (!res.ok) throw new Error('Failed to build report');
+      await saveDownload(res, `${selectedGame?.join_code ?? 'game'}-report.html`);
+    } catch (e) {
+      console.error('Error downloading report:', e);
+    }
+  };
+
+  // The tab is opened before the request so popup blockers treat it as part of the click.
+  const handleOpenReport = async () => {
+    const tab = window.open('', '_blank');
+    try {
+      const res = await adminFetch(`/api/admin/games/${gameId}/report`);
+      if (!res.ok) throw new Error('Failed to build report');
+      const url = URL.createObjectURL(new Blob([await res.text()], { type: 'text/html' }));
+      if (tab) tab.location.href = url;
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (e) {
+      console.error('Error opening report:', e);
+      tab?.close();
+      alert('Could not build the report');
+    }
+  };
+
+  const handleUploadSnapshot = async (file: File) => {
+    let snapshot: unknown;
+    try {
+      snapshot = JSON.parse(await file.text());
+    } catch {
+      alert(`${file.name} is not a valid snapshot file.`);
+      return;
+    }
+    try {
+      const res = await adminFetch(`/api/admin/games/${gameId}/snapshots/upload`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ snapshot, filename: file.name })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || 'Upload failed');
+        return;
+      }
+      fetchSnapshots();
+    } catch (e) {
+      console.error('Error uploading snapshot:', e);
+    }
+  };
+
+  const handleUpdateGameTitle = async (newTitle: string) => {
+    try {
+      await adminFetch(`/api/admin/games/${gameId}/settings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: 'game_title', value: newTitle })
+      });
+    } catch (e) {
+      console.error('Error updating game title:', e);
+    }
+  };
+
+  const handleSaveScoringRule = async (id: number | null, name: string, definition: ScoringDefinition) => {
+    try {
+      const res = await adminFetch(id === null ? '/api/admin/scoring-rules' : `/api/admin/scoring-rules/${id}`, {
+        method: id === null ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, definition })
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        alert(err.error || 'Failed to save rule set');
+        return false;
+      }
+      return true;
+    } catch (e) {
+      console.error('Error saving scoring rule:', e);
+      return false;
+    }
+  };
+
+  const handleDeleteScoringRule = async (id: number) => {
+    try {
+      const res = await adminFetch(`/api/admin/scoring-rules/${id}`, {
+        method: 'DELETE'
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        alert(err.error || 'Failed to delete rule set');
+      }
+    } catch (e) {
+      console.error('Error deleting scoring rule:', e);
+    }
+  };
+
+  const handleMakeDefaultScoringRule = async (id: number) => {
+    try {
+      await adminFetch(`/api/admin/games/${gameId}/settings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: 'default_scoring_rule_id', value: String(id) })
+      });
+    } catch (e) {
+      console.error('Error updating default scoring rule:', e);
+    }
+  };
+
+  const handleSaveEconomy = async (settings: EconomySettings) => {
+    try {
+      const res = await adminFetch(`/api/admin/games/${gameId}/settings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: 'economy', value: settings })
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        alert(err.error || 'Failed to save economy settings');
+      }
+    } catch (e) {
+      console.error('Error saving economy settings:', e);
+    }
+  };
+
+  const handleSavePowerUps = async (inventory: PowerUpInventory) => {
+    try {
+      const res = await adminFetch(`/api/admin/games/${gameId}/settings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: 'power_ups', value: inventory })
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        alert(err.error || 'Failed to save power-ups');
+      }
+    } catch (e) {
+      console.error('Error saving power-ups:', e);
+    }
+  };
+
+  const handleSaveLeaderboard = async (settings: LeaderboardSettings) => {
+    try {
+      const res = await adminFetch(`/api/admin/games/${gameId}/settings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: 'leaderboard', value: settings })
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        alert(err.error || 'Failed to save leaderboard settings');
+      }
+    } catch (e) {
+      console.error('Error saving leaderboard settings:', e);
+    }
+  };
+
+  const handleFreezeLeaderboard = async (rounds: number) => {
+    try {
+      const res = await adminFetch(`/api/admin/games/${gameId}/leaderboard/freeze`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rounds })
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        alert(err.error || 'Failed to freeze the leaderboard');
+      }
+    } catch (e) {
+      console.error('Error freezing leaderboard:', e);
+    }
+  };
+
+  const handleUnfreezeLeaderboard = async () => {
+    try {
+      const res = await adminFetch(`/api/admin/games/${gameId}/leaderboard/unfreeze`, { method: 'POST' });
+      if (!res.ok) {
+        const err = await res.json();
+        alert(err.error || 'Failed to unfreeze the leaderboard');
+      }
+    } catch (e) {
+      console.error('Error unfreezing leaderboard:', e);
+    }
+  };
+
+  const handleCreateGame = async () => {
+    if (!newGameName) return;
+    try {
+      const res = await adminFetch('/api/admin/games', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newGameName })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || 'Failed to create game');
+        return;
+      }
+      setNewGameName('');
+      setGameId(data.id);
+      fetchGames();
+    } catch (e) {
+      console.error('Error creating game:', e);
+    }
+  };
+
+  const handleArchiveGame = async (game: Game) => {
+    try {
+      await adminFetch(`/api/admin/games/${game.id}/${game.status === 'active' ? 'archive' : 'restore'}`, {
+        method: 'POST'
+      });
+      fetchGames();
+    } catch (e) {
+      console.error('Error archiving game:', e);
+    }
+  };
+
+  const handleRenameTeam = async (target: Team, name: string) => {
+    try {
+      const res = await adminFetch(`/api/admin/teams/${target.id}/rename`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name })
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        alert(err.error || 'Failed to rename team');
+      }
+    } catch (e) {
+      console.error('Error renaming team:', e);
+    }
+  };
+
+  const handleAdjustBalance = async (target: Team, amount: number, reason: string) => {
+    try {
+      const res = await adminFetch(`/api/admin/teams/${target.id}/adjust`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ amount, reason })
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        alert(err.error || 'Failed to adjust balance');
+        return false;
+      }
+      return true;
+    } catch (e) {
+      console.error('Error adjusting balance:', e);
+      return false;
+    }
+  };
+
+  const handleMergeTeams = async (source: Team, into: Team) => {
+    if (!confirm(`Merge ${source.name} into ${into.name}? ${source.name}'s bets and coins move to ${into.name}, less its starting balance, and ${source.name} is deleted.`)) return;
+    try {
+      const res = await adminFetch(`/api/admin/teams/${source.id}/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ intoTeamId: into.id })
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        alert(err.error || 'Failed to merge teams');
+      }
+    } catch (e) {
+      console.error('Error merging teams:', e);
+    }
+  };
+
+  const handleRemoveTeam = async (target: Team, ban: boolean, reason: string) => {
+    if (!confirm(ban
+      ? `Ban ${target.name}? They are signed out and cannot rejoin.`
+      : `Remove ${target.name} from the game? They are signed out but can rejoin with their PIN.`)) return;
+    try {
+      const res = await adminFetch(`/api/admin/teams/${target.id}/remove`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ban, reason })
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        alert(err.error || 'Failed to remove team');
+      }
+    } catch (e) {
+      console.error('Error removing team:', e);
+    }
+  };
+
+  const handleReinstateTeam = async (target: Team) => {
+    try {
+      const res = await adminFetch(`/api/admin/teams/${target.id}/reinstate`, { method: 'POST' });
+      if (!res.ok) {
+        const err = await res.json();
+        alert(err.error || 'Failed to reinstate team');
+      }
+    } catch (e) {
+      console.error('Error reinstating team:', e);
+    }
+  };
+
+  const handleResetTeamPin = async (target: Team) => {
+    if (!confirm(`Issue a new PIN for ${target.name}? Their current devices will be signed out.`)) return;
+    try {
+      const res = await adminFetch(`/api/admin/teams/${target.id}/credentials`, {
+        method: 'POST'
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || 'Failed to reset PIN');
+        return;
+      }
+      alert(`New PIN for ${target.name}: ${data.pin}`);
+    } catch (e) {
+      console.error('Error resetting team PIN:', e);
+    }
+  };
+
+  const fetchAccounts = async () => {
+    try {
+      const res = await adminFetch('/api/admin/accounts');
+      if (!res.ok) throw new Error('Failed to fetch accounts');
+      setAccounts(await res.json());
+    } catch (e) {
+      console.error('Error fetching accounts:', e);
+    }
+  };
+
+  const fetchAuditLog = async () => {
+    try {
+      if (!gameIdRef.current) return;
+      const res = await adminFetch(`/api/admin/games/${gameIdRef.current}/audit`);
+      if (!res.ok) throw new Error('Failed to fetch activity');
+      setAuditLog(await res.json());
+    } catch (e) {
+      console.error('Error fetching activity:', e);
+    }
+  };
+
+  const handleCreateAccount = async () => {
+    if (!newAccountUsername || !newAccountPassword) return;
+    try {
+      const res = await adminFetch('/api/admin/accounts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: newAccountUsername, password: newAccountPassword, role: newAccountRole })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || 'Failed to create account');
+        return;
+      }
+      setNewAccountUsername('');
+      setNewAccountPassword('');
+      fetchAccounts();
+    } catch (e) {
+      console.error('Error creating account:', e);
+    }
+  };
+
+  const handleToggleAccount = async (account: AdminAccount) => {
+    try {
+      const res = await adminFetch(`/api/admin/accounts/${account.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ disabled: !account.disabled })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || 'Failed to update account');
+        return;
+      }
+      fetchAccounts();
+    } catch (e) {
+      console.error('Error updating account:', e);
+    }
+  };
+
+  const handleRevokeSessions = async (account: AdminAccount) => {
+    if (!confirm(`Sign ${account.username} out of every device?`)) return;
+    try {
+      const res = await adminFetch(`/api/admin/accounts/${account.id}/revoke`, { method: 'POST' });
+      if (!res.ok) throw new Error('Failed to revoke sessions');
+      fetchAccounts();
+    } catch (e) {
+      console.error('Error revoking sessions:', e);
+    }
+  };
+
+  const fetchQuestions = async () => {
+    try {
+      const res = await adminFetch('/api/admin/questions');
+      if (!res.ok) throw new Error('Failed to fetch questions');
+      setQuestions(await res.json());
+    } catch (e) {
+      console.error('Error fetching questions:', e);
+    }
+  };
+
+  const fetchQueue = async () => {
+    try {
+      if (!gameIdRef.current) return;
+      const res = await adminFetch(`/api/admin/games/${gameIdRef.current}/queue`);
+      if (!res.ok) throw new Error('Failed to fetch queue');
+      setQueue(await res.json());
+    } catch (e) {
+      console.error('Error fetching queue:', e);
+    }
+  };
+
+  const handleSaveQuestion = async (id: number | null, input: QuestionInput) => {
+    try {
+      const res = await adminFetch(id === null ? '/api/admin/questions' : `/api/admin/questions/${id}`, {
+        method: id === null ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input)
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || 'Failed to save question');
+        return false;
+      }
+      fetchQuestions();
+      fetchQueue();
+      return true;
+    } catch (e) {
+      console.error('Error saving question:', e);
+      return false;
+    }
+  };
+
+  const handleGenerateQuestions = async (request: GenerationRequest) => {
+    try {
+      const res = await adminFetch('/api/admin/questions/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request)
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || 'Failed to generate questions');
+        return null;
+      }
+      return data as { provider: string, candidates: GeneratedQuestion[] };
+    } catch (e) {
+      console.error('Error generating questions:', e);
+      return null;
+    }
+  };
+
+  const handleDeleteQuestion = async (id: number) => {
+    if (!confirm('Delete this question from the bank?')) return;
+    try {
+      const res = await adminFetch(`/api/admin/questions/${id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const err = await res.json();
+        alert(err.error || 'Failed to delete question');
+        return;
+      }
+      fetchQuestions();
+      fetchQueue();
+    } catch (e) {
+      console.error('Error deleting question:', e);
+    }
+  };
+
+  const handleImportQuestions = async (file: File) => {
+    try {
+      const format = file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'json';
+      const res = await adminFetch('/api/admin/questions/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ format, content: await file.text() })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || 'Import failed');
+        return;
       }
-    } catch (error) {
-      console.error('Reset error:', error);
-      alert('Error connecting to server during reset');
-      setShowResetConfirm(false);
+      const skipped = data.errors.length ? `\n\nSkipped ${data.errors.length}:\n${data.errors.slice(0, 10).join('\n')}` : '';
+      alert(`Imported ${data.imported} questions.${skipped}`);
+      fetchQuestions();
+    } catch (e) {
+      console.error('Error importing questions:', e);
     }
   };
 
-  const handleUpdateGameTitle = async (newTitle: string) => {
+  const handleQueueQuestion = async (questionId: number) => {
     try {
-      await fetch('/api/admin/settings', {
+      const res = await adminFetch(`/api/admin/games/${gameId}/queue`, {
         method: 'POST',
-        headers: { 
-          'Content-Type': 'application/json',
-          'x-admin-password': adminPassword
-        },
-        body: JSON.stringify({ key: 'game_title', value: newTitle })
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ questionId })
       });
+      if (!res.ok) throw new Error('Failed to queue question');
+      fetchQueue();
     } catch (e) {
-      console.error('Error updating game title:', e);
+      console.error('Error queueing question:', e);
+    }
+  };
+
+  const handleRemoveFromQueue = async (entryId: number) => {
+    try {
+      const res = await adminFetch(`/api/admin/games/${gameId}/queue/${entryId}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error('Failed to remove queue entry');
+      fetchQueue();
+    } catch (e) {
+      console.error('Error removing queue entry:', e);
+    }
+  };
+
+  const handleMoveInQueue = async (entryId: number, offset: -1 | 1) => {
+    const ids = queue.map(e => e.id);
+    const from = ids.indexOf(entryId);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= ids.length) return;
+    [ids[from], ids[to]] = [ids[to], ids[from]];
+    try {
+      const res = await adminFetch(`/api/admin/games/${gameId}/queue`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ entryIds: ids })
+      });
+      if (!res.ok) throw new Error('Failed to reorder queue');
+      fetchQueue();
+    } catch (e) {
+      console.error('Error reordering queue:', e);
     }
   };
 
+  // Owners can do everything; the server enforces the same rule per route.
+  const can = (role: AdminRole) => adminAccount?.role === 'owner' || adminAccount?.role === role;
+
+  const selectedGame = games.find(g => g.id === gameId) ?? null;
+  const nextQueued = queue.find(e => e.round_id === null) ?? null;
+  const storedAnswer = currentRound?.question_id != null && currentRound.type !== 'choice'
+    ? questions.find(q => q.id === currentRound.question_id)?.answer ?? null
+    : null;
+
+  const activeScoring = (
+    scoringRules.find(r => r.id === (currentRound?.scoring_rule_id ?? defaultScoringRuleId)) ??
+    scoringRules.find(r => r.id === defaultScoringRuleId)
+  )?.definition ?? DEFAULT_SCORING;
+
+  const publicStanding = teams.find(t => t.id === team?.id);
+  // A frozen board shows old balances, but a team always bids against its real one.
+  const ownStanding = leaderboardFreeze && ownTeam ? ownTeam : publicStanding;
+  const ownBalance = ownStanding?.balance ?? team?.balance ?? economy.startingBalance;
+  const ownBidRange = bidRange(economy, ownBalance);
+  const answerBidTotal = (currentRound?.sub_questions ?? []).reduce((sum, q) => sum + (parseFloat(answerInputs[q.id]?.bid ?? '') || 0), 0);
+
   return (
     <div className="min-h-screen bg-[#0a0a0a] text-white font-sans selection:bg-emerald-500/30">
       {/* Background Decor */}
@@ -447,6 +3938,12 @@ export default function App() {
           </div>
 
           <div className="flex items-center gap-4">
+            {connectionState === 'reconnecting' && (
+              <div className="flex items-center gap-2 px-3 py-1 bg-amber-500/10 text-amber-500 text-[10px] font-mono uppercase tracking-widest rounded-full border border-amber-500/20 animate-pulse">
+                <WifiOff className="w-3 h-3" />
+                Reconnecting
+              </div>
+            )}
             {team && (
               <div className="flex items-center gap-6 mr-6">
                 <div className="text-right">
@@ -456,18 +3953,20 @@ export default function App() {
                 <div className="text-right">
                   <p className="text-[10px] font-mono text-white/40 uppercase">Balance</p>
                   <p className="font-mono text-emerald-400 font-bold">
-                    {teams.find(t => t.id === team.id)?.balance?.toFixed(0) ?? '2000'} 
+                    {ownBalance.toFixed(0)} 
                     <span className="text-[10px] ml-1">COINS</span>
                   </p>
                 </div>
               </div>
             )}
-            <button 
-              onClick={handleAdminAccess}
-              className="p-2 hover:bg-white/5 rounded-lg transition-colors text-white/40 hover:text-white"
-            >
-              <Settings className="w-5 h-5" />
-            </button>
+            {view !== 'spectator' && (
+              <button 
+                onClick={handleAdminAccess}
+                className="p-2 hover:bg-white/5 rounded-lg transition-colors text-white/40 hover:text-white"
+              >
+                <Settings className="w-5 h-5" />
+              </button>
+            )}
           </div>
         </div>
       </nav>
@@ -488,6 +3987,12 @@ export default function App() {
                   <h3 className="text-xl font-bold">Admin Access</h3>
                   <p className="text-xs text-white/40 uppercase tracking-widest">Enter Password to Continue</p>
                 </div>
+                <Input 
+                  label="Username" 
+                  value={adminUsernameInput}
+                  onChange={setAdminUsernameInput}
+                  placeholder="admin"
+                />
                 <Input 
                   label="Password" 
                   type="password" 
@@ -519,17 +4024,33 @@ export default function App() {
                 <h2 className="text-5xl font-bold tracking-tighter">Welcome to {gameTitle}.</h2>
                 <p className="text-white/60 leading-relaxed">
                   Analyze the data, calculate the risk, and predict the future. 
-                  2000 coins to start. One winner takes all.
+                  Every team starts with the same stake. One winner takes all.
                 </p>
               </div>
 
               <Card className="p-8 space-y-6">
+                <Input 
+                  label="Join Code" 
+                  placeholder="e.g. K7QX2M" 
+                  value={joinCodeInput}
+                  onChange={(val) => setJoinCodeInput(val.toUpperCase())}
+                />
                 <Input 
                   label="Team Name" 
                   placeholder="e.g. Data Wizards" 
                   value={teamNameInput}
                   onChange={setTeamNameInput}
                 />
+                <div className="space-y-2">
+                  <Input 
+                    label="Team PIN" 
+                    type="password"
+                    placeholder="4–8 digits" 
+                    value={pinInput}
+                    onChange={(val) => setPinInput(val.replace(/\D/g, '').slice(0, 8))}
+                  />
+                  <p className="text-[10px] text-white/20 uppercase text-left">New team? Choose a PIN. Rejoining? Enter the one you chose.</p>
+                </div>
                 <Button onClick={handleJoin} className="w-full">
                   Join Competition <ChevronRight className="w-4 h-4" />
                 </Button>
@@ -537,6 +4058,22 @@ export default function App() {
             </motion.div>
           )}
 
+          {view === 'spectator' && (
+            <motion.div key="spectator" initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+              <SpectatorView
+                round={currentRound}
+                teams={teams}
+                stats={roundStats}
+                submittedCount={submittedCount}
+                clockOffset={clockOffset}
+                joinCode={spectatorCode}
+                mode={leaderboard.mode}
+                freeze={leaderboardFreeze}
+                unfrozenAt={unfrozenAt}
+              />
+            </motion.div>
+          )}
+
           {view === 'participant' && (
             <motion.div 
               key="participant"
@@ -562,9 +4099,31 @@ export default function App() {
                   <div className="px-4 py-2 bg-emerald-500/10 rounded-xl border border-emerald-500/20">
                     <p className="text-[10px] font-mono text-emerald-500 uppercase">Balance</p>
                     <p className="font-mono font-bold text-emerald-400 text-sm">
-                      {teams.find(t => t.id === team?.id)?.balance?.toFixed(0) ?? '2000'}
+                      {ownBalance.toFixed(0)}
                     </p>
                   </div>
+                  {publicStanding?.rank != null && (
+                    <div className="px-4 py-2 bg-white/5 rounded-xl border border-white/5" title={leaderboardFreeze ? 'Rank when the leaderboard was frozen' : undefined}>
+                      <p className="text-[10px] font-mono text-white/40 uppercase flex items-center gap-1">
+                        Rank {leaderboardFreeze && <Snowflake className="w-3 h-3 text-sky-400" />}
+                      </p>
+                      <p className="font-mono font-bold text-sm">#{publicStanding.rank}</p>
+                    </div>
+                  )}
+                  {!!ownStanding?.debt && (
+                    <div className="px-4 py-2 bg-rose-500/10 rounded-xl border border-rose-500/20">
+                      <p className="text-[10px] font-mono text-rose-500 uppercase">Debt</p>
+                      <p className="font-mono font-bold text-rose-400 text-sm">{ownStanding.debt.toFixed(0)}</p>
+                    </div>
+                  )}
+                  {!!ownStanding?.rebuys && (
+                    <div className="px-4 py-2 bg-white/5 rounded-xl border border-white/5">
+                      <p className="text-[10px] font-mono text-white/40 uppercase">Re-buys</p>
+                      <p className="font-mono font-bold text-sm">
+                        {ownStanding.rebuys}{economy.bankruptcy.rule === 'rebuy' && ` / ${economy.bankruptcy.maxRebuys}`}
+                      </p>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -590,27 +4149,119 @@ export default function App() {
                         </div>
                         <div className="space-y-4">
                           <h3 className="text-3xl font-bold tracking-tight">Round Complete</h3>
-                          <div className="inline-flex flex-col items-center p-6 bg-white/5 rounded-3xl border border-white/5">
-                            <p className="text-[10px] font-mono text-white/40 uppercase tracking-widest mb-2">Actual Revealed Value</p>
-                            <span className="text-5xl font-mono font-bold text-emerald-400">{currentRound.actual_value}</span>
-                          </div>
+                          {currentRound.sub_questions?.length ? (
+                            <SubQuestionBoard round={currentRound} className="max-w-xl mx-auto" />
+                          ) : (
+                            <div className="inline-flex flex-col items-center p-6 bg-white/5 rounded-3xl border border-white/5">
+                              <p className="text-[10px] font-mono text-white/40 uppercase tracking-widest mb-2">Actual Revealed Value</p>
+                              <span className="text-5xl font-mono font-bold text-emerald-400">
+                                {currentRound.actual_value != null && describeAnswer(currentRound, currentRound.actual_value)}
+                                {currentRound.unit && <span className="text-lg ml-2 text-white/40">{currentRound.unit}</span>}
+                              </span>
+                            </div>
+                          )}
                         </div>
+                        {lastResult?.roundId === currentRound.id && (
+                          <div className={`max-w-xl mx-auto p-6 rounded-3xl border ${
+                            lastResult.payout >= lastResult.bidAmount ? 'bg-emerald-500/10 border-emerald-500/20' : 'bg-rose-500/10 border-rose-500/20'
+                          }`}>
+                            <p className="text-[10px] font-mono text-white/40 uppercase tracking-widest mb-2">
+                              Your Result{lastResult.corrected ? ' (corrected)' : ''}
+                            </p>
+                            <p className={`text-3xl font-bold ${lastResult.payout >= lastResult.bidAmount ? 'text-emerald-400' : 'text-rose-500'}`}>
+                              {lastResult.payout >= lastResult.bidAmount ? 'You won' : 'You lost'}{' '}
+                              {Math.abs(lastResult.payout - lastResult.bidAmount).toFixed(0)} coins
+                            </p>
+                            {lastResult.answers ? (
+                              <>
+                                <p className="text-xs font-mono text-white/40 mt-2 mb-4">
+                                  {lastResult.errorPercent.toFixed(1)}% off on average · bid {lastResult.bidAmount} · balance {lastResult.balance.toFixed(0)}
+                                </p>
+                                <SubQuestionAnswerList round={currentRound} answers={lastResult.answers} />
+                              </>
+                            ) : (
+                              <p className="text-xs font-mono text-white/40 mt-2">
+                                Predicted {describePrediction(currentRound, lastResult)}
+                                {lastResult.powerUp === 'hedge' && ` and ${lastResult.hedgeValue}`}
+                                {!currentRound.options && ` · ${lastResult.errorPercent.toFixed(1)}% off`} · bid {lastResult.bidAmount}
+                                {lastResult.powerUp && ` · ${POWER_UPS[lastResult.powerUp].name}`} · balance {lastResult.balance.toFixed(0)}
+                              </p>
+                            )}
+                          </div>
+                        )}
+                        {roundStats?.roundId === currentRound.id && (
+                          <div className="max-w-xl mx-auto">
+                            <RoundStatsPanel stats={roundStats} unit={currentRound.unit} highlightTeamId={team?.id} />
+                          </div>
+                        )}
                         <p className="text-white/40 italic">Preparing the next paradox...</p>
                       </div>
                     ) : (
                       <div className="space-y-10 relative z-10">
                         <div className="flex items-center justify-between">
                           <div className="space-y-1">
-                            <p className="text-[10px] font-mono text-emerald-500 uppercase tracking-widest">Active Challenge</p>
+                            <p className="text-[10px] font-mono text-emerald-500 uppercase tracking-widest">
+                              Active Challenge · {ROUND_TYPES[currentRound.type].name}
+                            </p>
                             <h3 className="text-4xl font-bold tracking-tight leading-none">{currentRound.theme}</h3>
+                            {currentRound.question && (
+                              <p className="text-lg text-white/80 pt-2">
+                                {currentRound.question}
+                                {currentRound.unit && <span className="ml-2 text-xs font-mono text-white/40 uppercase">({currentRound.unit})</span>}
+                              </p>
+                            )}
+                            {currentRound.description && (
+                              <p className="text-sm text-white/40">{currentRound.description}</p>
+                            )}
                           </div>
-                          <div className="flex items-center gap-2 px-4 py-2 bg-emerald-500/10 text-emerald-500 text-xs font-bold rounded-xl border border-emerald-500/20 animate-pulse">
-                            <div className="w-2 h-2 bg-emerald-500 rounded-full" />
-                            LIVE
+                          <div className="flex items-center gap-3">
+                            {currentRound.status === 'open' && currentRound.deadline_at && (
+                              <Countdown deadline={currentRound.deadline_at} clockOffset={clockOffset} className="text-xl" />
+                            )}
+                            {currentRound.status === 'open' ? (
+                              <div className="flex items-center gap-2 px-4 py-2 bg-emerald-500/10 text-emerald-500 text-xs font-bold rounded-xl border border-emerald-500/20 animate-pulse">
+                                <div className="w-2 h-2 bg-emerald-500 rounded-full" />
+                                LIVE
+                              </div>
+                            ) : (
+                              <div className="flex items-center gap-2 px-4 py-2 bg-amber-500/10 text-amber-500 text-xs font-bold rounded-xl border border-amber-500/20">
+                                <Lock className="w-3 h-3" />
+                                LOCKED
+                              </div>
+                            )}
                           </div>
                         </div>
 
-                        {hasSubmitted ? (
+                        {!!currentRound.hints?.length && (
+                          <div className="space-y-3">
+                            <p className="text-[10px] font-mono text-white/40 uppercase tracking-widest">Hints</p>
+                            {currentRound.hints.map(offer => {
+                              const bought = purchasedHints.find(h => h.id === offer.id);
+                              return bought ? (
+                                <div key={offer.id} className="p-4 rounded-2xl bg-indigo-500/10 border border-indigo-500/20 text-sm">
+                                  <span className="font-mono text-indigo-300 mr-2">#{offer.position}</span>{bought.text}
+                                </div>
+                              ) : (
+                                <div key={offer.id} className="flex items-center justify-between p-4 rounded-2xl bg-white/5 border border-white/5">
+                                  <span className="text-sm text-white/40">Hint #{offer.position}</span>
+                                  <Button
+                                    variant="outline"
+                                    onClick={() => handleBuyHint(offer.id)}
+                                    className="py-2 px-4 text-xs"
+                                    disabled={
+                                      currentRound.status !== 'open' || ownSubmission?.roundId === currentRound.id
+                                      || !!ownStanding?.eliminated_at || offer.price > ownBalance
+                                    }
+                                  >
+                                    {offer.price ? `Buy for ${offer.price} coins` : 'Reveal (free)'} <Eye className="w-3 h-3" />
+                                  </Button>
+                                </div>
+                              );
+                            })}
+                          </div>
+                        )}
+
+                        {ownSubmission?.roundId === currentRound.id ? (
                           <motion.div 
                             initial={{ opacity: 0, scale: 0.95 }}
                             animate={{ opacity: 1, scale: 1 }}
@@ -621,36 +4272,200 @@ export default function App() {
                             </div>
                             <div className="space-y-2">
                               <h4 className="text-2xl font-bold">Prediction Locked</h4>
-                              <p className="text-white/60">Your bid of <span className="text-emerald-400 font-mono font-bold">{bidInput} COINS</span> is registered. Awaiting revelation.</p>
+                              {ownSubmission.answers ? (
+                                <p className="text-white/60">
+                                  Your answers with <span className="text-emerald-400 font-mono font-bold">{ownSubmission.bidAmount} COINS</span> bid in total are confirmed. Awaiting revelation.
+                                </p>
+                              ) : (
+                                <p className="text-white/60">
+                                  Your prediction of <span className="text-white font-mono font-bold">{describePrediction(currentRound, ownSubmission)}</span> with a bid of <span className="text-emerald-400 font-mono font-bold">{ownSubmission.bidAmount} COINS</span> is confirmed. Awaiting revelation.
+                                </p>
+                              )}
+                              {ownSubmission.powerUp && (
+                                <p className="flex items-center justify-center gap-2 text-xs font-mono uppercase tracking-widest text-amber-400">
+                                  <Zap className="w-3 h-3" />
+                                  {POWER_UPS[ownSubmission.powerUp].name}
+                                  {ownSubmission.powerUp === 'hedge' && ` · second prediction ${ownSubmission.hedgeValue}`}
+                                </p>
+                              )}
                             </div>
+                            {ownSubmission.answers && <SubQuestionAnswerList round={currentRound} answers={ownSubmission.answers} />}
                           </motion.div>
+                        ) : pendingSubmission?.roundId === currentRound.id ? (
+                          <div className="bg-amber-500/5 border border-amber-500/20 rounded-3xl p-10 text-center space-y-6">
+                            <CloudOff className="w-10 h-10 text-amber-500 mx-auto" />
+                            <div className="space-y-2">
+                              <h4 className="text-2xl font-bold">Prediction Pending</h4>
+                              {pendingSubmission.answers ? (
+                                <p className="text-white/60">
+                                  Your answers with <span className="text-amber-400 font-mono font-bold">{pendingSubmission.bidAmount} COINS</span> bid in total are saved on this device and will be sent as soon as the connection returns.
+                                </p>
+                              ) : (
+                                <p className="text-white/60">
+                                  Your prediction of <span className="text-white font-mono font-bold">{describePrediction(currentRound, pendingSubmission)}</span> with a bid of <span className="text-amber-400 font-mono font-bold">{pendingSubmission.bidAmount} COINS</span> is saved on this device and will be sent as soon as the connection returns.
+                                </p>
+                              )}
+                            </div>
+                            {pendingSubmission.answers && <SubQuestionAnswerList round={currentRound} answers={pendingSubmission.answers} />}
+                            <div className="flex justify-center gap-3">
+                              <Button variant="secondary" onClick={flushPendingSubmission}>Retry Now</Button>
+                              <Button variant="outline" onClick={() => setPendingSubmission(null)}>Discard</Button>
+                            </div>
+                          </div>
+                        ) : ownStanding?.eliminated_at ? (
+                          <div className="bg-rose-500/5 border border-rose-500/20 rounded-3xl p-10 text-center space-y-4">
+                            <AlertCircle className="w-10 h-10 text-rose-500 mx-auto" />
+                            <h4 className="text-2xl font-bold">Eliminated</h4>
+                            <p className="text-white/60">Your team ran out of coins to bid with and is out of the game. You can keep following the rounds from here.</p>
+                          </div>
+                        ) : currentRound.status === 'closed' ? (
+                          <div className="bg-amber-500/5 border border-amber-500/20 rounded-3xl p-10 text-center space-y-4">
+                            <Lock className="w-10 h-10 text-amber-500 mx-auto" />
+                            <h4 className="text-2xl font-bold">Submissions Closed</h4>
+                            <p className="text-white/60">The host has locked this round. Wait for the reveal and get ready for the next one.</p>
+                          </div>
                         ) : (
                           <div className="space-y-8">
-                            <div className="grid md:grid-cols-2 gap-8">
-                              <div className="space-y-3">
-                                <Input 
-                                  label="Your Prediction" 
-                                  placeholder="0.00" 
-                                  type="number"
-                                  value={predictionInput}
-                                  onChange={setPredictionInput}
-                                  className="text-2xl font-mono"
-                                />
-                                <p className="text-[10px] text-white/20 uppercase">Enter your best estimate</p>
+                            {currentRound.sub_questions?.length ? (
+                              <div className="space-y-4">
+                                {currentRound.sub_questions.map(q => (
+                                  <div key={q.id} className="grid md:grid-cols-2 gap-4 p-4 rounded-2xl bg-white/5 border border-white/5">
+                                    <Input
+                                      label={`Q${q.position} · ${q.question}`}
+                                      placeholder="0.00"
+                                      type="number"
+                                      suffix={q.unit ?? undefined}
+                                      value={answerInputs[q.id]?.prediction ?? ''}
+                                      onChange={(prediction) => setAnswerInput(q.id, { prediction })}
+                                      className="font-mono"
+                                    />
+                                    <Input
+                                      label="Bid"
+                                      placeholder="0"
+                                      type="number"
+                                      suffix="COINS"
+                                      value={answerInputs[q.id]?.bid ?? ''}
+                                      onChange={(bid) => setAnswerInput(q.id, { bid })}
+                                      className="font-mono"
+                                    />
+                                  </div>
+                                ))}
+                                <p className="text-[10px] text-white/20 uppercase">
+                                  Total bid {answerBidTotal} of {ownBalance.toFixed(0)} coins
+                                  {ownBidRange.min <= ownBidRange.max && ` · bids together ${ownBidRange.min} – ${ownBidRange.max} coins`}
+                                </p>
+                              </div>
+                            ) : (
+                              <div className="grid md:grid-cols-2 gap-8">
+                                {currentRound.type === 'interval' ? (
+                                  <div className="space-y-3">
+                                    <div className="grid grid-cols-2 gap-3">
+                                      <Input
+                                        label="Low"
+                                        placeholder="0.00"
+                                        type="number"
+                                        value={intervalLowInput}
+                                        onChange={setIntervalLowInput}
+                                        className="text-2xl font-mono"
+                                      />
+                                      <Input
+                                        label="High"
+                                        placeholder="0.00"
+                                        type="number"
+                                        value={intervalHighInput}
+                                        onChange={setIntervalHighInput}
+                                        className="text-2xl font-mono"
+                                      />
+                                    </div>
+                                    <p className="text-[10px] text-white/20 uppercase">{ROUND_TYPES.interval.description}</p>
+                                  </div>
+                                ) : currentRound.options ? (
+                                  <div className="space-y-3">
+                                    <label className="text-xs font-mono uppercase tracking-widest text-white/40">
+                                      {currentRound.type === 'over_under' ? `Over or under ${currentRound.line}` : 'Your Pick'}
+                                    </label>
+                                    <div className="grid gap-2">
+                                      {currentRound.options.map((option, i) => (
+                                        <button
+                                          key={i}
+                                          onClick={() => setPredictionInput(String(i))}
+                                          className={`flex items-center justify-between p-4 rounded-2xl border text-left transition-all ${
+                                            predictionInput === String(i) ? 'bg-emerald-500/10 border-emerald-500/40' : 'bg-white/5 border-white/10 hover:border-white/20'
+                                          }`}
+                                        >
+                                          <span className="font-bold">{option.label}</span>
+                                          <span className="text-xs font-mono text-white/40">{option.odds}x</span>
+                                        </button>
+                                      ))}
+                                    </div>
+                                  </div>
+                                ) : (
+                                  <div className="space-y-3">
+                                    <Input 
+                                      label="Your Prediction" 
+                                      placeholder="0.00" 
+                                      type="number"
+                                      value={predictionInput}
+                                      onChange={setPredictionInput}
+                                      className="text-2xl font-mono"
+                                    />
+                                    <p className="text-[10px] text-white/20 uppercase">Enter your best estimate</p>
+                                  </div>
+                                )}
+                                <div className="space-y-3">
+                                  <Input 
+                                    label="Bid Amount" 
+                                    placeholder="0" 
+                                    type="number"
+                                    suffix="COINS"
+                                    value={bidInput}
+                                    onChange={setBidInput}
+                                    className="text-2xl font-mono"
+                                  />
+                                  <p className="text-[10px] text-white/20 uppercase">
+                                    {ownBidRange.min > ownBidRange.max
+                                      ? `You need ${ownBidRange.min} coins to bid`
+                                      : `Bid ${ownBidRange.min} – ${ownBidRange.max} coins`}
+                                  </p>
+                                </div>
                               </div>
+                            )}
+                            {!currentRound.sub_questions?.length && powerUps && POWER_UP_KINDS.some(kind => powerUpInventory[kind] > 0) && (
                               <div className="space-y-3">
-                                <Input 
-                                  label="Bid Amount" 
-                                  placeholder="0" 
-                                  type="number"
-                                  suffix="COINS"
-                                  value={bidInput}
-                                  onChange={setBidInput}
-                                  className="text-2xl font-mono"
-                                />
-                                <p className="text-[10px] text-white/20 uppercase">Risk what you can afford</p>
+                                <label className="text-xs font-mono uppercase tracking-widest text-white/40">Power-up (optional)</label>
+                                <div className="grid md:grid-cols-3 gap-3">
+                                  {POWER_UP_KINDS.filter(kind => powerUpInventory[kind] > 0).map(kind => (
+                                    <button
+                                      key={kind}
+                                      onClick={() => setPowerUpInput(powerUpInput === kind ? null : kind)}
+                                      disabled={powerUps[kind] < 1 || (kind === 'hedge' && currentRound.type !== 'point')}
+                                      className={`p-4 rounded-2xl border text-left transition-all disabled:opacity-30 disabled:cursor-not-allowed ${
+                                        powerUpInput === kind ? 'bg-amber-500/10 border-amber-500/40' : 'bg-white/5 border-white/10 hover:border-white/20'
+                                      }`}
+                                    >
+                                      <div className="flex items-center justify-between">
+                                        <span className="flex items-center gap-2 font-bold text-sm">
+                                          <Zap className={`w-4 h-4 ${powerUpInput === kind ? 'text-amber-400' : 'text-white/40'}`} />
+                                          {POWER_UPS[kind].name}
+                                        </span>
+                                        <span className="text-[10px] font-mono text-white/40">{powerUps[kind]} LEFT</span>
+                                      </div>
+                                      <p className="text-[10px] text-white/40 mt-2">{POWER_UPS[kind].description}</p>
+                                    </button>
+                                  ))}
+                                </div>
+                                {powerUpInput === 'hedge' && (
+                                  <Input
+                                    label="Second Prediction"
+                                    placeholder="0.00"
+                                    type="number"
+                                    value={hedgeInput}
+                                    onChange={setHedgeInput}
+                                    className="font-mono"
+                                  />
+                                )}
                               </div>
-                            </div>
+                            )}
                             <Button onClick={handleSubmitPrediction} className="w-full py-8 text-lg rounded-2xl shadow-xl shadow-emerald-500/10">
                               Submit to the Paradox <Target className="w-5 h-5" />
                             </Button>
@@ -661,20 +4476,26 @@ export default function App() {
                   </Card>
 
                   <div className="grid md:grid-cols-3 gap-6">
-                    {[
-                      { label: "Ultra Precision", mult: "3.0x", desc: "Error ≤ 2%", color: "text-emerald-400" },
-                      { label: "High Precision", mult: "2.0x", desc: "Error ≤ 5%", color: "text-blue-400" },
-                      { label: "Good Prediction", mult: "1.5x", desc: "Error ≤ 10%", color: "text-purple-400" }
-                    ].map((m, i) => (
+                    {describeScoring(activeScoring).map((m, i) => (
                       <div key={i}>
                         <Card className="p-6 border-white/5 hover:bg-white/5 transition-colors group">
                           <p className="text-[10px] font-mono text-white/40 uppercase tracking-widest mb-2">{m.label}</p>
-                          <p className={`text-3xl font-bold font-mono ${m.color} group-hover:scale-110 transition-transform origin-left`}>{m.mult}</p>
+                          <p className={`text-3xl font-bold font-mono ${TIER_COLORS[i % TIER_COLORS.length]} group-hover:scale-110 transition-transform origin-left`}>{m.mult}</p>
                           <p className="text-[10px] font-mono text-white/20 uppercase mt-2">{m.desc}</p>
                         </Card>
                       </div>
                     ))}
                   </div>
+
+                  {roundHistory && (
+                    <Card className="p-8 space-y-6">
+                      <div className="flex items-center gap-2">
+                        <TrendingUp className="w-5 h-5 text-emerald-500" />
+                        <h3 className="font-bold">My Performance</h3>
+                      </div>
+                      <PerformancePanel history={roundHistory} />
+                    </Card>
+                  )}
                 </div>
 
                 <div className="space-y-6">
@@ -684,9 +4505,45 @@ export default function App() {
                       <p className="text-[10px] font-mono text-white/40 uppercase tracking-widest">Paradox Rules</p>
                     </div>
                     <p className="text-xs text-white/40 leading-relaxed">
-                      Predictions with over <span className="text-rose-500 font-bold">25% error</span> result in a total loss of the bid. Precision is rewarded exponentially.
+                      {describeLoss(activeScoring)} Precision is rewarded exponentially.
                     </p>
+                    <div className="space-y-1">
+                      {describeEconomy(economy).map(({ label, value }) => (
+                        <div key={label} className="flex justify-between text-xs">
+                          <span className="text-white/40">{label}</span>
+                          <span className="font-mono text-white/60">{value}</span>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-xs text-white/40 leading-relaxed">{describeBankruptcy(economy.bankruptcy)}</p>
                   </div>
+
+                  <Card className="p-6 space-y-4">
+                    <div className="flex items-center gap-2">
+                      <Coins className="w-4 h-4 text-emerald-500" />
+                      <p className="text-[10px] font-mono text-white/40 uppercase tracking-widest">Transaction History</p>
+                    </div>
+                    <div className="space-y-2 max-h-[400px] overflow-y-auto pr-2 custom-scrollbar">
+                      {history.length === 0 ? (
+                        <p className="text-xs text-white/20 italic">No transactions yet.</p>
+                      ) : [...history].reverse().map((entry) => (
+                        <div key={entry.id} className="flex items-center justify-between p-3 rounded-lg bg-white/5 border border-white/5">
+                          <div className="min-w-0">
+                            <p className="text-[10px] font-mono uppercase tracking-widest text-white/60">{LEDGER_LABELS[entry.kind]}</p>
+                            <p className="text-xs text-white/40 truncate">{entry.note || entry.round_theme || '—'}</p>
+                          </div>
+                          {entry.kind !== 'notice' && (
+                            <div className="text-right shrink-0">
+                              <p className={`text-sm font-mono font-bold ${entry.amount >= 0 ? 'text-emerald-400' : 'text-rose-500'}`}>
+                                {entry.amount >= 0 ? '+' : ''}{entry.amount.toFixed(0)}
+                              </p>
+                              <p className="text-[10px] font-mono text-white/20">{entry.balance_after.toFixed(0)}</p>
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </Card>
                 </div>
               </div>
             </motion.div>
@@ -702,134 +4559,414 @@ export default function App() {
               <div className="grid lg:grid-cols-3 gap-8">
                 <div className="lg:col-span-1 space-y-8">
                   <Card className="p-8 space-y-6">
-                    <div className="flex items-center gap-2 mb-2">
-                      <Settings className="w-5 h-5 text-emerald-500" />
-                      <h3 className="font-bold">Admin Controls</h3>
+                    <div className="flex items-center gap-2">
+                      <Layers className="w-5 h-5 text-emerald-500" />
+                      <h3 className="font-bold">Games</h3>
                     </div>
-                    
-                    <div className="space-y-4">
-                      <div className="flex items-center justify-between">
-                        <p className="text-[10px] font-mono text-white/40 uppercase tracking-widest">Round Management</p>
-                        {currentRound && (
-                          <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold border ${
-                            currentRound.status === 'open' 
-                              ? 'bg-emerald-500/10 text-emerald-500 border-emerald-500/20' 
-                              : 'bg-white/5 text-white/40 border-white/10'
-                          }`}>
-                            {currentRound.status.toUpperCase()}
-                          </span>
-                        )}
+                    <Select
+                      label="Current Game"
+                      value={gameId ?? ''}
+                      onChange={(val) => setGameId(Number(val))}
+                      options={games.map(g => ({
+                        value: g.id,
+                        label: `${g.name}${g.status === 'archived' ? ' (archived)' : ''} · ${g.team_count ?? 0} teams`
+                      }))}
+                    />
+                    {selectedGame && (
+                      <div className="flex items-center justify-between p-4 bg-white/5 rounded-2xl border border-white/5">
+                        <div>
+                          <p className="text-[10px] font-mono text-white/40 uppercase tracking-widest">Join Code</p>
+                          <p className="text-2xl font-mono font-bold tracking-[0.3em] text-emerald-400">{selectedGame.join_code}</p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <a
+                            href={`/?screen=${selectedGame.join_code}`}
+                            target="_blank"
+                            rel="noreferrer"
+                            title="Open projector view"
+                            className="p-2 text-white/40 hover:text-white transition-colors"
+                          >
+                            <Monitor className="w-4 h-4" />
+                          </a>
+                          {can('owner') && (
+                            <Button onClick={() => handleArchiveGame(selectedGame)} variant="outline" className="py-2 px-3 text-xs">
+                              {selectedGame.status === 'active' ? 'Archive' : 'Restore'} <Archive className="w-3 h-3" />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                    {can('owner') && (
+                      <div className="flex gap-2 items-end">
+                        <Input label="New Game" placeholder="e.g. Tuesday Class" value={newGameName} onChange={setNewGameName} className="flex-1" />
+                        <Button onClick={handleCreateGame} variant="secondary" className="py-3 px-4" disabled={!newGameName}>
+                          <Plus className="w-4 h-4" />
+                        </Button>
                       </div>
+                    )}
+                  </Card>
 
-                      <Input 
-                        label="Game Title" 
-                        placeholder="e.g. DATA PARADOX" 
-                        value={gameTitle}
-                        onChange={(val) => {
-                          setGameTitle(val);
-                          handleUpdateGameTitle(val);
-                        }}
-                      />
-                      
-                      <div className="space-y-4 pt-4 border-t border-white/5">
+                  {can('host') && (
+                    <Card className="p-8 space-y-6">
+                      <div className="flex items-center gap-2 mb-2">
+                        <Settings className="w-5 h-5 text-emerald-500" />
+                        <h3 className="font-bold">Admin Controls</h3>
+                      </div>
+                    
+                      <div className="space-y-4">
                         <div className="flex items-center justify-between">
-                          <label className="text-xs font-mono uppercase tracking-widest text-white/40">New Round Theme</label>
+                          <p className="text-[10px] font-mono text-white/40 uppercase tracking-widest">Round Management</p>
+                          {currentRound && (
+                            <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold border ${
+                              currentRound.status === 'open' 
+                                ? 'bg-emerald-500/10 text-emerald-500 border-emerald-500/20' 
+                                : 'bg-white/5 text-white/40 border-white/10'
+                            }`}>
+                              {currentRound.status.toUpperCase()}
+                            </span>
+                          )}
+                        </div>
+
+                        {can('owner') && (
+                          <Input 
+                            label="Game Title" 
+                            placeholder="e.g. DATA PARADOX" 
+                            value={gameTitle}
+                            onChange={(val) => {
+                              setGameTitle(val);
+                              handleUpdateGameTitle(val);
+                            }}
+                          />
+                        )}
+                      
+                        <div className="space-y-4 pt-4 border-t border-white/5">
+                          <div className="flex items-center justify-between">
+                            <label className="text-xs font-mono uppercase tracking-widest text-white/40">New Round Theme</label>
+                            {currentRound?.status === 'open' && (
+                              <span className="text-[10px] text-amber-500 font-bold animate-pulse">ROUND IN PROGRESS</span>
+                            )}
+                          </div>
+                          <Input 
+                            label="" 
+                            placeholder="e.g. IPL Match Metrics" 
+                            value={newRoundTheme}
+                            onChange={setNewRoundTheme}
+                            disabled={currentRound?.status === 'open'}
+                          />
+                          <Select
+                            label="Scoring Rules"
+                            value={newRoundRuleId || (defaultScoringRuleId ?? '')}
+                            onChange={setNewRoundRuleId}
+                            options={scoringRules.map(r => ({ value: r.id, label: r.name }))}
+                            disabled={currentRound?.status === 'open'}
+                          />
+                          <Input
+                            label="Time Limit (optional)"
+                            type="number"
+                            placeholder="No deadline"
+                            suffix="SEC"
+                            value={roundDurationInput}
+                            onChange={setRoundDurationInput}
+                          />
+                          <RoundFormatEditor
+                            draft={roundFormatDraft}
+                            onChange={setRoundFormatDraft}
+                            disabled={currentRound?.status === 'open'}
+                          />
+                          {roundFormatDraft.type === 'point' && (
+                            <SubQuestionsEditor
+                              drafts={subQuestionDrafts}
+                              onChange={setSubQuestionDrafts}
+                              disabled={currentRound?.status === 'open'}
+                            />
+                          )}
+                          <Button 
+                            onClick={handleStartRound} 
+                            variant="secondary" 
+                            className="w-full"
+                            disabled={currentRound?.status === 'open' || !newRoundTheme}
+                          >
+                            Start New Round <Play className="w-4 h-4" />
+                          </Button>
+                          {nextQueued && (
+                            <Button
+                              onClick={handleStartNextRound}
+                              variant="outline"
+                              className="w-full text-xs"
+                              disabled={currentRound?.status === 'open'}
+                            >
+                              Next: {nextQueued.theme} <SkipForward className="w-4 h-4" />
+                            </Button>
+                          )}
                           {currentRound?.status === 'open' && (
-                            <span className="text-[10px] text-amber-500 font-bold animate-pulse">ROUND IN PROGRESS</span>
+                            <div className="flex items-center gap-3">
+                              {currentRound.deadline_at && (
+                                <Countdown deadline={currentRound.deadline_at} clockOffset={clockOffset} />
+                              )}
+                              <Button onClick={() => handleRoundTransition('lock')} variant="outline" className="flex-1 py-2 text-xs">
+                                Lock Submissions <Lock className="w-3 h-3" />
+                              </Button>
+                            </div>
+                          )}
+                          {currentRound?.status === 'closed' && !currentRound.sub_questions?.some(q => q.settled_at != null) && (
+                            <Button onClick={() => handleRoundTransition('reopen')} variant="outline" className="w-full py-2 text-xs">
+                              Reopen Round <Unlock className="w-3 h-3" />
+                            </Button>
                           )}
                         </div>
-                        <Input 
-                          label="" 
-                          placeholder="e.g. IPL Match Metrics" 
-                          value={newRoundTheme}
-                          onChange={setNewRoundTheme}
-                          disabled={currentRound?.status === 'open'}
-                        />
-                        <Button 
-                          onClick={handleStartRound} 
-                          variant="secondary" 
-                          className="w-full"
-                          disabled={currentRound?.status === 'open' || !newRoundTheme}
-                        >
-                          Start New Round <Play className="w-4 h-4" />
-                        </Button>
                       </div>
-                    </div>
 
-                    <div className="pt-6 border-t border-white/5 space-y-4">
-                      <div className="flex items-center justify-between">
-                        <label className="text-xs font-mono uppercase tracking-widest text-white/40">Actual Value</label>
-                        {currentRound?.status === 'revealed' && (
-                          <span className="text-[10px] text-emerald-500 font-bold">COMPLETED</span>
+                      <div className="pt-6 border-t border-white/5 space-y-4">
+                        <div className="flex items-center justify-between">
+                          <label className="text-xs font-mono uppercase tracking-widest text-white/40">Actual Value</label>
+                          {currentRound?.status === 'revealed' && (
+                            <span className="text-[10px] text-emerald-500 font-bold">COMPLETED</span>
+                          )}
+                        </div>
+                        {currentRound?.sub_questions?.length ? (
+                          <div key={currentRound.id}>
+                            <SubQuestionRevealPanel
+                              round={currentRound}
+                              onReveal={handleRevealSubQuestions}
+                              onCorrect={handleCorrectSubQuestion}
+                            />
+                          </div>
+                        ) : currentRound?.type === 'choice' ? (
+                          <Select
+                            label=""
+                            value={actualValueInput}
+                            onChange={setActualValueInput}
+                            options={[
+                              {
+                                value: '',
+                                label: currentRound.status === 'revealed' && currentRound.actual_value != null
+                                  ? `Correct answer (was ${describeAnswer(currentRound, currentRound.actual_value)})`
+                                  : 'Pick the right option'
+                              },
+                              ...(currentRound.options ?? []).map((o, i) => ({ value: i, label: o.label }))
+                            ]}
+                          />
+                        ) : (
+                          <Input 
+                            label="" 
+                            placeholder={
+                              currentRound?.status === 'revealed' ? `Correct value (was ${currentRound.actual_value})`
+                                : storedAnswer != null ? `Stored answer: ${storedAnswer} (type to override)`
+                                : currentRound?.type === 'over_under' ? `Enter revealed value (line ${currentRound.line})`
+                                : "Enter revealed value"
+                            }
+                            type="number"
+                            value={actualValueInput}
+                            onChange={setActualValueInput}
+                            disabled={!currentRound}
+                          />
+                        )}
+                        {!currentRound?.sub_questions?.length && (
+                          <Button 
+                            onClick={handleReveal} 
+                            variant={currentRound?.status === 'revealed' ? 'outline' : 'danger'} 
+                            className="w-full" 
+                            disabled={!currentRound || (!actualValueInput && (currentRound.status === 'revealed' || storedAnswer == null))}
+                          >
+                            {currentRound?.status === 'revealed' ? (
+                              <>Correct & Re-score <RotateCcw className="w-4 h-4" /></>
+                            ) : (
+                              <>Reveal & Calculate <Eye className="w-4 h-4" /></>
+                            )}
+                          </Button>
                         )}
                       </div>
-                      <Input 
-                        label="" 
-                        placeholder="Enter revealed value" 
-                        type="number"
-                        value={actualValueInput}
-                        onChange={setActualValueInput}
-                        disabled={!currentRound || currentRound.status === 'revealed'}
-                      />
-                      <Button 
-                        onClick={handleReveal} 
-                        variant="danger" 
-                        className="w-full" 
-                        disabled={!currentRound || currentRound.status === 'revealed' || !actualValueInput}
-                      >
-                        Reveal & Calculate <Eye className="w-4 h-4" />
-                      </Button>
-                    </div>
 
-                    <div className="pt-6 border-t border-white/5">
-                      {!showResetConfirm ? (
-                        <Button 
-                          onClick={() => setShowResetConfirm(true)} 
-                          variant="outline" 
-                          className="w-full text-rose-500 border-rose-500/20 hover:bg-rose-500/10"
-                        >
-                          Reset Entire Game <Trash2 className="w-4 h-4" />
-                        </Button>
-                      ) : (
-                        <div className="space-y-3 p-4 bg-rose-500/10 rounded-2xl border border-rose-500/20">
-                          <p className="text-[10px] font-mono text-rose-500 uppercase font-bold text-center">Confirm Reset?</p>
-                          <div className="grid grid-cols-2 gap-2">
-                            <Button onClick={handleReset} variant="danger" className="py-2 text-xs">
-                              Yes, Reset
-                            </Button>
-                            <Button onClick={() => setShowResetConfirm(false)} variant="outline" className="py-2 text-xs">
-                              Cancel
+                      {can('owner') && (
+                        <div className="pt-6 border-t border-white/5">
+                          {!showResetConfirm ? (
+                            <Button 
+                              onClick={() => setShowResetConfirm(true)} 
+                              variant="outline" 
+                              className="w-full text-rose-500 border-rose-500/20 hover:bg-rose-500/10"
+                            >
+                              Reset This Game <Trash2 className="w-4 h-4" />
                             </Button>
-                          </div>
+                          ) : (
+                            <div className="space-y-3 p-4 bg-rose-500/10 rounded-2xl border border-rose-500/20">
+                              <p className="text-[10px] font-mono text-rose-500 uppercase font-bold text-center">Confirm Reset?</p>
+                              <p className="text-[10px] text-white/40 text-center">A snapshot is saved first, so this can be undone from Snapshots.</p>
+                              <div className="grid grid-cols-2 gap-2">
+                                <Button onClick={handleReset} variant="danger" className="py-2 text-xs">
+                                  Yes, Reset
+                                </Button>
+                                <Button onClick={() => setShowResetConfirm(false)} variant="outline" className="py-2 text-xs">
+                                  Cancel
+                                </Button>
+                              </div>
+                            </div>
+                          )}
                         </div>
                       )}
-                    </div>
-                  </Card>
+                    </Card>
+                  )}
 
-                  <Card className="p-8">
-                    <div className="flex items-center justify-between mb-6">
-                      <h3 className="font-bold">Submissions</h3>
-                      <span className="text-xs font-mono text-white/40">{submissions.length} RECEIVED</span>
-                    </div>
-                    <div className="space-y-3 max-h-[400px] overflow-y-auto pr-2 custom-scrollbar">
-                      {submissions.map((sub) => (
-                        <div key={sub.id} className="flex items-center justify-between p-3 rounded-lg bg-white/5 border border-white/5">
-                          <div>
-                            <p className="text-sm font-semibold">{sub.team_name}</p>
-                            <p className="text-[10px] font-mono text-white/40">BID: {sub.bid_amount}</p>
-                          </div>
-                          <div className="text-right">
-                            <p className="text-xs font-mono">PRED: {sub.predicted_value}</p>
-                            {currentRound?.status === 'revealed' && (
-                              <p className={`text-[10px] font-bold ${sub.score > sub.bid_amount ? 'text-emerald-500' : 'text-rose-500'}`}>
-                                {sub.score > sub.bid_amount ? '+' : ''}{(sub.score - sub.bid_amount).toFixed(1)}
+                  {selectedGame && (
+                    <Card className="p-8 space-y-6">
+                      <div className="flex items-center gap-2">
+                        <FileText className="w-5 h-5 text-emerald-500" />
+                        <h3 className="font-bold">Results & Exports</h3>
+                      </div>
+                      <ResultsExport
+                        onDownload={handleDownloadExport}
+                        onOpenReport={handleOpenReport}
+                        onDownloadReport={handleDownloadReport}
+                      />
+                    </Card>
+                  )}
+
+                  {can('owner') && selectedGame && (
+                    <Card className="p-8 space-y-6">
+                      <div className="flex items-center gap-2">
+                        <History className="w-5 h-5 text-emerald-500" />
+                        <h3 className="font-bold">Snapshots</h3>
+                      </div>
+                      <SnapshotList
+                        snapshots={snapshots}
+                        onCreate={handleCreateSnapshot}
+                        onRestore={handleRestoreSnapshot}
+                        onDownload={handleDownloadSnapshot}
+                        onUpload={handleUploadSnapshot}
+                      />
+                    </Card>
+                  )}
+
+                  {can('owner') && (
+                    <Card className="p-8 space-y-6">
+                      <div className="flex items-center gap-2">
+                        <Target className="w-5 h-5 text-emerald-500" />
+                        <h3 className="font-bold">Scoring Rules</h3>
+                      </div>
+                      <ScoringRuleEditor
+                        rules={scoringRules}
+                        defaultRuleId={defaultScoringRuleId}
+                        onSave={handleSaveScoringRule}
+                        onDelete={handleDeleteScoringRule}
+                        onMakeDefault={handleMakeDefaultScoringRule}
+                      />
+                    </Card>
+                  )}
+
+                  {can('owner') && selectedGame && (
+                    <Card className="p-8 space-y-6">
+                      <div className="flex items-center gap-2">
+                        <Coins className="w-5 h-5 text-emerald-500" />
+                        <h3 className="font-bold">Economy</h3>
+                      </div>
+                      <EconomyEditor economy={economy} onSave={handleSaveEconomy} />
+                    </Card>
+                  )}
+
+                  {can('owner') && selectedGame && (
+                    <Card className="p-8 space-y-6">
+                      <div className="flex items-center gap-2">
+                        <Zap className="w-5 h-5 text-emerald-500" />
+                        <h3 className="font-bold">Power-ups</h3>
+                      </div>
+                      <PowerUpInventoryEditor inventory={powerUpInventory} onSave={handleSavePowerUps} />
+                    </Card>
+                  )}
+
+                  {can('host') && selectedGame && (
+                    <Card className="p-8 space-y-6">
+                      <div className="flex items-center gap-2">
+                        <Trophy className="w-5 h-5 text-emerald-500" />
+                        <h3 className="font-bold">Leaderboard</h3>
+                      </div>
+                      {can('owner') && (
+                        <LeaderboardEditor settings={leaderboard} onSave={handleSaveLeaderboard} />
+                      )}
+                      <div className={can('owner') ? 'pt-6 border-t border-white/5' : ''}>
+                        <LeaderboardFreezeControls
+                          freeze={leaderboardFreeze}
+                          onFreeze={handleFreezeLeaderboard}
+                          onUnfreeze={handleUnfreezeLeaderboard}
+                        />
+                      </div>
+                    </Card>
+                  )}
+
+                  {(can('host') || can('scorekeeper')) && selectedGame && (
+                    <Card className="p-8 space-y-6">
+                      <div className="flex items-center gap-2">
+                        <UserCog className="w-5 h-5 text-emerald-500" />
+                        <h3 className="font-bold">Teams</h3>
+                      </div>
+                      <TeamManager
+                        teams={adminTeams}
+                        canManage={can('host')}
+                        canAdjust={can('scorekeeper')}
+                        onRename={handleRenameTeam}
+                        onAdjust={handleAdjustBalance}
+                        onMerge={handleMergeTeams}
+                        onRemove={handleRemoveTeam}
+                        onReinstate={handleReinstateTeam}
+                      />
+                    </Card>
+                  )}
+
+                  {can('scorekeeper') && currentRound && (
+                    <Card className="p-8 space-y-6">
+                      <div className="flex items-center gap-2">
+                        <Eye className="w-5 h-5 text-emerald-500" />
+                        <h3 className="font-bold">Round Hints</h3>
+                      </div>
+                      <RoundHintEditor
+                        hints={roundHints}
+                        editable={can('host') && currentRound.status !== 'revealed'}
+                        onAdd={handleAddHint}
+                        onRemove={handleRemoveHint}
+                      />
+                    </Card>
+                  )}
+
+                  {can('scorekeeper') && (
+                    <Card className="p-8">
+                      <div className="flex items-center justify-between mb-6">
+                        <h3 className="font-bold">Submissions</h3>
+                        <span className="text-xs font-mono text-white/40">{submissions.length} RECEIVED</span>
+                      </div>
+                      <div className="space-y-3 max-h-[400px] overflow-y-auto pr-2 custom-scrollbar">
+                        {submissions.map((sub) => (
+                          <div key={sub.id} className="flex items-center justify-between p-3 rounded-lg bg-white/5 border border-white/5">
+                            <div>
+                              <p className="text-sm font-semibold">{sub.team_name}</p>
+                              <p className="text-[10px] font-mono text-white/40">BID: {sub.bid_amount}</p>
+                              {sub.hints_bought && (
+                                <p className="text-[10px] font-mono uppercase text-indigo-300">HINTS: {sub.hints_bought.split(',').map(p => `#${p}`).join(' ')}</p>
+                              )}
+                              {sub.power_up && (
+                                <p className="flex items-center gap-1 text-[10px] font-mono uppercase text-amber-400">
+                                  <Zap className="w-3 h-3" /> {POWER_UPS[sub.power_up].name}
+                                </p>
+                              )}
+                            </div>
+                            <div className="text-right">
+                              <p className="text-xs font-mono">
+                                {sub.sub_question_position != null && <span className="text-white/40">Q{sub.sub_question_position} </span>}
+                                PRED: {currentRound ? describePrediction(currentRound, {
+                                  predictedValue: sub.predicted_value,
+                                  intervalLow: sub.interval_low,
+                                  intervalHigh: sub.interval_high
+                                }) : sub.predicted_value}
                               </p>
-                            )}
+                              {sub.hedge_value != null && <p className="text-xs font-mono text-white/40">HEDGE: {sub.hedge_value}</p>}
+                              {currentRound?.status === 'revealed' && (
+                                <p className={`text-[10px] font-bold ${sub.score > sub.bid_amount ? 'text-emerald-500' : 'text-rose-500'}`}>
+                                  {sub.score > sub.bid_amount ? '+' : ''}{(sub.score - sub.bid_amount).toFixed(1)}
+                                </p>
+                              )}
+                            </div>
                           </div>
-                        </div>
-                      ))}
-                    </div>
-                  </Card>
+                        ))}
+                      </div>
+                    </Card>
+                  )}
                 </div>
 
                 <div className="lg:col-span-2 space-y-6">
@@ -839,19 +4976,44 @@ export default function App() {
                       <h3 className="text-2xl font-bold tracking-tight">Leaderboard</h3>
                     </div>
                     <div className="flex gap-2">
-                      <Button variant="outline" onClick={() => { fetchTeams(); fetchCurrentRound(); }} className="py-2 px-4 text-xs">
+                      {adminAccount && (
+                        <span className="self-center text-[10px] font-mono text-white/40 uppercase tracking-widest mr-2">
+                          {adminAccount.username} · {adminAccount.role}
+                        </span>
+                      )}
+                      <Button
+                        variant="outline"
+                        onClick={() => {
+                          fetchTeams();
+                          fetchCurrentRound();
+                          fetchGames();
+                          fetchAuditLog();
+                          if (can('owner')) fetchAccounts();
+                          if (can('host')) {
+                            fetchQuestions();
+                            fetchQueue();
+                          }
+                        }}
+                        className="py-2 px-4 text-xs"
+                      >
                         Refresh Data
                       </Button>
                       <Button variant="outline" onClick={() => setView('participant')} className="py-2 px-4 text-xs">
                         Player View
                       </Button>
-                      <Button variant="danger" onClick={() => { setIsAdminAuthenticated(false); setAdminPassword(''); setView('landing'); }} className="py-2 px-4 text-xs">
+                      <Button variant="danger" onClick={handleAdminLogout} className="py-2 px-4 text-xs">
                         Logout Admin
                       </Button>
                     </div>
                   </div>
 
                   <Card className="overflow-hidden border-white/10">
+                    {leaderboardFreeze && (
+                      <div className="px-6 py-3 border-b border-sky-500/20 bg-sky-500/10 flex items-center gap-2 text-xs text-sky-400">
+                        <Snowflake className="w-4 h-4" />
+                        Public leaderboard frozen. These are the live standings, hidden from players.
+                      </div>
+                    )}
                     <div className="overflow-x-auto">
                       <table className="w-full text-left border-collapse">
                         <thead>
@@ -862,13 +5024,13 @@ export default function App() {
                           </tr>
                         </thead>
                         <tbody>
-                          {teams.length === 0 ? (
+                          {standings.length === 0 ? (
                             <tr>
                               <td colSpan={3} className="px-6 py-20 text-center text-white/20 italic">
                                 No teams joined yet.
                               </td>
                             </tr>
-                          ) : teams.map((t, i) => (
+                          ) : standings.map((t, i) => (
                             <motion.tr 
                               key={t.id}
                               initial={{ opacity: 0, x: -10 }}
@@ -883,17 +5045,40 @@ export default function App() {
                                   i === 2 ? 'bg-amber-700/20 text-amber-700 border border-amber-700/20' :
                                   'bg-white/5 text-white/40'
                                 }`}>
-                                  {i + 1}
+                                  {t.rank ?? i + 1}
                                 </span>
                               </td>
                               <td className="px-6 py-4">
-                                <span className="font-semibold group-hover:text-emerald-400 transition-colors">{t.name}</span>
+                                <div className="flex items-center gap-3">
+                                  <span className={`font-semibold group-hover:text-emerald-400 transition-colors ${t.eliminated_at ? 'line-through text-white/40' : ''}`}>{t.name}</span>
+                                  {!!t.eliminated_at && (
+                                    <span className="text-[10px] font-mono uppercase tracking-widest text-rose-500">Eliminated</span>
+                                  )}
+                                  {!!t.rebuys && (
+                                    <span className="text-[10px] font-mono uppercase tracking-widest text-white/40">{t.rebuys} re-buy{t.rebuys === 1 ? '' : 's'}</span>
+                                  )}
+                                  {can('scorekeeper') && (
+                                    <button
+                                      onClick={() => handleResetTeamPin(t)}
+                                      title="Reset team PIN"
+                                      className="opacity-0 group-hover:opacity-100 p-1 text-white/40 hover:text-white transition-all"
+                                    >
+                                      <KeyRound className="w-4 h-4" />
+                                    </button>
+                                  )}
+                                </div>
                               </td>
                               <td className="px-6 py-4 text-right">
                                 <span className="font-mono font-bold text-emerald-400 text-lg">
                                   {t.balance.toFixed(0)}
                                   <span className="text-[10px] ml-1 text-white/20">COINS</span>
                                 </span>
+                                {!!t.debt && (
+                                  <p className="text-[10px] font-mono text-rose-500">{t.debt.toFixed(0)} DEBT</p>
+                                )}
+                                {formatModeValue(leaderboard.mode, t) && (
+                                  <p className="text-[10px] font-mono text-white/40 uppercase">{formatModeValue(leaderboard.mode, t)}</p>
+                                )}
                               </td>
                             </motion.tr>
                           ))}
@@ -909,7 +5094,7 @@ export default function App() {
                         <p className="text-xs font-mono text-white/40 uppercase">Total Liquidity</p>
                       </div>
                       <p className="text-3xl font-bold font-mono">
-                        {teams.reduce((acc, t) => acc + t.balance, 0).toFixed(0)}
+                        {standings.reduce((acc, t) => acc + t.balance, 0).toFixed(0)}
                       </p>
                     </Card>
                     <Card className="p-6 bg-indigo-500/5 border-indigo-500/20">
@@ -920,6 +5105,170 @@ export default function App() {
                       <p className="text-3xl font-bold font-mono">{teams.length}</p>
                     </Card>
                   </div>
+
+                  {currentRound?.status === 'revealed' && roundStats?.roundId === currentRound.id && (
+                    <Card className="p-8 space-y-6">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <BarChart3 className="w-5 h-5 text-emerald-500" />
+                          <h3 className="font-bold">Round Statistics</h3>
+                        </div>
+                        <span className="text-xs font-mono text-white/40">
+                          ANSWER {currentRound.actual_value != null && describeAnswer(currentRound, currentRound.actual_value)}
+                        </span>
+                      </div>
+                      <RoundStatsPanel stats={roundStats} unit={currentRound.unit} />
+                    </Card>
+                  )}
+
+                  {can('host') && (
+                    <Card className="p-8 space-y-6">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <ListOrdered className="w-5 h-5 text-emerald-500" />
+                          <h3 className="font-bold">Question Queue</h3>
+                        </div>
+                        <span className="text-xs font-mono text-white/40">
+                          {queue.filter(e => e.round_id === null).length} REMAINING
+                        </span>
+                      </div>
+                      <div className="space-y-2">
+                        {queue.length === 0 ? (
+                          <p className="text-sm text-white/20 italic">Queue questions from the bank below to play them in order.</p>
+                        ) : queue.map((entry, i) => (
+                          <div
+                            key={entry.id}
+                            className={`flex items-center justify-between gap-4 p-3 rounded-lg border ${
+                              entry.round_id ? 'bg-white/[0.02] border-white/5 opacity-50' : 'bg-white/5 border-white/5'
+                            }`}
+                          >
+                            <div className="flex items-center gap-3 min-w-0">
+                              <span className="w-6 text-xs font-mono text-white/40">{i + 1}</span>
+                              <div className="min-w-0">
+                                <p className="text-sm font-semibold truncate">{entry.theme}</p>
+                                <p className="text-xs text-white/40 truncate">{entry.question}</p>
+                              </div>
+                            </div>
+                            {entry.round_id ? (
+                              <span className="text-[10px] font-mono text-white/40 uppercase shrink-0">Played</span>
+                            ) : (
+                              <div className="flex gap-1 shrink-0">
+                                <button onClick={() => handleMoveInQueue(entry.id, -1)} className="p-1 text-white/40 hover:text-white" title="Move up">
+                                  <ChevronUp className="w-4 h-4" />
+                                </button>
+                                <button onClick={() => handleMoveInQueue(entry.id, 1)} className="p-1 text-white/40 hover:text-white" title="Move down">
+                                  <ChevronDown className="w-4 h-4" />
+                                </button>
+                                <button onClick={() => handleRemoveFromQueue(entry.id)} className="p-1 text-white/40 hover:text-rose-500" title="Remove">
+                                  <Trash2 className="w-4 h-4" />
+                                </button>
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </Card>
+                  )}
+
+                  {can('host') && (
+                    <Card className="p-8 space-y-6">
+                      <div className="flex items-center gap-2">
+                        <Layers className="w-5 h-5 text-emerald-500" />
+                        <h3 className="font-bold">Question Bank</h3>
+                      </div>
+                      <QuestionBankEditor
+                        questions={questions}
+                        queuedIds={new Set(queue.filter(e => e.round_id === null).map(e => e.question_id))}
+                        onSave={handleSaveQuestion}
+                        onDelete={handleDeleteQuestion}
+                        onQueue={handleQueueQuestion}
+                        onImport={handleImportQuestions}
+                      />
+                    </Card>
+                  )}
+
+                  {can('host') && (
+                    <Card className="p-8 space-y-6">
+                      <div className="flex items-center gap-2">
+                        <Sparkles className="w-5 h-5 text-emerald-500" />
+                        <h3 className="font-bold">Generate Questions</h3>
+                      </div>
+                      <QuestionGenerator onGenerate={handleGenerateQuestions} onAccept={(input) => handleSaveQuestion(null, input)} />
+                    </Card>
+                  )}
+
+                  <Card className="p-8">
+                    <div className="flex items-center gap-2 mb-6">
+                      <Activity className="w-5 h-5 text-emerald-500" />
+                      <h3 className="font-bold">Activity</h3>
+                    </div>
+                    <div className="space-y-2 max-h-[320px] overflow-y-auto pr-2 custom-scrollbar">
+                      {auditLog.length === 0 ? (
+                        <p className="text-sm text-white/20 italic">No admin actions recorded for this game yet.</p>
+                      ) : auditLog.map(entry => (
+                        <div key={entry.id} className="flex items-center justify-between gap-4 p-3 rounded-lg bg-white/5 border border-white/5">
+                          <div className="min-w-0">
+                            <p className="text-sm font-mono">{entry.action}</p>
+                            <p className="text-[10px] font-mono text-white/40 truncate">
+                              {Object.entries(entry.details).map(([k, v]) => `${k}: ${v}`).join(' · ')}
+                            </p>
+                          </div>
+                          <div className="text-right shrink-0">
+                            <p className="text-xs font-semibold">{entry.username ?? 'system'}</p>
+                            <p className="text-[10px] font-mono text-white/40">{new Date(entry.created_at).toLocaleTimeString()}</p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </Card>
+
+                  {can('owner') && (
+                    <Card className="p-8 space-y-6">
+                      <div className="flex items-center gap-2">
+                        <ShieldCheck className="w-5 h-5 text-emerald-500" />
+                        <h3 className="font-bold">Admin Accounts</h3>
+                      </div>
+                      <div className="space-y-2">
+                        {accounts.map(account => (
+                          <div key={account.id} className="flex items-center justify-between p-3 rounded-lg bg-white/5 border border-white/5">
+                            <div>
+                              <p className={`text-sm font-semibold ${account.disabled ? 'text-white/30 line-through' : ''}`}>{account.username}</p>
+                              <p className="text-[10px] font-mono text-white/40 uppercase">
+                                {account.role} · {account.active_sessions ?? 0} active sessions
+                              </p>
+                            </div>
+                            {account.id !== adminAccount?.id && (
+                              <div className="flex gap-2">
+                                <Button onClick={() => handleRevokeSessions(account)} variant="outline" className="py-1 px-3 text-xs">
+                                  Sign Out
+                                </Button>
+                                <Button onClick={() => handleToggleAccount(account)} variant="outline" className="py-1 px-3 text-xs">
+                                  {account.disabled ? 'Enable' : 'Disable'}
+                                </Button>
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                      <div className="grid md:grid-cols-4 gap-2 items-end">
+                        <Input label="Username" value={newAccountUsername} onChange={setNewAccountUsername} />
+                        <Input label="Password" type="password" placeholder="8+ characters" value={newAccountPassword} onChange={setNewAccountPassword} />
+                        <Select
+                          label="Role"
+                          value={newAccountRole}
+                          onChange={(val) => setNewAccountRole(val as AdminRole)}
+                          options={[
+                            { value: 'host', label: 'Host' },
+                            { value: 'scorekeeper', label: 'Scorekeeper' },
+                            { value: 'owner', label: 'Owner' }
+                          ]}
+                        />
+                        <Button onClick={handleCreateAccount} variant="secondary" className="py-3" disabled={!newAccountUsername || !newAccountPassword}>
+                          Add <Plus className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </Card>
+                  )}
                 </div>
               </div>
             </motion.div>
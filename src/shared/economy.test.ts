@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ECONOMY, EconomySettings, bidRange, validateBid, validateStake } from './economy';
+
+const LIMITED: EconomySettings = { ...DEFAULT_ECONOMY, minBid: { kind: 'absolute', value: 10 }, maxBid: { kind: 'percent', value: 10 } };
+
+describe('validateBid', () => {
+  it('keeps a bid within the limits and the balance', () => {
+    expect(validateBid(LIMITED, 2000, 200)).toBeNull();
+    expect(validateBid(LIMITED, 2000, 201)).toBe('Maximum bid is 200 coins');
+    expect(validateBid(LIMITED, 2000, 5)).toBe('Minimum bid is 10 coins');
+    expect(validateBid(DEFAULT_ECONOMY, 100, 150)).toBe('Insufficient balance');
+    expect(validateBid(DEFAULT_ECONOMY, 100, 2.5)).toBe('Bid must be a whole number of coins');
+  });
+});
+
+describe('validateStake', () => {
+  it('applies the maximum bid to the bids together', () => {
+    expect(validateStake(LIMITED, 2000, [100, 100])).toBeNull();
+    expect(validateStake(LIMITED, 2000, Array(10).fill(200))).toBe('Maximum bid is 200 coins for the whole round');
+  });
+
+  it('applies the minimum bid and the balance to the bids together', () => {
+    expect(validateStake(LIMITED, 2000, [5, 5])).toBeNull();
+    expect(validateStake(LIMITED, 2000, [4, 5])).toBe('Minimum bid is 10 coins for the whole round');
+    expect(validateStake(DEFAULT_ECONOMY, 100, [60, 60])).toBe('Insufficient balance for the whole round');
+  });
+
+  it('needs every bid to be a whole number of coins', () => {
+    expect(validateStake(DEFAULT_ECONOMY, 2000, [100, 0])).toBe('Bids must be whole numbers of coins');
+    expect(validateStake(DEFAULT_ECONOMY, 2000, [100, '50'])).toBe('Bids must be whole numbers of coins');
+  });
+});
+
+describe('bidRange', () => {
+  it('caps the maximum at the balance', () => {
+    expect(bidRange(LIMITED, 2000)).toEqual({ min: 10, max: 200 });
+    expect(bidRange(DEFAULT_ECONOMY, 150)).toEqual({ min: 1, max: 150 });
+  });
+});
@@ -0,0 +1,152 @@
+// Per-game economy settings (starting balance, bid limits, mandatory bid and what happens
+// to a team that can no longer bid), shared by the submission and settlement code in
+// server.ts and the economy editor and participant bid form in App.tsx.
+
+// A bid bound either in coins or as a percentage of the team's current balance.
+export interface BidLimit {
+  kind: 'absolute' | 'percent';
+  value: number;
+}
+
+export type BankruptcyRule =
+  | { rule: 'none' }
+  | { rule: 'eliminate' }
+  // Back in with a fixed stake, usually below the starting balance; out once re-buys run out.
+  | { rule: 'rebuy', amount: number, maxRebuys: number }
+  // Back in with borrowed coins; repayPercent of every later payout goes to the debt until it is cleared.
+  | { rule: 'loan', amount: number, repayPercent: number };
+
+export interface EconomySettings {
+  startingBalance: number;
+  minBid: BidLimit;
+  maxBid: BidLimit | null;
+  // Taken at reveal from every active team that did not submit; 0 turns it off.
+  mandatoryBid: number;
+  bankruptcy: BankruptcyRule;
+}
+
+export const DEFAULT_ECONOMY: EconomySettings = {
+  startingBalance: 2000,
+  minBid: { kind: 'absolute', value: 1 },
+  maxBid: null,
+  mandatoryBid: 0,
+  bankruptcy: { rule: 'none' }
+};
+
+// Stored as JSON in the game's "economy" setting; games without one use the defaults.
+export function parseEconomy(raw: string | null | undefined): EconomySettings {
+  if (!raw) return DEFAULT_ECONOMY;
+  try {
+    const parsed = JSON.parse(raw);
+    return validateEconomy(parsed) ? DEFAULT_ECONOMY : parsed;
+  } catch {
+    return DEFAULT_ECONOMY;
+  }
+}
+
+const isWholeNumber = (n: unknown, min: number): n is number => Number.isInteger(n) && (n as number) >= min;
+
+function validateLimit(limit: any, name: string): string | null {
+  if (!limit || typeof limit !== 'object') return `${name} is required`;
+  if (limit.kind === 'absolute') {
+    return isWholeNumber(limit.value, 1) ? null : `${name} must be a whole number of coins`;
+  }
+  if (limit.kind === 'percent') {
+    return typeof limit.value === 'number' && limit.value > 0 && limit.value <= 100
+      ? null : `${name} must be between 0 and 100% of the balance`;
+  }
+  return `Unknown ${name.toLowerCase()} kind: ${limit.kind}`;
+}
+
+// Returns a human readable problem with the settings, or null if they are usable.
+export function validateEconomy(input: any): string | null {
+  if (!input || typeof input !== 'object') return 'Economy settings are required';
+  if (!isWholeNumber(input.startingBalance, 1)) return 'Starting balance must be a whole number of at least 1';
+
+  const minProblem = validateLimit(input.minBid, 'Minimum bid');
+  if (minProblem) return minProblem;
+  if (input.maxBid != null) {
+    const maxProblem = validateLimit(input.maxBid, 'Maximum bid');
+    if (maxProblem) return maxProblem;
+    if (input.maxBid.kind === input.minBid.kind && input.maxBid.value < input.minBid.value) {
+      return 'Maximum bid cannot be below the minimum bid';
+    }
+  }
+  if (!isWholeNumber(input.mandatoryBid, 0)) return 'Mandatory bid must be a whole number of coins';
+
+  const bankruptcy = input.bankruptcy;
+  switch (bankruptcy?.rule) {
+    case 'none':
+    case 'eliminate':
+      return null;
+    case 'rebuy':
+      if (!isWholeNumber(bankruptcy.amount, 1)) return 'Re-buy amount must be a whole number of coins';
+      if (!isWholeNumber(bankruptcy.maxRebuys, 1)) return 'Allow at least one re-buy';
+      return null;
+    case 'loan':
+      if (!isWholeNumber(bankruptcy.amount, 1)) return 'Loan amount must be a whole number of coins';
+      if (typeof bankruptcy.repayPercent !== 'number' || bankruptcy.repayPercent <= 0 || bankruptcy.repayPercent > 100) {
+        return 'Loan repayment must be between 0 and 100% of winnings';
+      }
+      return null;
+    default:
+      return `Unknown bankruptcy rule: ${bankruptcy?.rule}`;
+  }
+}
+
+const limitCoins = (limit: BidLimit, balance: number) =>
+  limit.kind === 'percent' ? (balance * limit.value) / 100 : limit.value;
+
+// Smallest and largest legal bid in whole coins for a team holding `balance`.
+export function bidRange(economy: EconomySettings, balance: number): { min: number, max: number } {
+  const min = Math.max(1, Math.ceil(limitCoins(economy.minBid, balance)));
+  const cap = economy.maxBid ? limitCoins(economy.maxBid, balance) : Infinity;
+  return { min, max: Math.floor(Math.min(balance, cap)) };
+}
+
+// A team is bankrupt once no bid it could place would be legal.
+export function isBankrupt(economy: EconomySettings, balance: number): boolean {
+  const { min, max } = bidRange(economy, balance);
+  return min > max;
+}
+
+export function validateBid(economy: EconomySettings, balance: number, bid: unknown): string | null {
+  if (typeof bid !== 'number' || !Number.isInteger(bid) || bid <= 0) return 'Bid must be a whole number of coins';
+  const { min, max } = bidRange(economy, balance);
+  if (bid > balance) return 'Insufficient balance';
+  if (bid < min) return `Minimum bid is ${min} coins`;
+  if (bid > max) return `Maximum bid is ${max} coins`;
+  return null;
+}
+
+// A multi-question round stakes one bid per sub-question. The limits apply to the stake as a
+// whole, so splitting it across sub-questions cannot get round the maximum bid.
+export function validateStake(economy: EconomySettings, balance: number, bids: unknown[]): string | null {
+  if (bids.some(bid => typeof bid !== 'number' || !Number.isInteger(bid) || bid <= 0)) return 'Bids must be whole numbers of coins';
+  const problem = validateBid(economy, balance, (bids as number[]).reduce((sum, bid) => sum + bid, 0));
+  return problem && `${problem} for the whole round`;
+}
+
+const formatLimit = (limit: BidLimit) => limit.kind === 'percent' ? `${limit.value}% of balance` : `${limit.value} coins`;
+
+export function describeBankruptcy(rule: BankruptcyRule): string {
+  switch (rule.rule) {
+    case 'none':
+      return 'Teams that cannot cover the minimum bid sit out until the game ends.';
+    case 'eliminate':
+      return 'Teams that cannot cover the minimum bid are eliminated.';
+    case 'rebuy':
+      return `Teams that cannot cover the minimum bid re-buy in with ${rule.amount} coins, up to ${rule.maxRebuys} time${rule.maxRebuys === 1 ? '' : 's'}; after that they are eliminated.`;
+    case 'loan':
+      return `Teams that cannot cover the minimum bid borrow ${rule.amount} coins, repaid from ${rule.repayPercent}% of later winnings.`;
+  }
+}
+
+export function describeEconomy(economy: EconomySettings): { label: string, value: string }[] {
+  return [
+    { label: 'Starting Balance', value: `${economy.startingBalance} coins` },
+    { label: 'Minimum Bid', value: formatLimit(economy.minBid) },
+    { label: 'Maximum Bid', value: economy.maxBid ? formatLimit(economy.maxBid) : 'Whole balance' },
+    { label: 'Mandatory Bid', value: economy.mandatoryBid ? `${economy.mandatoryBid} coins if you skip a round` : 'None' }
+  ];
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_GENERATED_QUESTIONS, normalizeGeneratedQuestion, validateGenerationRequest } from './generation';
+
+const FALLBACK = { theme: 'Cricket', difficulty: 'medium' as const };
+
+describe('validateGenerationRequest', () => {
+  it('accepts a topic with a count in range', () => {
+    expect(validateGenerationRequest({ topic: 'Cricket', count: 1 })).toBeNull();
+    expect(validateGenerationRequest({ topic: 'Cricket', count: MAX_GENERATED_QUESTIONS, difficulty: 'hard' })).toBeNull();
+  });
+
+  it('needs a topic of reasonable length', () => {
+    expect(validateGenerationRequest({ topic: '  ', count: 3 })).toBe('Topic is required');
+    expect(validateGenerationRequest({ count: 3 })).toBe('Topic is required');
+    expect(validateGenerationRequest(null)).toBe('Topic is required');
+    expect(validateGenerationRequest({ topic: 'x'.repeat(201), count: 3 })).toBe('Keep the topic under 200 characters');
+  });
+
+  it('keeps the count between 1 and the maximum', () => {
+    const problem = `Ask for between 1 and ${MAX_GENERATED_QUESTIONS} questions`;
+    expect(validateGenerationRequest({ topic: 'Cricket', count: 0 })).toBe(problem);
+    expect(validateGenerationRequest({ topic: 'Cricket', count: MAX_GENERATED_QUESTIONS + 1 })).toBe(problem);
+    expect(validateGenerationRequest({ topic: 'Cricket', count: 2.5 })).toBe(problem);
+    expect(validateGenerationRequest({ topic: 'Cricket', count: '3' })).toBe(problem);
+  });
+
+  it('rejects unknown difficulties but allows a mix', () => {
+    expect(validateGenerationRequest({ topic: 'Cricket', count: 3, difficulty: 'brutal' })).toBe('Unknown difficulty: brutal');
+    expect(validateGenerationRequest({ topic: 'Cricket', count: 3, difficulty: null })).toBeNull();
+  });
+});
+
+describe('normalizeGeneratedQuestion', () => {
+  it('trims the fields and keeps the unit', () => {
+    const raw = { theme: ' Records ', question: ' How many runs? ', unit: ' runs ', answer: 400, source: ' ESPNcricinfo ', difficulty: 'hard' };
+    expect(normalizeGeneratedQuestion(raw, FALLBACK)).toEqual({
+      theme: 'Records', question: 'How many runs?', unit: 'runs', answer: 400, source: 'ESPNcricinfo', difficulty: 'hard'
+    });
+  });
+
+  it('treats a blank or non-text unit as a plain count', () => {
+    expect(normalizeGeneratedQuestion({ question: 'How many?', answer: 3, unit: ' ' }, FALLBACK)?.unit).toBeNull();
+    expect(normalizeGeneratedQuestion({ question: 'How many?', answer: 3, unit: 5 }, FALLBACK)?.unit).toBeNull();
+  });
+
+  it('fills in what the generator left out', () => {
+    expect(normalizeGeneratedQuestion({ question: 'How many?', answer: 3, difficulty: 'brutal' }, FALLBACK)).toEqual({
+      theme: 'Cricket', question: 'How many?', unit: null, answer: 3, source: 'No source given', difficulty: 'medium'
+    });
+  });
+
+  it('reads answers written as text', () => {
+    expect(normalizeGeneratedQuestion({ question: 'How far?', answer: '384,400' }, FALLBACK)?.answer).toBe(384400);
+    expect(normalizeGeneratedQuestion({ question: 'How far?', answer: '42.195' }, FALLBACK)?.answer).toBe(42.195);
+  });
+
+  it('drops candidates without a question or a finite answer', () => {
+    expect(normalizeGeneratedQuestion({ question: ' ', answer: 3 }, FALLBACK)).toBeNull();
+    expect(normalizeGeneratedQuestion({ question: 'When?', answer: 'around 1900' }, FALLBACK)).toBeNull();
+    expect(normalizeGeneratedQuestion({ question: 'How many?', answer: '' }, FALLBACK)).toBeNull();
+    expect(normalizeGeneratedQuestion({ question: 'How many?', answer: Infinity }, FALLBACK)).toBeNull();
+    expect(normalizeGeneratedQuestion({ question: 'How many?', answer: [3] }, FALLBACK)).toBeNull();
+    expect(normalizeGeneratedQuestion({ question: 'How many?' }, FALLBACK)).toBeNull();
+  });
+
+  it('drops output that is not an object', () => {
+    expect(normalizeGeneratedQuestion(null, FALLBACK)).toBeNull();
+    expect(normalizeGeneratedQuestion('How many?', FALLBACK)).toBeNull();
+    expect(normalizeGeneratedQuestion(42, FALLBACK)).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+// Candidate questions produced by a round generator, shared by the generation endpoint
+// and providers on the server and the generator panel in App.tsx.
+import { Difficulty, isDifficulty } from './questions';
+
+export const MAX_GENERATED_QUESTIONS = 10;
+
+export interface GenerationRequest {
+  topic: string;
+  count: number;
+  // Left out to get a mix.
+  difficulty?: Difficulty | null;
+}
+
+// A question proposed for the bank. It is only stored once the host accepts it.
+export interface GeneratedQuestion {
+  theme: string;
+  question: string;
+  unit: string | null;
+  answer: number;
+  // Where the answer comes from, so the host can check it before it goes into play.
+  source: string;
+  difficulty: Difficulty;
+}
+
+// Returns a human readable problem with the request, or null if it can be sent to a generator.
+export function validateGenerationRequest(input: any): string | null {
+  if (!input || typeof input.topic !== 'string' || !input.topic.trim()) return 'Topic is required';
+  if (input.topic.length > 200) return 'Keep the topic under 200 characters';
+  if (!Number.isInteger(input.count) || input.count < 1 || input.count > MAX_GENERATED_QUESTIONS) {
+    return `Ask for between 1 and ${MAX_GENERATED_QUESTIONS} questions`;
+  }
+  if (input.difficulty != null && !isDifficulty(input.difficulty)) return `Unknown difficulty: ${input.difficulty}`;
+  return null;
+}
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+// Generators are not trusted to follow the format: anything without a question and a
+// finite numeric answer is dropped (null), and the rest is trimmed and defaulted.
+export function normalizeGeneratedQuestion(raw: any, fallback: { theme: string, difficulty: Difficulty }): GeneratedQuestion | null {
+  if (!raw || typeof raw !== 'object') return null;
+  // Number('') is 0, so blank text is kept as text and dropped below.
+  const answer = typeof raw.answer === 'string' && raw.answer.trim() ? Number(raw.answer.replace(/,/g, '')) : raw.answer;
+  if (!text(raw.question) || typeof answer !== 'number' || !Number.isFinite(answer)) return null;
+  return {
+    theme: text(raw.theme) || fallback.theme,
+    question: text(raw.question),
+    unit: text(raw.unit) || null,
+    answer,
+    source: text(raw.source) || 'No source given',
+    difficulty: isDifficulty(raw.difficulty) ? raw.difficulty : fallback.difficulty
+  };
+}
@@ -0,0 +1,26 @@
+// Round hints that teams can buy while a round is open, shared by the hint endpoints
+// in server.ts and the hint shop and admin hint editor in App.tsx.
+
+// What every subscriber sees: that a hint exists and what it costs, not what it says.
+export interface HintOffer {
+  id: number;
+  position: number;
+  price: number;
+}
+
+// A hint the team has bought, or any hint once the round has been revealed.
+export interface PurchasedHint extends HintOffer {
+  text: string;
+}
+
+export interface HintInput {
+  text: string;
+  price: number;
+}
+
+// Returns a human readable problem with the hint, or null if it can be offered.
+export function validateHint(input: any): string | null {
+  if (!input || typeof input.text !== 'string' || !input.text.trim()) return 'Hint text is required';
+  if (!Number.isInteger(input.price) || input.price < 0) return 'Hint price must be a whole number of coins';
+  return null;
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_LEADERBOARD, StandingStats, parseFreeze, parseLeaderboard, rankTeams, validateLeaderboard, visibleStandings } from './leaderboard';
+import type { Team } from './protocol';
+
+const team = (id: number, stats: Partial<StandingStats & { balance: number }> = {}) => ({
+  id,
+  balance: 2000,
+  average_error: null,
+  precision_hits: 0,
+  roi: null,
+  submission_lag: null,
+  ...stats
+});
+
+const order = (teams: { id: number, rank: number }[]) => teams.map(t => `${t.id}:${t.rank}`);
+
+describe('validateLeaderboard', () => {
+  it('accepts a mode with tie-breakers', () => {
+    expect(validateLeaderboard({ mode: 'roi', tieBreakers: ['balance', 'speed'] })).toBeNull();
+    expect(validateLeaderboard({ mode: 'accuracy', tieBreakers: [] })).toBeNull();
+  });
+
+  it('rejects unknown modes and tie-breakers', () => {
+    expect(validateLeaderboard(null)).toBe('Leaderboard settings are required');
+    expect(validateLeaderboard({ mode: 'luck', tieBreakers: [] })).toBe('Unknown leaderboard mode: luck');
+    expect(validateLeaderboard({ mode: 'balance', tieBreakers: 'speed' })).toBe('Tie-breakers must be a list');
+    expect(validateLeaderboard({ mode: 'balance', tieBreakers: ['luck'] })).toBe('Unknown tie-breaker: luck');
+  });
+
+  it('rejects a tie-breaker used twice', () => {
+    expect(validateLeaderboard({ mode: 'balance', tieBreakers: ['speed', 'speed'] })).toBe('Each tie-breaker can only be used once');
+  });
+});
+
+describe('parseLeaderboard', () => {
+  it('reads stored settings', () => {
+    expect(parseLeaderboard('{"mode":"precision","tieBreakers":["roi"]}')).toEqual({ mode: 'precision', tieBreakers: ['roi'] });
+  });
+
+  it('ranks by balance when the setting is missing or unusable', () => {
+    expect(parseLeaderboard(null)).toBe(DEFAULT_LEADERBOARD);
+    expect(parseLeaderboard('not json')).toBe(DEFAULT_LEADERBOARD);
+    expect(parseLeaderboard('{"mode":"luck","tieBreakers":[]}')).toBe(DEFAULT_LEADERBOARD);
+  });
+});
+
+describe('rankTeams', () => {
+  it('ranks by the mode', () => {
+    const teams = [team(1, { balance: 1500 }), team(2, { balance: 2500 }), team(3, { balance: 2000 })];
+    expect(order(rankTeams(teams, { mode: 'balance', tieBreakers: [] }))).toEqual(['2:1', '3:2', '1:3']);
+  });
+
+  it('puts lower error first and teams without one last', () => {
+    const teams = [team(1), team(2, { average_error: 12 }), team(3, { average_error: 4 })];
+    expect(order(rankTeams(teams, { mode: 'accuracy', tieBreakers: [] }))).toEqual(['3:1', '2:2', '1:3']);
+  });
+
+  it('breaks ties in the order given', () => {
+    const teams = [
+      team(1, { precision_hits: 2, roi: 10, submission_lag: 500 }),
+      team(2, { precision_hits: 2, roi: 10, submission_lag: 100 }),
+      team(3, { precision_hits: 2, roi: 30, submission_lag: 900 })
+    ];
+    expect(order(rankTeams(teams, { mode: 'precision', tieBreakers: ['roi', 'speed'] }))).toEqual(['3:1', '2:2', '1:3']);
+    expect(order(rankTeams(teams, { mode: 'precision', tieBreakers: ['speed', 'roi'] }))).toEqual(['2:1', '1:2', '3:3']);
+  });
+
+  it('shares a rank between teams level on everything, listed in join order', () => {
+    const teams = [team(3, { balance: 2000 }), team(1, { balance: 2000 }), team(2, { balance: 3000 })];
+    expect(order(rankTeams(teams, { mode: 'balance', tieBreakers: ['accuracy'] }))).toEqual(['2:1', '1:2', '3:2']);
+  });
+
+  it('skips a tie-breaker that repeats the mode', () => {
+    const teams = [team(1, { balance: 2000, roi: 5 }), team(2, { balance: 2000, roi: 8 })];
+    expect(order(rankTeams(teams, { mode: 'balance', tieBreakers: ['balance', 'roi'] }))).toEqual(['2:1', '1:2']);
+  });
+});
+
+describe('parseFreeze', () => {
+  it('reads a stored freeze', () => {
+    const freeze = { rounds: 3, roundsStarted: 1, frozenAt: 1000, standings: [] };
+    expect(parseFreeze(JSON.stringify(freeze))).toEqual(freeze);
+  });
+
+  it('is null when the board is not frozen or the setting is unreadable', () => {
+    expect(parseFreeze(undefined)).toBeNull();
+    expect(parseFreeze('{broken')).toBeNull();
+    expect(parseFreeze('null')).toBeNull();
+  });
+
+  it('is null when a field is missing or out of range', () => {
+    const freeze = { rounds: 3, roundsStarted: 1, frozenAt: 1000, standings: [] };
+    expect(parseFreeze(JSON.stringify({ ...freeze, standings: undefined }))).toBeNull();
+    expect(parseFreeze(JSON.stringify({ ...freeze, rounds: 0 }))).toBeNull();
+    expect(parseFreeze(JSON.stringify({ ...freeze, rounds: 1.5 }))).toBeNull();
+    expect(parseFreeze(JSON.stringify({ ...freeze, roundsStarted: undefined }))).toBeNull();
+    expect(parseFreeze(JSON.stringify({ ...freeze, frozenAt: '1000' }))).toBeNull();
+  });
+});
+
+describe('visibleStandings', () => {
+  const frozen: Team[] = [
+    { id: 1, game_id: 1, name: 'Alpha', balance: 3000, rank: 1 },
+    { id: 2, game_id: 1, name: 'Beta', balance: 2500, rank: 2 },
+    { id: 3, game_id: 1, name: 'Gamma', balance: 2500, rank: 2 },
+    { id: 4, game_id: 1, name: 'Delta', balance: 1000, rank: 4 }
+  ];
+
+  it('closes up the ranks behind teams that are out of the game', () => {
+    expect(visibleStandings(frozen, (id) => id !== 1).map((t) => [t.name, t.rank]))
+      .toEqual([['Beta', 1], ['Gamma', 1], ['Delta', 3]]);
+  });
+
+  it('shows a team in its frozen place once it is back', () => {
+    expect(visibleStandings(frozen, () => true)).toEqual(frozen);
+  });
+});
@@ -0,0 +1,145 @@
+// How a game's leaderboard is ranked and whether its public view is frozen. Shared by
+// the standings query and freeze endpoints on the server and the leaderboard settings
+// and boards in App.tsx.
+import type { Team } from './protocol';
+import { DEFAULT_TIERS } from './scoring';
+
+export type LeaderboardMode = 'balance' | 'accuracy' | 'precision' | 'roi';
+
+export type TieBreaker = LeaderboardMode | 'speed';
+
+export const LEADERBOARD_MODES: Record<LeaderboardMode, { name: string, description: string }> = {
+  balance: { name: 'Balance', description: 'Most coins' },
+  accuracy: { name: 'Accuracy', description: 'Lowest average error' },
+  precision: { name: 'Ultra Precision hits', description: `Most estimates within ${DEFAULT_TIERS[0].maxErrorPercent}% of the answer` },
+  roi: { name: 'ROI', description: 'Best return on the coins bid' }
+};
+
+export const TIE_BREAKERS: Record<TieBreaker, string> = {
+  balance: 'Higher balance',
+  accuracy: 'Lower average error',
+  precision: 'More Ultra Precision hits',
+  roi: 'Better ROI',
+  speed: 'Earlier submissions'
+};
+
+// An estimate this close to the answer counts as a hit, whatever the round's own scoring rules.
+export const PRECISION_HIT_PERCENT = DEFAULT_TIERS[0].maxErrorPercent;
+
+export interface LeaderboardSettings {
+  mode: LeaderboardMode;
+  // Applied in order while teams are still level; join order settles whatever is left.
+  tieBreakers: TieBreaker[];
+}
+
+export const DEFAULT_LEADERBOARD: LeaderboardSettings = { mode: 'balance', tieBreakers: ['accuracy', 'speed'] };
+
+// What the rankings are computed from, over the game's revealed, non-voided rounds.
+export interface StandingStats {
+  // Over point estimate and interval answers only; see hasMeasuredError.
+  average_error: number | null;
+  precision_hits: number;
+  roi: number | null;
+  // Average milliseconds behind the first team to submit in each round the team played.
+  submission_lag: number | null;
+}
+
+export const isLeaderboardMode = (value: unknown): value is LeaderboardMode =>
+  typeof value === 'string' && Object.keys(LEADERBOARD_MODES).includes(value);
+
+const isTieBreaker = (value: unknown): value is TieBreaker =>
+  typeof value === 'string' && Object.keys(TIE_BREAKERS).includes(value);
+
+// Returns a human readable problem with the settings, or null if they are usable.
+export function validateLeaderboard(input: any): string | null {
+  if (!input || typeof input !== 'object') return 'Leaderboard settings are required';
+  if (!isLeaderboardMode(input.mode)) return `Unknown leaderboard mode: ${input.mode}`;
+  if (!Array.isArray(input.tieBreakers)) return 'Tie-breakers must be a list';
+  for (const tieBreaker of input.tieBreakers) {
+    if (!isTieBreaker(tieBreaker)) return `Unknown tie-breaker: ${tieBreaker}`;
+  }
+  if (new Set(input.tieBreakers).size !== input.tieBreakers.length) return 'Each tie-breaker can only be used once';
+  return null;
+}
+
+// Stored as JSON in the game's "leaderboard" setting; games without one rank by balance.
+export function parseLeaderboard(raw: string | null | undefined): LeaderboardSettings {
+  if (!raw) return DEFAULT_LEADERBOARD;
+  try {
+    const parsed = JSON.parse(raw);
+    return validateLeaderboard(parsed) ? DEFAULT_LEADERBOARD : parsed;
+  } catch {
+    return DEFAULT_LEADERBOARD;
+  }
+}
+
+type Ranked = { id: number, balance: number } & StandingStats;
+
+// Lower values win for error and lag, higher for the rest; teams without a value go last.
+const byValue = (a: number | null, b: number | null, lowerWins: boolean) => {
+  if (a == null || b == null) return a == null ? (b == null ? 0 : 1) : -1;
+  return lowerWins ? a - b : b - a;
+};
+
+const COMPARE: Record<TieBreaker, (a: Ranked, b: Ranked) => number> = {
+  balance: (a, b) => b.balance - a.balance,
+  accuracy: (a, b) => byValue(a.average_error, b.average_error, true),
+  precision: (a, b) => b.precision_hits - a.precision_hits,
+  roi: (a, b) => byValue(a.roi, b.roi, false),
+  speed: (a, b) => byValue(a.submission_lag, b.submission_lag, true)
+};
+
+// Sorts teams for the leaderboard. Teams level on the mode and every tie-breaker share a rank.
+export function rankTeams<T extends Ranked>(teams: T[], settings: LeaderboardSettings): (T & { rank: number })[] {
+  const keys: TieBreaker[] = [settings.mode, ...settings.tieBreakers.filter(k => k !== settings.mode)];
+  const compare = (a: T, b: T) => {
+    for (const key of keys) {
+      const order = COMPARE[key](a, b);
+      if (order !== 0) return order;
+    }
+    return 0;
+  };
+  const sorted = [...teams].sort((a, b) => compare(a, b) || a.id - b.id);
+  const ranked: (T & { rank: number })[] = [];
+  sorted.forEach((team, i) => {
+    const previous = ranked[i - 1];
+    ranked.push({ ...team, rank: previous && compare(sorted[i - 1], team) === 0 ? previous.rank : i + 1 });
+  });
+  return ranked;
+}
+
+// The public leaderboard as it stood when the host froze it for the last rounds of the game.
+// It lifts on its own when a round starts after the last of those rounds.
+export interface LeaderboardFreeze {
+  rounds: number;
+  // Rounds started since the freeze.
+  roundsStarted: number;
+  frozenAt: number;
+  standings: Team[];
+}
+
+const isFreeze = (value: any): value is LeaderboardFreeze =>
+  !!value && typeof value === 'object'
+  && Number.isInteger(value.rounds) && value.rounds >= 1
+  && Number.isInteger(value.roundsStarted) && value.roundsStarted >= 0
+  && typeof value.frozenAt === 'number'
+  && Array.isArray(value.standings);
+
+// A frozen board keeps every team it was taken with, so a team that is removed and later let back
+// in returns to its old place. Teams out of the game are left out when it is shown, and the ranks
+// behind them close up.
+export function visibleStandings(standings: Team[], inGame: (teamId: number) => boolean): Team[] {
+  const shown = standings.filter(t => inGame(t.id));
+  return shown.map(t => ({ ...t, rank: 1 + shown.filter(o => (o.rank ?? 0) < (t.rank ?? 0)).length }));
+}
+
+// Stored as JSON in the game's "leaderboard_freeze" setting while the freeze is on.
+export function parseFreeze(raw: string | null | undefined): LeaderboardFreeze | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return isFreeze(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
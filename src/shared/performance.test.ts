@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { HistoryEntry, RoundHistory, computeTeamPerformance } from './performance';
+
+const entry = (predictedValue: number, actualValue: number | null, bidAmount: number, payout: number, errorPercent: number | null): HistoryEntry => ({
+  subQuestion: null,
+  prediction: String(predictedValue),
+  predictedValue,
+  actualValue,
+  bidAmount,
+  payout,
+  errorPercent
+});
+
+const round = (roundId: number, entries: HistoryEntry[], patch: Partial<RoundHistory> = {}): RoundHistory => ({
+  roundId,
+  number: roundId,
+  theme: `Round ${roundId}`,
+  question: null,
+  unit: null,
+  type: 'point',
+  voided: false,
+  answer: null,
+  settledAt: 1000,
+  entries,
+  profit: entries.reduce((sum, e) => sum + e.payout - e.bidAmount, 0),
+  balanceAfter: 2000,
+  ...patch
+});
+
+describe('computeTeamPerformance', () => {
+  it('is empty before the team has played', () => {
+    expect(computeTeamPerformance([round(1, [])])).toEqual({
+      roundsPlayed: 0,
+      averageErrorPercent: null,
+      totalBid: 0,
+      totalPayout: 0,
+      roi: null,
+      calibration: { estimates: 0, over: 0, under: 0, biasPercent: null },
+      bestRound: null,
+      worstRound: null
+    });
+  });
+
+  it('sums bids and payouts into ROI', () => {
+    const performance = computeTeamPerformance([
+      round(1, [entry(102, 100, 100, 300, 2)]),
+      round(2, [entry(150, 100, 200, 0, 50)])
+    ]);
+    expect(performance.roundsPlayed).toBe(2);
+    expect(performance.totalBid).toBe(300);
+    expect(performance.totalPayout).toBe(300);
+    expect(performance.roi).toBe(0);
+    expect(performance.averageErrorPercent).toBe(26);
+  });
+
+  it('leaves out voided rounds and rounds the team sat out', () => {
+    const performance = computeTeamPerformance([
+      round(1, [entry(100, null, 500, 500, null)], { voided: true }),
+      round(2, []),
+      round(3, [entry(90, 100, 100, 200, 10)])
+    ]);
+    expect(performance.roundsPlayed).toBe(1);
+    expect(performance.totalBid).toBe(100);
+    expect(performance.roi).toBe(100);
+  });
+
+  it('counts every sub-question of a multi-question round', () => {
+    const performance = computeTeamPerformance([round(1, [entry(110, 100, 50, 0, 10), entry(95, 100, 50, 150, 5)])]);
+    expect(performance.roundsPlayed).toBe(1);
+    expect(performance.totalBid).toBe(100);
+    expect(performance.averageErrorPercent).toBe(7.5);
+  });
+
+  it('averages errors over point and interval rounds only', () => {
+    const performance = computeTeamPerformance([
+      round(1, [entry(110, 100, 100, 200, 10)]),
+      round(2, [entry(1, 1, 100, 300, 0)], { type: 'choice' }),
+      round(3, [entry(0, 1, 100, 0, 100)], { type: 'over_under' }),
+      round(4, [entry(100, 100, 100, 200, 20)], { type: 'interval' })
+    ]);
+    expect(performance.roundsPlayed).toBe(4);
+    expect(performance.averageErrorPercent).toBe(15);
+  });
+
+  it('measures calibration on point estimates with a non-zero answer', () => {
+    const performance = computeTeamPerformance([
+      round(1, [entry(120, 100, 100, 0, 20)]),
+      round(2, [entry(95, 100, 100, 300, 5)]),
+      round(3, [entry(10, 0, 100, 0, 100)]),
+      round(4, [entry(1, 1, 100, 300, 0)], { type: 'choice' })
+    ]);
+    expect(performance.calibration).toEqual({ estimates: 2, over: 1, under: 1, biasPercent: 7.5 });
+  });
+
+  it('leaves out unrevealed sub-questions from calibration', () => {
+    const performance = computeTeamPerformance([round(1, [entry(120, 100, 100, 0, 20), entry(80, null, 100, 0, null)])]);
+    expect(performance.calibration.estimates).toBe(1);
+    expect(performance.averageErrorPercent).toBe(20);
+  });
+
+  it('picks the best and worst round by profit', () => {
+    const performance = computeTeamPerformance([
+      round(1, [entry(100, 100, 100, 300, 0)], { profit: 200 }),
+      round(2, [entry(200, 100, 100, 0, 100)], { profit: -150 }),
+      round(3, [entry(110, 100, 100, 200, 10)], { profit: 100 })
+    ]);
+    expect(performance.bestRound).toEqual({ roundId: 1, profit: 200 });
+    expect(performance.worstRound).toEqual({ roundId: 2, profit: -150 });
+  });
+});
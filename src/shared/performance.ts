@@ -0,0 +1,94 @@
+// A team's record over the revealed rounds of its game, built by the round history endpoint
+// in server.ts and summarised for the participant's My Performance panel in App.tsx.
+import { RoundType, hasMeasuredError } from './rounds';
+
+// One prediction: the whole round, or one sub-question of a multi-question round.
+export interface HistoryEntry {
+  subQuestion: { position: number, question: string, unit: string | null } | null;
+  prediction: string;
+  predictedValue: number;
+  // Null while the sub-question is unrevealed and on voided rounds.
+  actualValue: number | null;
+  bidAmount: number;
+  payout: number;
+  errorPercent: number | null;
+}
+
+export interface RoundHistory {
+  roundId: number;
+  // The round's place in the game, counting from 1.
+  number: number;
+  theme: string;
+  question: string | null;
+  unit: string | null;
+  type: RoundType;
+  voided: boolean;
+  answer: string | null;
+  settledAt: number | null;
+  // Empty when the team sat the round out.
+  entries: HistoryEntry[];
+  // Net coins from the round's ledger entries, hints and forfeits included.
+  profit: number;
+  balanceAfter: number;
+}
+
+export interface TeamPerformance {
+  roundsPlayed: number;
+  // Over point estimate and interval answers only.
+  averageErrorPercent: number | null;
+  totalBid: number;
+  totalPayout: number;
+  // Net payout per coin bid, in percent; null until the team has bid.
+  roi: number | null;
+  // Point estimates only. Bias is the average signed error: above zero means the team
+  // tends to guess high.
+  calibration: { estimates: number, over: number, under: number, biasPercent: number | null };
+  bestRound: { roundId: number, profit: number } | null;
+  worstRound: { roundId: number, profit: number } | null;
+}
+
+// What GET /api/teams/me/rounds returns.
+export interface TeamRoundHistory {
+  startingBalance: number;
+  rounds: RoundHistory[];
+  performance: TeamPerformance;
+}
+
+const average = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+export function computeTeamPerformance(history: RoundHistory[]): TeamPerformance {
+  const played = history.filter(r => !r.voided && r.entries.length > 0);
+  const entries = played.flatMap(r => r.entries);
+  const totalBid = entries.reduce((sum, e) => sum + e.bidAmount, 0);
+  const totalPayout = entries.reduce((sum, e) => sum + e.payout, 0);
+
+  // Intervals and choices have no single number to be high or low, and a zero answer has no relative error.
+  const estimates = played
+    .filter(r => r.type === 'point')
+    .flatMap(r => r.entries)
+    .filter(e => e.actualValue != null && e.actualValue !== 0);
+  const signed = estimates.map(e => (e.predictedValue - e.actualValue!) / Math.abs(e.actualValue!) * 100);
+
+  const byProfit = [...played].sort((a, b) => b.profit - a.profit);
+  const best = byProfit[0];
+  const worst = byProfit[byProfit.length - 1];
+  return {
+    roundsPlayed: played.length,
+    averageErrorPercent: average(played
+      .filter(r => hasMeasuredError(r.type))
+      .flatMap(r => r.entries)
+      .map(e => e.errorPercent)
+      .filter((e): e is number => e != null)),
+    totalBid,
+    totalPayout,
+    roi: totalBid > 0 ? (totalPayout - totalBid) / totalBid * 100 : null,
+    calibration: {
+      estimates: signed.length,
+      over: signed.filter(s => s > 0).length,
+      under: signed.filter(s => s < 0).length,
+      biasPercent: average(signed)
+    },
+    bestRound: best ? { roundId: best.roundId, profit: best.profit } : null,
+    worstRound: worst ? { roundId: worst.roundId, profit: worst.profit } : null
+  };
+}
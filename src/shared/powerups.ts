@@ -0,0 +1,79 @@
+// Power-ups a team can play with its submission, shared by the submission and reveal
+// code in server.ts and the power-up picker and inventory editor in App.tsx.
+import type { PredictionScore } from './rounds';
+
+export type PowerUpKind = 'double_down' | 'insurance' | 'hedge';
+
+export const POWER_UP_KINDS: PowerUpKind[] = ['double_down', 'insurance', 'hedge'];
+
+export const POWER_UPS: Record<PowerUpKind, { name: string, description: string }> = {
+  double_down: { name: 'Double Down', description: 'Doubles the payout multiplier for this round.' },
+  insurance: { name: 'Insurance', description: 'Refunds half of whatever part of the bid is lost.' },
+  hedge: { name: 'Hedge', description: 'Make a second prediction; the bid is split evenly between the two. Point estimate rounds only.' }
+};
+
+// How many times each power-up can be played per team over the whole game.
+export type PowerUpInventory = Record<PowerUpKind, number>;
+
+export const DEFAULT_INVENTORY: PowerUpInventory = { double_down: 1, insurance: 1, hedge: 1 };
+
+export const isPowerUpKind = (value: unknown): value is PowerUpKind =>
+  typeof value === 'string' && (POWER_UP_KINDS as string[]).includes(value);
+
+// Stored as JSON in the game's "power_ups" setting; games without one use the defaults.
+export function parseInventory(raw: string | null | undefined): PowerUpInventory {
+  if (!raw) return DEFAULT_INVENTORY;
+  try {
+    const parsed = JSON.parse(raw);
+    return validateInventory(parsed) ? DEFAULT_INVENTORY : parsed;
+  } catch {
+    return DEFAULT_INVENTORY;
+  }
+}
+
+// Returns a human readable problem with the inventory, or null if it is usable.
+export function validateInventory(input: any): string | null {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return 'Power-up inventory is required';
+  for (const kind of POWER_UP_KINDS) {
+    if (!Number.isInteger(input[kind]) || input[kind] < 0) {
+      return `${POWER_UPS[kind].name} needs a whole number of uses`;
+    }
+  }
+  const unknown = Object.keys(input).find(key => !isPowerUpKind(key));
+  return unknown ? `Unknown power-up: ${unknown}` : null;
+}
+
+export interface PowerUpScore {
+  score: number;
+  // The error of the better prediction when hedging.
+  errorPercent: number;
+}
+
+// Payout for one submission once its prediction (and, when hedging, its second
+// prediction) has been scored under the round's rules.
+export function applyPowerUp(
+  powerUp: PowerUpKind | null,
+  bidAmount: number,
+  { multiplier, errorPercent }: PredictionScore,
+  hedge: PredictionScore | null
+): PowerUpScore {
+  switch (powerUp) {
+    case 'double_down':
+      return { score: bidAmount * multiplier * 2, errorPercent };
+    case 'insurance': {
+      const score = bidAmount * multiplier;
+      const lost = Math.max(0, bidAmount - score);
+      return { score: score + lost / 2, errorPercent };
+    }
+    case 'hedge': {
+      const second = hedge ?? { multiplier, errorPercent };
+      const half = bidAmount / 2;
+      return {
+        score: half * multiplier + half * second.multiplier,
+        errorPercent: Math.min(errorPercent, second.errorPercent)
+      };
+    }
+    default:
+      return { score: bidAmount * multiplier, errorPercent };
+  }
+}
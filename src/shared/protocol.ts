@@ -0,0 +1,228 @@
+// WebSocket message schema shared by broadcast() in server.ts and the socket
+// handler in App.tsx. Bump PROTOCOL_VERSION on any incompatible change; a client
+// greeted with a different version reloads to pick up the matching bundle.
+import type { HintOffer, PurchasedHint } from './hints';
+import type { PowerUpInventory, PowerUpKind } from './powerups';
+import type { ChoiceOption, RoundType, SubQuestionAnswer, SubQuestionResult } from './rounds';
+import type { ScoringRuleSet } from './scoring';
+import type { RoundStats } from './stats';
+
+export const PROTOCOL_VERSION = 9;
+
+// Server pings every socket and clients send PING on this interval.
+export const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+// A client that has heard nothing for this long treats the connection as dead.
+export const HEARTBEAT_TIMEOUT_MS = 60 * 1000;
+
+export interface Round {
+  id: number;
+  game_id: number;
+  theme: string;
+  actual_value: number | null;
+  status: 'open' | 'closed' | 'revealed';
+  scoring_rule_id: number | null;
+  deadline_at: number | null;
+  question_id: number | null;
+  question: string | null;
+  unit: string | null;
+  description: string | null;
+  type: RoundType;
+  // Choice options, or the Over and Under odds; null for point and interval rounds.
+  options: ChoiceOption[] | null;
+  line: number | null;
+  // Set when the round was settled without a reveal because a new one started.
+  voided_at?: number | null;
+  submission_count?: number;
+  hints?: HintOffer[];
+  // Empty unless this is a multi-question round.
+  sub_questions?: SubQuestion[];
+}
+
+// actual_value is null until the host reveals that sub-question.
+export interface SubQuestion {
+  id: number;
+  round_id: number;
+  position: number;
+  question: string;
+  unit: string | null;
+  actual_value: number | null;
+  settled_at: number | null;
+}
+
+export interface Team {
+  id: number;
+  game_id: number;
+  name: string;
+  balance: number;
+  // Bankruptcy state under the game's economy settings.
+  eliminated_at?: number | null;
+  rebuys?: number;
+  debt?: number;
+  // Only admins see removed teams; the leaderboard leaves them out.
+  removed_at?: number | null;
+  banned_at?: number | null;
+  // Leaderboard position and the statistics behind it; see leaderboard.ts.
+  rank?: number;
+  average_error?: number | null;
+  precision_hits?: number;
+  roi?: number | null;
+  submission_lag?: number | null;
+}
+
+// Everything a subscriber needs to rebuild its view of a game after (re)connecting.
+// Only aggregate counts are included; submission values stay hidden until reveal.
+export interface GameSnapshot {
+  round: Round | null;
+  teams: Team[];
+  settings: Record<string, string>;
+  stats: RoundStats | null;
+}
+
+// A team's own prediction for a round, as confirmed by the server. predictedValue is the
+// option index on choice and over/under rounds and the midpoint on interval rounds. On
+// multi-question rounds it is null, the predictions are in answers and bidAmount is their total.
+export interface OwnSubmission {
+  roundId: number;
+  predictedValue: number | null;
+  intervalLow?: number | null;
+  intervalHigh?: number | null;
+  bidAmount: number;
+  powerUp?: PowerUpKind | null;
+  // Second prediction when the hedge power-up is played.
+  hedgeValue?: number | null;
+  answers?: SubQuestionAnswer[];
+}
+
+// One team's outcome for a revealed round, sent only to that team. Multi-question rounds
+// report totals with the per-answer outcomes in answers, and errorPercent is their average.
+export interface SettlementResult {
+  roundId: number;
+  actualValue: number | null;
+  predictedValue: number | null;
+  intervalLow?: number | null;
+  intervalHigh?: number | null;
+  bidAmount: number;
+  payout: number;
+  errorPercent: number;
+  balance: number;
+  powerUp: PowerUpKind | null;
+  hedgeValue: number | null;
+  answers?: SubQuestionResult[];
+  corrected?: boolean;
+}
+
+// Who the server recognised from the tokens sent with SUBSCRIBE. A socket without
+// valid credentials is a spectator and only receives public game events.
+export interface SocketIdentity {
+  teamId: number | null;
+  admin: boolean;
+}
+
+// Public events reach every subscriber of the game, spectators included.
+export type GameEvent =
+  | { type: 'ROUND_STARTED', round: Round, serverTime: number }
+  | { type: 'ROUND_UPDATED', round: Round, serverTime: number }
+  | { type: 'ROUND_REVEALED', roundId: number, actualValue: number | null, corrected?: boolean, stats: RoundStats }
+  | { type: 'SUBMISSION_COUNT', roundId: number, count: number }
+  | { type: 'SETTINGS_UPDATED', key: string, value: string }
+  | { type: 'GAME_ARCHIVED', gameId: number }
+  // An admin renamed, merged, removed, reinstated or adjusted a team outside of a round.
+  | { type: 'TEAMS_UPDATED' }
+  // While frozen, teams on public events and snapshots are the standings at the freeze.
+  | { type: 'LEADERBOARD_FROZEN', rounds: number, frozenAt: number }
+  | { type: 'LEADERBOARD_UNFROZEN', teams: Team[] }
+  | { type: 'GAME_RESET' }
+  // The game's contents were replaced from a snapshot; subscribers resync and teams rejoin.
+  | { type: 'GAME_RESTORED' };
+
+// Sent only to the sockets signed in as that team.
+export type TeamEvent =
+  | ({ type: 'SUBMISSION_ACCEPTED', balance: number, powerUps: PowerUpInventory } & OwnSubmission)
+  | ({ type: 'SETTLEMENT_RESULT' } & SettlementResult)
+  | { type: 'HINT_PURCHASED', roundId: number, hint: PurchasedHint, balance: number }
+  | { type: 'TEAM_CREDENTIALS_RESET', teamId: number }
+  // The team's row after an admin changed it. Devices of a team merged into this one receive it too.
+  | { type: 'TEAM_UPDATED', team: Team }
+  | { type: 'TEAM_REMOVED', teamId: number, banned: boolean, reason: string | null };
+
+// Sent only to admin sockets subscribed to the game.
+export type AdminEvent =
+  | {
+      type: 'SUBMISSION_RECEIVED',
+      roundId: number,
+      teamId: number,
+      teamName: string,
+      predictedValue: number | null,
+      intervalLow: number | null,
+      intervalHigh: number | null,
+      bidAmount: number,
+      powerUp: PowerUpKind | null,
+      answers?: SubQuestionAnswer[]
+    }
+  | { type: 'HINT_SOLD', roundId: number, hintId: number, teamId: number, teamName: string };
+
+export type GlobalEvent = { type: 'SCORING_RULES_UPDATED' };
+
+// Public game events carry a per-game sequence number; a client that sees a gap
+// resubscribes and gets a fresh SNAPSHOT whose seq continues the sequence. Team and
+// admin events are unsequenced because each socket only sees some of them; the
+// snapshot's own/identity fields cover anything missed while disconnected.
+export type ServerMessage =
+  | { v: number, type: 'WELCOME', serverTime: number }
+  | { v: number, type: 'PONG', serverTime: number }
+  | {
+      v: number,
+      type: 'SNAPSHOT',
+      gameId: number | null,
+      seq: number,
+      serverTime: number,
+      scoringRules: ScoringRuleSet[],
+      game: GameSnapshot | null,
+      identity: SocketIdentity,
+      // powerUps is how many of each power-up the team has left to play; hints are the
+      // ones it has bought for the current round.
+      own: { submitted: boolean, result: SettlementResult | null, powerUps: PowerUpInventory, hints: PurchasedHint[] } | null
+    }
+  | (GameEvent & { v: number, gameId: number, seq: number })
+  | ((TeamEvent | AdminEvent) & { v: number, gameId: number })
+  | (GlobalEvent & { v: number });
+
+export type ClientMessage =
+  | { v: number, type: 'SUBSCRIBE', gameId: number | null, teamToken?: string, adminToken?: string }
+  | { v: number, type: 'PING' };
+
+const SERVER_TYPES = new Set([
+  'WELCOME', 'PONG', 'SNAPSHOT',
+  'ROUND_STARTED', 'ROUND_UPDATED', 'ROUND_REVEALED', 'SUBMISSION_COUNT',
+  'SETTINGS_UPDATED', 'LEADERBOARD_FROZEN', 'LEADERBOARD_UNFROZEN', 'GAME_ARCHIVED', 'TEAMS_UPDATED', 'GAME_RESET',
+  'GAME_RESTORED', 'SUBMISSION_ACCEPTED', 'SETTLEMENT_RESULT', 'HINT_PURCHASED', 'TEAM_CREDENTIALS_RESET', 'TEAM_UPDATED',
+  'TEAM_REMOVED',
+  'SUBMISSION_RECEIVED', 'HINT_SOLD',
+  'SCORING_RULES_UPDATED'
+]);
+
+function parseJson(raw: string): any {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+// Returns null for anything that isn't a recognised message, so callers can just ignore it.
+export function parseServerMessage(raw: string): ServerMessage | null {
+  const data = parseJson(raw);
+  if (!data || typeof data.v !== 'number' || !SERVER_TYPES.has(data.type)) return null;
+  return data as ServerMessage;
+}
+
+export function parseClientMessage(raw: string): ClientMessage | null {
+  const data = parseJson(raw);
+  if (!data || data.v !== PROTOCOL_VERSION) return null;
+  if (data.type === 'PING') return { v: data.v, type: 'PING' };
+  if (data.type === 'SUBSCRIBE' && (data.gameId === null || Number.isInteger(data.gameId))) {
+    const token = (value: unknown) => typeof value === 'string' && value ? value : undefined;
+    return { v: data.v, type: 'SUBSCRIBE', gameId: data.gameId, teamToken: token(data.teamToken), adminToken: token(data.adminToken) };
+  }
+  return null;
+}
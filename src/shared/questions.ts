@@ -0,0 +1,134 @@
+// Question bank entries and the JSON/CSV import format, shared by the import
+// endpoint in server.ts and the question editor in App.tsx.
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export const isDifficulty = (value: unknown): value is Difficulty =>
+  typeof value === 'string' && (DIFFICULTIES as string[]).includes(value);
+
+export interface QuestionInput {
+  theme: string;
+  question: string;
+  unit?: string | null;
+  description?: string | null;
+  answer: number;
+  // Where the answer was checked; shown to hosts only, never to players.
+  source?: string | null;
+  difficulty?: Difficulty | null;
+}
+
+export interface Question extends QuestionInput {
+  id: number;
+  created_at: number;
+}
+
+export type QuestionImportFormat = 'json' | 'csv';
+
+export const QUESTION_CSV_COLUMNS = ['theme', 'question', 'unit', 'description', 'answer', 'source', 'difficulty'] as const;
+
+// Returns a human readable problem with the question, or null if it is usable.
+export function validateQuestion(input: any): string | null {
+  if (!input || typeof input !== 'object') return 'Question is required';
+  if (typeof input.theme !== 'string' || !input.theme.trim()) return 'Theme is required';
+  if (typeof input.question !== 'string' || !input.question.trim()) return 'Question text is required';
+  if (typeof input.answer !== 'number' || !Number.isFinite(input.answer)) return 'Answer must be a number';
+  if (input.difficulty != null && input.difficulty !== '' && !isDifficulty(input.difficulty)) return `Unknown difficulty: ${input.difficulty}`;
+  return null;
+}
+
+export function normalizeQuestion(input: any): QuestionInput {
+  const optional = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : null;
+  return {
+    theme: String(input.theme).trim(),
+    question: String(input.question).trim(),
+    unit: optional(input.unit),
+    description: optional(input.description),
+    answer: input.answer,
+    source: optional(input.source),
+    difficulty: isDifficulty(input.difficulty) ? input.difficulty : null
+  };
+}
+
+// Minimal RFC 4180 reader: quoted fields may contain commas, newlines and "" escapes.
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+function readCsv(content: string): any[] {
+  const [header, ...rows] = parseCsvRows(content.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+  const columns = header.map(h => h.trim().toLowerCase());
+  return rows.map(cells => {
+    const record: Record<string, unknown> = {};
+    columns.forEach((column, i) => { record[column] = cells[i]?.trim() ?? ''; });
+    if (record.answer !== undefined && record.answer !== '') record.answer = Number(record.answer);
+    return record;
+  });
+}
+
+function readJson(content: string): any[] {
+  const parsed = JSON.parse(content);
+  if (Array.isArray(parsed)) return parsed;
+  if (parsed && Array.isArray(parsed.questions)) return parsed.questions;
+  throw new Error('Expected an array of questions or { "questions": [...] }');
+}
+
+// Parses an uploaded file into valid questions plus one error per rejected row
+// (rows are numbered from 1, not counting a CSV header).
+export function parseQuestionImport(format: QuestionImportFormat, content: string): { questions: QuestionInput[], errors: string[] } {
+  let records: any[];
+  try {
+    records = format === 'csv' ? readCsv(content) : readJson(content);
+  } catch (e) {
+    return { questions: [], errors: [`Could not read file: ${e instanceof Error ? e.message : e}`] };
+  }
+
+  const questions: QuestionInput[] = [];
+  const errors: string[] = [];
+  records.forEach((record, i) => {
+    const problem = validateQuestion(record);
+    if (problem) {
+      errors.push(`Row ${i + 1}: ${problem}`);
+    } else {
+      questions.push(normalizeQuestion(record));
+    }
+  });
+  return { questions, errors };
+}
@@ -0,0 +1,222 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCORING } from './scoring';
+import {
+  OVER,
+  POINT_FORMAT,
+  RoundFormat,
+  UNDER,
+  describeAnswer,
+  describePrediction,
+  normalizeAnswers,
+  normalizePrediction,
+  normalizeRoundFormat,
+  normalizeSubQuestions,
+  overUnderOptions,
+  parseRoundFormat,
+  scorePrediction,
+  validateAnswer,
+  validateRoundFormat,
+  subQuestionProblem,
+  validateSubQuestions,
+  winningOption
+} from './rounds';
+
+const CHOICE: RoundFormat = { type: 'choice', options: [{ label: 'Paris', odds: 2 }, { label: 'Rome', odds: 3 }], line: null };
+const OVER_UNDER: RoundFormat = { type: 'over_under', options: overUnderOptions(1.8, 2.2), line: 100 };
+const INTERVAL: RoundFormat = { type: 'interval', options: null, line: null };
+
+const point = (predictedValue: number) => ({ predictedValue, intervalLow: null, intervalHigh: null });
+
+describe('validateRoundFormat', () => {
+  it('accepts point and interval rounds without options', () => {
+    expect(validateRoundFormat({ type: 'point' })).toBeNull();
+    expect(validateRoundFormat({ type: 'interval' })).toBeNull();
+  });
+
+  it('rejects unknown types', () => {
+    expect(validateRoundFormat({ type: 'bingo' })).toBe('Unknown round type: bingo');
+    expect(validateRoundFormat(null)).toBe('Unknown round type: undefined');
+  });
+
+  it('checks choice options', () => {
+    expect(validateRoundFormat({ type: 'choice' })).toBe('Options are required');
+    expect(validateRoundFormat({ type: 'choice', options: [{ label: 'Only', odds: 2 }] }))
+      .toBe('Multiple choice needs between 2 and 8 options');
+    expect(validateRoundFormat({ type: 'choice', options: [{ label: 'A', odds: 2 }, { label: ' ', odds: 2 }] }))
+      .toBe('Every option needs a label');
+    expect(validateRoundFormat({ type: 'choice', options: [{ label: 'A', odds: 2 }, { label: 'B', odds: 0.5 }] }))
+      .toBe('Odds must be at least 1x');
+    expect(validateRoundFormat(CHOICE)).toBeNull();
+  });
+
+  it('needs both sides and a line for over/under', () => {
+    expect(validateRoundFormat({ type: 'over_under', options: [{ label: 'Over', odds: 2 }], line: 5 }))
+      .toBe('Over/under needs odds for both sides');
+    expect(validateRoundFormat({ type: 'over_under', options: overUnderOptions(2, 2) })).toBe('Over/under needs a line');
+    expect(validateRoundFormat(OVER_UNDER)).toBeNull();
+  });
+});
+
+describe('normalizeRoundFormat', () => {
+  it('keeps only the fields the type uses', () => {
+    expect(normalizeRoundFormat({ type: 'point', options: CHOICE.options, line: 4 })).toEqual(POINT_FORMAT);
+    expect(normalizeRoundFormat({ type: 'choice', options: [{ label: ' Paris ', odds: 2 }], line: 4 }))
+      .toEqual({ type: 'choice', options: [{ label: 'Paris', odds: 2 }], line: null });
+  });
+});
+
+describe('parseRoundFormat', () => {
+  it('reads options stored as JSON', () => {
+    expect(parseRoundFormat({ type: 'choice', options: JSON.stringify(CHOICE.options), line: null })).toEqual(CHOICE);
+  });
+
+  it('keeps options that are already parsed', () => {
+    expect(parseRoundFormat(OVER_UNDER)).toEqual(OVER_UNDER);
+  });
+
+  it('treats rounds from before round types as point estimates', () => {
+    expect(parseRoundFormat({})).toEqual(POINT_FORMAT);
+    expect(parseRoundFormat({ type: 'bingo' }).type).toBe('point');
+  });
+});
+
+describe('normalizePrediction', () => {
+  it('stores an interval by its midpoint', () => {
+    expect(normalizePrediction(INTERVAL, { intervalLow: 10, intervalHigh: 20 }))
+      .toEqual({ prediction: { predictedValue: 15, intervalLow: 10, intervalHigh: 20 } });
+    expect(normalizePrediction(INTERVAL, { intervalLow: 20, intervalHigh: 10 }).error)
+      .toBe('Low bound cannot be above the high bound');
+    expect(normalizePrediction(INTERVAL, { intervalLow: 1 }).error).toBe('Interval needs a low and a high bound');
+  });
+
+  it('needs the index of an existing option for choice rounds', () => {
+    expect(normalizePrediction(CHOICE, { predictedValue: 1 }).prediction?.predictedValue).toBe(1);
+    expect(normalizePrediction(CHOICE, { predictedValue: 2 }).error).toBe('Pick one of the options');
+    expect(normalizePrediction(CHOICE, { predictedValue: 0.5 }).error).toBe('Pick one of the options');
+  });
+
+  it('needs a number for point rounds', () => {
+    expect(normalizePrediction(POINT_FORMAT, { predictedValue: 42 })).toEqual({ prediction: point(42) });
+    expect(normalizePrediction(POINT_FORMAT, { predictedValue: '42' }).error).toBe('Prediction must be a number');
+    expect(normalizePrediction(POINT_FORMAT, undefined).error).toBe('Prediction must be a number');
+  });
+});
+
+describe('validateAnswer', () => {
+  it('answers choice rounds with an option index', () => {
+    expect(validateAnswer(CHOICE, 1)).toBeNull();
+    expect(validateAnswer(CHOICE, 2)).toBe('Answer must be one of the options');
+  });
+
+  it('answers the other types with a number', () => {
+    expect(validateAnswer(OVER_UNDER, 97.5)).toBeNull();
+    expect(validateAnswer(POINT_FORMAT, Infinity)).toBe('Actual value must be a number');
+  });
+});
+
+describe('winningOption', () => {
+  it('picks the side of the line, with a push on the line', () => {
+    expect(winningOption(OVER_UNDER, 101)).toBe(OVER);
+    expect(winningOption(OVER_UNDER, 99)).toBe(UNDER);
+    expect(winningOption(OVER_UNDER, 100)).toBeNull();
+  });
+
+  it('is the answer itself for choice rounds', () => {
+    expect(winningOption(CHOICE, 1)).toBe(1);
+  });
+});
+
+describe('scorePrediction', () => {
+  it('scores point estimates with the scoring rules', () => {
+    expect(scorePrediction(DEFAULT_SCORING, POINT_FORMAT, point(102), 100)).toEqual({ multiplier: 3, errorPercent: 2 });
+    expect(scorePrediction(DEFAULT_SCORING, POINT_FORMAT, point(150), 100)).toEqual({ multiplier: 0, errorPercent: 50 });
+  });
+
+  it('scores an interval that holds the answer by its half-width', () => {
+    const prediction = { predictedValue: 100, intervalLow: 96, intervalHigh: 104 };
+    expect(scorePrediction(DEFAULT_SCORING, INTERVAL, prediction, 100)).toEqual({ multiplier: 3, errorPercent: 4 });
+  });
+
+  it('pays nothing for an interval that misses, measuring from the nearest bound', () => {
+    const prediction = { predictedValue: 85, intervalLow: 80, intervalHigh: 90 };
+    expect(scorePrediction(DEFAULT_SCORING, INTERVAL, prediction, 100)).toEqual({ multiplier: 0, errorPercent: 10 });
+  });
+
+  it('pays the odds of the right option', () => {
+    expect(scorePrediction(DEFAULT_SCORING, CHOICE, point(1), 1)).toEqual({ multiplier: 3, errorPercent: 0 });
+    expect(scorePrediction(DEFAULT_SCORING, CHOICE, point(0), 1)).toEqual({ multiplier: 0, errorPercent: 100 });
+  });
+
+  it('hands the bid back on an over/under push', () => {
+    expect(scorePrediction(DEFAULT_SCORING, OVER_UNDER, point(UNDER), 100)).toEqual({ multiplier: 1, errorPercent: 0 });
+    expect(scorePrediction(DEFAULT_SCORING, OVER_UNDER, point(UNDER), 90)).toEqual({ multiplier: 2.2, errorPercent: 0 });
+  });
+});
+
+describe('describePrediction', () => {
+  it('describes each round type', () => {
+    expect(describePrediction(POINT_FORMAT, { predictedValue: 12.345 })).toBe('12.35');
+    expect(describePrediction(INTERVAL, { predictedValue: 15, intervalLow: 10, intervalHigh: 20 })).toBe('10 – 20');
+    expect(describePrediction(CHOICE, { predictedValue: 0 })).toBe('Paris');
+    expect(describePrediction(OVER_UNDER, { predictedValue: OVER })).toBe('Over 100');
+  });
+
+  it('falls back to the option number when the label is missing', () => {
+    expect(describePrediction({ ...CHOICE, options: null }, { predictedValue: 1 })).toBe('Option 2');
+  });
+});
+
+describe('describeAnswer', () => {
+  it('shows the label for choice rounds and the number otherwise', () => {
+    expect(describeAnswer(CHOICE, 1)).toBe('Rome');
+    expect(describeAnswer(OVER_UNDER, 8849)).toBe('8849');
+    expect(describeAnswer(POINT_FORMAT, 0.5)).toBe('0.50');
+  });
+});
+
+describe('subQuestionProblem', () => {
+  it('needs between 2 and 10 sub-questions', () => {
+    const problem = 'A multi-question round needs between 2 and 10 sub-questions';
+    expect(subQuestionProblem([{ question: 'One?' }])).toBe(problem);
+    expect(subQuestionProblem(Array.from({ length: 11 }, () => ({ question: 'Q?' })))).toBe(problem);
+    expect(subQuestionProblem('How tall?')).toBe(problem);
+  });
+
+  it('needs a question for each and text units', () => {
+    expect(subQuestionProblem([{ question: 'One?' }, { question: ' ' }])).toBe('Every sub-question needs its question');
+    expect(subQuestionProblem([{ question: 'One?' }, { question: 'Two?', unit: 5 }])).toBe('Sub-question units must be text');
+    expect(subQuestionProblem([{ question: 'One?', unit: 'm' }, { question: 'Two?', unit: null }])).toBeNull();
+  });
+});
+
+describe('validateSubQuestions', () => {
+  it('accepts only usable sub-questions', () => {
+    expect(validateSubQuestions([{ question: 'One?' }, { question: 'Two?', unit: 'km' }])).toBe(true);
+    expect(validateSubQuestions([{ question: 'One?' }, { question: '' }])).toBe(false);
+    expect(validateSubQuestions(undefined)).toBe(false);
+  });
+});
+
+describe('normalizeSubQuestions', () => {
+  it('trims questions and drops blank units', () => {
+    expect(normalizeSubQuestions([{ question: ' One? ', unit: ' m ' }, { question: 'Two?', unit: ' ' }, { question: 'Three?' }]))
+      .toEqual([{ question: 'One?', unit: 'm' }, { question: 'Two?', unit: null }, { question: 'Three?', unit: null }]);
+  });
+});
+
+describe('normalizeAnswers', () => {
+  it('returns one answer per sub-question, in sub-question order', () => {
+    const input = [{ subQuestionId: 8, predictedValue: 2, bidAmount: 20 }, { subQuestionId: 7, predictedValue: 1, bidAmount: 10 }];
+    expect(normalizeAnswers([7, 8], input)).toEqual({ answers: [input[1], input[0]] });
+  });
+
+  it('rejects missing, non-numeric and unknown answers', () => {
+    expect(normalizeAnswers([7, 8], [{ subQuestionId: 7, predictedValue: 1, bidAmount: 10 }]).error).toBe('Answer every sub-question');
+    expect(normalizeAnswers([7], [{ subQuestionId: 7, predictedValue: 'x', bidAmount: 10 }]).error).toBe('Predictions must be numbers');
+    expect(normalizeAnswers([7], [
+      { subQuestionId: 7, predictedValue: 1, bidAmount: 10 },
+      { subQuestionId: 9, predictedValue: 1, bidAmount: 10 }
+    ]).error).toBe('Unknown sub-question');
+    expect(normalizeAnswers([7], null).error).toBe('Answer every sub-question');
+  });
+});
@@ -0,0 +1,243 @@
+// Round types and how each one is answered and scored, shared by the round, submission
+// and reveal handlers in server.ts and the round form and prediction inputs in App.tsx.
+import { ScoringDefinition, computeErrorPercent, scoreMultiplier } from './scoring';
+
+export type RoundType = 'point' | 'interval' | 'choice' | 'over_under';
+
+export const ROUND_TYPES: Record<RoundType, { name: string, description: string }> = {
+  point: { name: 'Point Estimate', description: 'Predict the number; the closer, the bigger the multiplier.' },
+  interval: { name: 'Confidence Interval', description: 'Give a low and high bound; narrow intervals that contain the answer pay the most.' },
+  choice: { name: 'Multiple Choice', description: 'Pick one option; the right one pays its odds.' },
+  over_under: { name: 'Over / Under', description: 'Call whether the answer lands over or under the line.' }
+};
+
+export interface ChoiceOption {
+  label: string;
+  // Payout multiplier on the bid when this option is right.
+  odds: number;
+}
+
+// How a round is played. Choice rounds carry their options; over/under rounds carry the
+// line and two options (Over, Under) holding the odds for each side.
+export interface RoundFormat {
+  type: RoundType;
+  options: ChoiceOption[] | null;
+  line: number | null;
+}
+
+export const POINT_FORMAT: RoundFormat = { type: 'point', options: null, line: null };
+
+export const OVER = 0;
+export const UNDER = 1;
+
+const MAX_OPTIONS = 8;
+
+const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n);
+
+export const isRoundType = (value: unknown): value is RoundType =>
+  typeof value === 'string' && Object.keys(ROUND_TYPES).includes(value);
+
+export function overUnderOptions(overOdds: number, underOdds: number): ChoiceOption[] {
+  return [{ label: 'Over', odds: overOdds }, { label: 'Under', odds: underOdds }];
+}
+
+// Returns a human readable problem with the format, or null if a round can be started with it.
+export function validateRoundFormat(input: any): string | null {
+  if (!input || !isRoundType(input.type)) return `Unknown round type: ${input?.type}`;
+  if (input.type === 'choice' || input.type === 'over_under') {
+    const options = input.options;
+    if (!Array.isArray(options)) return 'Options are required';
+    if (input.type === 'choice' && (options.length < 2 || options.length > MAX_OPTIONS)) {
+      return `Multiple choice needs between 2 and ${MAX_OPTIONS} options`;
+    }
+    if (input.type === 'over_under' && options.length !== 2) return 'Over/under needs odds for both sides';
+    for (const option of options) {
+      if (!option || typeof option.label !== 'string' || !option.label.trim()) return 'Every option needs a label';
+      if (!isFiniteNumber(option.odds) || option.odds < 1) return 'Odds must be at least 1x';
+    }
+  }
+  if (input.type === 'over_under' && !isFiniteNumber(input.line)) return 'Over/under needs a line';
+  return null;
+}
+
+export function normalizeRoundFormat(input: any): RoundFormat {
+  const type: RoundType = input.type;
+  return {
+    type,
+    options: type === 'choice' || type === 'over_under'
+      ? input.options.map((o: ChoiceOption) => ({ label: o.label.trim(), odds: o.odds }))
+      : null,
+    line: type === 'over_under' ? input.line : null
+  };
+}
+
+// The format of a stored round. rounds.options is JSON in the database, while rows the
+// server has already read back through getRound carry it parsed.
+export function parseRoundFormat(round: { type?: string | null, options?: string | ChoiceOption[] | null, line?: number | null }): RoundFormat {
+  return {
+    type: isRoundType(round.type) ? round.type : 'point',
+    options: typeof round.options === 'string' ? JSON.parse(round.options) : round.options ?? null,
+    line: round.line ?? null
+  };
+}
+
+const isChoiceType = (type: RoundType) => type === 'choice' || type === 'over_under';
+
+// A submitted prediction as stored: predictedValue is the point estimate, the interval's
+// midpoint, or the index of the chosen option.
+export interface Prediction {
+  predictedValue: number;
+  intervalLow: number | null;
+  intervalHigh: number | null;
+}
+
+export function normalizePrediction(format: RoundFormat, body: any): { prediction?: Prediction, error?: string } {
+  if (format.type === 'interval') {
+    const { intervalLow, intervalHigh } = body ?? {};
+    if (!isFiniteNumber(intervalLow) || !isFiniteNumber(intervalHigh)) return { error: 'Interval needs a low and a high bound' };
+    if (intervalLow > intervalHigh) return { error: 'Low bound cannot be above the high bound' };
+    return { prediction: { predictedValue: (intervalLow + intervalHigh) / 2, intervalLow, intervalHigh } };
+  }
+  const value = body?.predictedValue;
+  if (isChoiceType(format.type)) {
+    if (!Number.isInteger(value) || value < 0 || value >= (format.options?.length ?? 0)) return { error: 'Pick one of the options' };
+  } else if (!isFiniteNumber(value)) {
+    return { error: 'Prediction must be a number' };
+  }
+  return { prediction: { predictedValue: value, intervalLow: null, intervalHigh: null } };
+}
+
+// Choice rounds are answered with the index of the right option; the rest with the number.
+export function validateAnswer(format: RoundFormat, actualValue: unknown): string | null {
+  if (format.type === 'choice') {
+    return Number.isInteger(actualValue) && (actualValue as number) >= 0 && (actualValue as number) < format.options!.length
+      ? null : 'Answer must be one of the options';
+  }
+  return isFiniteNumber(actualValue) ? null : 'Actual value must be a number';
+}
+
+// The option that wins: the answer itself for choice rounds, the side of the line for
+// over/under, where landing exactly on the line is a push (null).
+export function winningOption(format: RoundFormat, actualValue: number): number | null {
+  if (format.type === 'choice') return actualValue;
+  if (format.type === 'over_under') {
+    if (actualValue === format.line) return null;
+    return actualValue > format.line! ? OVER : UNDER;
+  }
+  return null;
+}
+
+export interface PredictionScore {
+  multiplier: number;
+  errorPercent: number;
+}
+
+// Payout multiplier and error for one prediction. Point rounds use the round's scoring rules
+// directly; intervals that contain the answer are scored as if their half-width were the error.
+export function scorePrediction(def: ScoringDefinition, format: RoundFormat, prediction: Prediction, actualValue: number): PredictionScore {
+  switch (format.type) {
+    case 'interval': {
+      const low = prediction.intervalLow ?? prediction.predictedValue;
+      const high = prediction.intervalHigh ?? prediction.predictedValue;
+      if (actualValue < low || actualValue > high) {
+        const nearest = actualValue < low ? low : high;
+        return { multiplier: 0, errorPercent: computeErrorPercent(nearest, actualValue) };
+      }
+      const halfWidth = computeErrorPercent(actualValue + (high - low) / 2, actualValue);
+      return { multiplier: scoreMultiplier(def, halfWidth), errorPercent: halfWidth };
+    }
+    case 'choice':
+    case 'over_under': {
+      const winner = winningOption(format, actualValue);
+      if (winner === null) return { multiplier: 1, errorPercent: 0 };
+      return winner === prediction.predictedValue
+        ? { multiplier: format.options![winner].odds, errorPercent: 0 }
+        : { multiplier: 0, errorPercent: 100 };
+    }
+    default: {
+      const errorPercent = computeErrorPercent(prediction.predictedValue, actualValue);
+      return { multiplier: scoreMultiplier(def, errorPercent), errorPercent };
+    }
+  }
+}
+
+// Choice and over/under answers are right or wrong, and scorePrediction gives them a stand-in
+// error of 0 or 100%. Average errors only count the types where the error is measured.
+export const hasMeasuredError = (type: RoundType) => type === 'point' || type === 'interval';
+
+const formatNumber = (n: number) => Number.isInteger(n) ? String(n) : n.toFixed(2);
+
+export function describePrediction(
+  format: RoundFormat,
+  prediction: { predictedValue: number, intervalLow?: number | null, intervalHigh?: number | null }
+): string {
+  switch (format.type) {
+    case 'interval':
+      return `${formatNumber(prediction.intervalLow ?? prediction.predictedValue)} – ${formatNumber(prediction.intervalHigh ?? prediction.predictedValue)}`;
+    case 'choice':
+      return format.options?.[prediction.predictedValue]?.label ?? `Option ${prediction.predictedValue + 1}`;
+    case 'over_under':
+      return `${prediction.predictedValue === OVER ? 'Over' : 'Under'} ${format.line}`;
+    default:
+      return formatNumber(prediction.predictedValue);
+  }
+}
+
+export function describeAnswer(format: RoundFormat, actualValue: number): string {
+  if (format.type === 'choice') return format.options?.[actualValue]?.label ?? String(actualValue);
+  return formatNumber(actualValue);
+}
+
+// Multi-question rounds ask several point-estimate sub-questions under one theme; teams
+// answer and bid on every one of them in a single submission.
+export const MAX_SUB_QUESTIONS = 10;
+
+export interface SubQuestionInput {
+  question: string;
+  unit?: string | null;
+}
+
+export interface SubQuestionAnswer {
+  subQuestionId: number;
+  predictedValue: number;
+  bidAmount: number;
+}
+
+// One answer once its sub-question has been revealed.
+export interface SubQuestionResult extends SubQuestionAnswer {
+  actualValue: number | null;
+  payout: number;
+  errorPercent: number | null;
+}
+
+// Returns a human readable problem with the sub-questions, or null if a round can be started with them.
+export function subQuestionProblem(input: any): string | null {
+  if (!Array.isArray(input) || input.length < 2 || input.length > MAX_SUB_QUESTIONS) {
+    return `A multi-question round needs between 2 and ${MAX_SUB_QUESTIONS} sub-questions`;
+  }
+  for (const item of input) {
+    if (!item || typeof item.question !== 'string' || !item.question.trim()) return 'Every sub-question needs its question';
+    if (item.unit != null && typeof item.unit !== 'string') return 'Sub-question units must be text';
+  }
+  return null;
+}
+
+export const validateSubQuestions = (input: unknown): input is SubQuestionInput[] => subQuestionProblem(input) === null;
+
+export function normalizeSubQuestions(input: SubQuestionInput[]): { question: string, unit: string | null }[] {
+  return input.map(item => ({ question: item.question.trim(), unit: item.unit?.trim() || null }));
+}
+
+// Checks that there is exactly one numeric answer per sub-question. Bids are left to the economy rules.
+export function normalizeAnswers(subQuestionIds: number[], input: any): { answers?: SubQuestionAnswer[], error?: string } {
+  if (!Array.isArray(input)) return { error: 'Answer every sub-question' };
+  const answers: SubQuestionAnswer[] = [];
+  for (const id of subQuestionIds) {
+    const answer = input.find((a: any) => a?.subQuestionId === id);
+    if (!answer) return { error: 'Answer every sub-question' };
+    if (!isFiniteNumber(answer.predictedValue)) return { error: 'Predictions must be numbers' };
+    answers.push({ subQuestionId: id, predictedValue: answer.predictedValue, bidAmount: answer.bidAmount });
+  }
+  if (input.length !== answers.length) return { error: 'Unknown sub-question' };
+  return { answers };
+}
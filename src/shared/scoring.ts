@@ -0,0 +1,138 @@
+// Scoring rule definitions shared by the reveal handler in server.ts and the
+// participant rule cards in App.tsx, so both always describe the same rules.
+
+export interface ScoreTier {
+  maxErrorPercent: number;
+  multiplier: number;
+  label?: string;
+}
+
+// Softer landing past the last paying tier / curve cutoff: instead of losing
+// the whole bid, predictions up to maxErrorPercent get multiplier (< 1) back.
+export interface PartialLossBand {
+  maxErrorPercent: number;
+  multiplier: number;
+}
+
+export type ScoringCurve =
+  | { kind: 'tiers'; tiers: ScoreTier[] }
+  | { kind: 'linear' | 'log'; maxMultiplier: number; minMultiplier: number; cutoffPercent: number };
+
+export type ScoringDefinition = ScoringCurve & { partialLoss?: PartialLossBand | null };
+
+export interface ScoringRuleSet {
+  id: number;
+  name: string;
+  definition: ScoringDefinition;
+}
+
+export const DEFAULT_TIERS: ScoreTier[] = [
+  { maxErrorPercent: 5, multiplier: 3, label: 'Ultra Precision' },
+  { maxErrorPercent: 10, multiplier: 2, label: 'High Precision' },
+  { maxErrorPercent: 20, multiplier: 1.5, label: 'Good Prediction' },
+  { maxErrorPercent: 25, multiplier: 1, label: 'Break Even' }
+];
+
+export const DEFAULT_SCORING: ScoringDefinition = { kind: 'tiers', tiers: DEFAULT_TIERS, partialLoss: null };
+
+export function computeErrorPercent(predicted: number, actual: number): number {
+  if (actual === 0) return predicted === 0 ? 0 : 100;
+  return (Math.abs(predicted - actual) / Math.abs(actual)) * 100;
+}
+
+export function cutoffPercent(def: ScoringDefinition): number {
+  if (def.kind === 'tiers') {
+    return Math.max(0, ...def.tiers.map(t => t.maxErrorPercent));
+  }
+  return def.cutoffPercent;
+}
+
+// Payout multiplier applied to the bid; 0 means the whole bid is lost.
+export function scoreMultiplier(def: ScoringDefinition, errorPercent: number): number {
+  const cutoff = cutoffPercent(def);
+
+  if (errorPercent <= cutoff) {
+    if (def.kind === 'tiers') {
+      const tier = [...def.tiers]
+        .sort((a, b) => a.maxErrorPercent - b.maxErrorPercent)
+        .find(t => errorPercent <= t.maxErrorPercent);
+      return tier ? tier.multiplier : 0;
+    }
+    const shape = def.kind === 'linear'
+      ? 1 - errorPercent / cutoff
+      : 1 - Math.log1p(errorPercent) / Math.log1p(cutoff);
+    return def.minMultiplier + (def.maxMultiplier - def.minMultiplier) * shape;
+  }
+
+  if (def.partialLoss && errorPercent <= def.partialLoss.maxErrorPercent) {
+    return def.partialLoss.multiplier;
+  }
+  return 0;
+}
+
+const isNonNegative = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n) && n >= 0;
+
+// Returns a human readable problem with the definition, or null if it is usable.
+export function validateScoringDefinition(def: any): string | null {
+  if (!def || typeof def !== 'object') return 'Definition is required';
+
+  if (def.kind === 'tiers') {
+    if (!Array.isArray(def.tiers) || def.tiers.length === 0) return 'At least one tier is required';
+    for (const tier of def.tiers) {
+      if (!isNonNegative(tier?.maxErrorPercent) || !isNonNegative(tier?.multiplier)) {
+        return 'Tiers need a non-negative error limit and multiplier';
+      }
+    }
+  } else if (def.kind === 'linear' || def.kind === 'log') {
+    if (!isNonNegative(def.maxMultiplier) || !isNonNegative(def.minMultiplier)) return 'Multipliers must be non-negative';
+    if (def.minMultiplier > def.maxMultiplier) return 'Minimum multiplier cannot exceed maximum multiplier';
+    if (!isNonNegative(def.cutoffPercent) || def.cutoffPercent === 0) return 'Cutoff must be greater than 0%';
+  } else {
+    return `Unknown scoring kind: ${def.kind}`;
+  }
+
+  if (def.partialLoss) {
+    const band = def.partialLoss;
+    if (!isNonNegative(band.multiplier) || band.multiplier >= 1) return 'Partial loss multiplier must be between 0 and 1';
+    if (!isNonNegative(band.maxErrorPercent) || band.maxErrorPercent <= cutoffPercent(def)) {
+      return 'Partial loss band must extend past the scoring cutoff';
+    }
+  }
+  return null;
+}
+
+export interface ScoringCard {
+  label: string;
+  mult: string;
+  desc: string;
+}
+
+const formatMultiplier = (m: number) => `${m.toFixed(1)}x`;
+
+export function describeScoring(def: ScoringDefinition): ScoringCard[] {
+  if (def.kind === 'tiers') {
+    return [...def.tiers]
+      .sort((a, b) => a.maxErrorPercent - b.maxErrorPercent)
+      .map((t, i) => ({
+        label: t.label || `Tier ${i + 1}`,
+        mult: formatMultiplier(t.multiplier),
+        desc: `Error ≤ ${t.maxErrorPercent}%`
+      }));
+  }
+
+  const curve = def.kind === 'linear' ? 'Linear decay' : 'Log decay';
+  return [
+    { label: 'Perfect Prediction', mult: formatMultiplier(def.maxMultiplier), desc: 'Error = 0%' },
+    { label: curve, mult: `${formatMultiplier(def.maxMultiplier)} → ${formatMultiplier(def.minMultiplier)}`, desc: `Error 0–${def.cutoffPercent}%` },
+    { label: 'Cutoff', mult: formatMultiplier(def.minMultiplier), desc: `Error = ${def.cutoffPercent}%` }
+  ];
+}
+
+export function describeLoss(def: ScoringDefinition): string {
+  const cutoff = cutoffPercent(def);
+  if (!def.partialLoss) {
+    return `Predictions with over ${cutoff}% error result in a total loss of the bid.`;
+  }
+  const kept = Math.round(def.partialLoss.multiplier * 100);
+  return `Predictions with ${cutoff}–${def.partialLoss.maxErrorPercent}% error keep ${kept}% of the bid; over ${def.partialLoss.maxErrorPercent}% error results in a total loss.`;
+}
@@ -0,0 +1,213 @@
+// Crowd statistics for a revealed round, computed by the server on reveal and
+// rendered by the participant and admin round summaries in App.tsx.
+import { POINT_FORMAT, RoundFormat, winningOption } from './rounds';
+import { computeErrorPercent } from './scoring';
+
+export interface StatsSubmission {
+  team_id: number;
+  team_name: string;
+  predicted_value: number;
+  bid_amount: number;
+  // Balance the team had just before placing the bid.
+  balance_before: number;
+}
+
+export interface HistogramBin {
+  label: string;
+  // Signed error range in percent relative to the answer; null means unbounded.
+  min: number | null;
+  max: number | null;
+  count: number;
+}
+
+// A round hint and the teams that paid for it; hint texts are public once the round is revealed.
+export interface HintSales {
+  id: number;
+  position: number;
+  text: string;
+  price: number;
+  buyers: { teamId: number, teamName: string }[];
+}
+
+// How many teams picked each option of a choice or over/under round.
+export interface ChoiceTally {
+  label: string;
+  odds: number;
+  count: number;
+  // False for every option when an over/under round pushes.
+  correct: boolean;
+}
+
+// One sub-question of a multi-question round, with statistics of its own.
+export interface SubQuestionStats {
+  id: number;
+  position: number;
+  question: string;
+  unit: string | null;
+  stats: RoundStats;
+}
+
+export interface CrowdEstimate {
+  value: number;
+  errorPercent: number;
+}
+
+export interface RoundStats {
+  roundId: number;
+  // Null on multi-question rounds, whose answers are in subQuestions.
+  actualValue: number | null;
+  count: number;
+  mean: CrowdEstimate | null;
+  median: CrowdEstimate | null;
+  // Mean after dropping the outer TRIM_FRACTION of predictions on each side.
+  trimmedMean: CrowdEstimate | null;
+  stdDev: number | null;
+  closest: { teamId: number, teamName: string, predictedValue: number, errorPercent: number } | null;
+  riskTaker: { teamId: number, teamName: string, bidAmount: number, stakePercent: number } | null;
+  histogram: HistogramBin[];
+  // Choice and over/under rounds only; their estimates, closest and histogram are left empty.
+  choices: ChoiceTally[] | null;
+  subQuestions: SubQuestionStats[] | null;
+  hints: HintSales[];
+}
+
+const TRIM_FRACTION = 0.1;
+
+// Bin edges in signed error percent; the middle bin is "within ±5%".
+const HISTOGRAM_EDGES = [-50, -25, -10, -5, 5, 10, 25, 50];
+
+export function signedErrorPercent(predicted: number, actual: number): number {
+  if (actual === 0) return predicted === 0 ? 0 : Math.sign(predicted) * 100;
+  return ((predicted - actual) / Math.abs(actual)) * 100;
+}
+
+function median(sorted: number[]): number {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function emptyHistogram(): HistogramBin[] {
+  const bounds = [null, ...HISTOGRAM_EDGES, null];
+  return bounds.slice(0, -1).map((min, i) => {
+    const max = bounds[i + 1];
+    const label = min === null ? `< ${max}%`
+      : max === null ? `> +${min}%`
+      : min === -5 && max === 5 ? '±5%'
+      : `${min > 0 ? '+' : ''}${min}…${max > 0 ? '+' : ''}${max}%`;
+    return { label, min, max, count: 0 };
+  });
+}
+
+export function computeRoundStats(
+  roundId: number,
+  actualValue: number,
+  submissions: StatsSubmission[],
+  hints: HintSales[] = [],
+  format: RoundFormat = POINT_FORMAT
+): RoundStats {
+  if (format.options) {
+    return computeChoiceStats(roundId, actualValue, submissions, hints, format);
+  }
+  const histogram = emptyHistogram();
+  const predictions = submissions.map(s => s.predicted_value).sort((a, b) => a - b);
+  const estimate = (value: number): CrowdEstimate => ({ value, errorPercent: computeErrorPercent(value, actualValue) });
+
+  if (predictions.length === 0) {
+    return {
+      roundId, actualValue, count: 0,
+      mean: null, median: null, trimmedMean: null, stdDev: null, closest: null, riskTaker: null,
+      histogram, choices: null, subQuestions: null, hints
+    };
+  }
+
+  const mean = predictions.reduce((a, b) => a + b, 0) / predictions.length;
+  const variance = predictions.reduce((acc, p) => acc + (p - mean) ** 2, 0) / predictions.length;
+  const trim = Math.floor(predictions.length * TRIM_FRACTION);
+  const trimmed = predictions.slice(trim, predictions.length - trim);
+
+  for (const p of predictions) {
+    const error = signedErrorPercent(p, actualValue);
+    const bin = histogram.find(b => (b.min === null || error >= b.min) && (b.max === null || error < b.max))
+      ?? histogram[histogram.length - 1];
+    bin.count++;
+  }
+
+  const closest = submissions.reduce((best, s) =>
+    computeErrorPercent(s.predicted_value, actualValue) < computeErrorPercent(best.predicted_value, actualValue) ? s : best);
+  const riskTaker = findRiskTaker(submissions);
+
+  return {
+    roundId,
+    actualValue,
+    count: predictions.length,
+    mean: estimate(mean),
+    median: estimate(median(predictions)),
+    trimmedMean: estimate(trimmed.reduce((a, b) => a + b, 0) / trimmed.length),
+    stdDev: Math.sqrt(variance),
+    closest: {
+      teamId: closest.team_id,
+      teamName: closest.team_name,
+      predictedValue: closest.predicted_value,
+      errorPercent: computeErrorPercent(closest.predicted_value, actualValue)
+    },
+    riskTaker,
+    histogram,
+    choices: null,
+    subQuestions: null,
+    hints
+  };
+}
+
+const stake = (s: Stake) => s.balance_before > 0 ? (s.bid_amount / s.balance_before) * 100 : 0;
+
+type Stake = Pick<StatsSubmission, 'team_id' | 'team_name' | 'bid_amount' | 'balance_before'>;
+
+function findRiskTaker(submissions: Stake[]): RoundStats['riskTaker'] {
+  if (submissions.length === 0) return null;
+  const riskTaker = submissions.reduce((best, s) =>
+    stake(s) > stake(best) || (stake(s) === stake(best) && s.bid_amount > best.bid_amount) ? s : best);
+  return {
+    teamId: riskTaker.team_id,
+    teamName: riskTaker.team_name,
+    bidAmount: riskTaker.bid_amount,
+    stakePercent: stake(riskTaker)
+  };
+}
+
+// predicted_value holds the picked option's index on these rounds, so averages mean nothing.
+function computeChoiceStats(
+  roundId: number,
+  actualValue: number,
+  submissions: StatsSubmission[],
+  hints: HintSales[],
+  format: RoundFormat
+): RoundStats {
+  const winner = winningOption(format, actualValue);
+  const choices = format.options!.map((option, i) => ({
+    label: option.label,
+    odds: option.odds,
+    count: submissions.filter(s => s.predicted_value === i).length,
+    correct: i === winner
+  }));
+  return {
+    roundId, actualValue, count: submissions.length,
+    mean: null, median: null, trimmedMean: null, stdDev: null, closest: null,
+    riskTaker: findRiskTaker(submissions),
+    histogram: [], choices, subQuestions: null, hints
+  };
+}
+
+// The round as a whole only has its teams and their total stakes; everything else is per sub-question.
+export function computeMultiRoundStats(
+  roundId: number,
+  stakes: Stake[],
+  subQuestions: SubQuestionStats[],
+  hints: HintSales[] = []
+): RoundStats {
+  return {
+    roundId, actualValue: null, count: stakes.length,
+    mean: null, median: null, trimmedMean: null, stdDev: null, closest: null,
+    riskTaker: findRiskTaker(stakes),
+    histogram: [], choices: null, subQuestions, hints
+  };
+}